@@ -1,11 +1,22 @@
-import React, { useEffect, useMemo } from 'react';
-import { ChevronLeft, ChevronRight, Moon, Sun, Undo2, Redo2, Settings, Mic } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Moon, Sun, Undo2, Redo2, Settings, Mic, Download, DatabaseBackup, CalendarPlus, FileUp, ShieldCheck, SlidersHorizontal, ArrowLeftRight, History } from 'lucide-react';
 import { Button, IconButton } from './components/ui';
 import { DayTimeline } from './components/DayTimeline';
 import { WeekTimeline } from './components/WeekTimeline';
-import { usePlannerStore } from './stores/usePlannerStore';
+import { StorageStatusBadge } from './components/StorageStatusBadge';
+import { MigrationReportDialog } from './components/MigrationReportDialog';
+import { ExportDialog } from './components/ExportDialog';
+import { BackupDialog } from './components/BackupDialog';
+import { IcsImportDialog } from './components/IcsImportDialog';
+import { TimeTrackerImportDialog } from './components/TimeTrackerImportDialog';
+import { IntegrityDialog } from './components/IntegrityDialog';
+import { SettingsDialog } from './components/SettingsDialog';
+import { SyncDialog } from './components/SyncDialog';
+import { HistoryDialog } from './components/HistoryDialog';
+import { usePlannerStore, type ResizeEdge } from './stores/usePlannerStore';
 import { useDragHandler } from './hooks/useDragHandler';
-import { toISODate, formatDateKorean } from './lib/time';
+import { toISODate, formatDateKorean, parseISODate, makeDayTimeZoneResolver } from './lib/time';
+import { logicalDateISO, logicalDatesToLoad, projectBlocksOntoLogicalDay } from './lib/logicalDay';
 
 const DEFAULT_ACTIVITIES = [
   { id: 'work', name: '업무', color: '#F2A0B3' },
@@ -26,6 +37,12 @@ export default function App() {
   const theme = usePlannerStore(state => state.theme);
   const activities = usePlannerStore(state => state.activities);
   const blocks = usePlannerStore(state => state.blocks);
+  const startHour = usePlannerStore(state => state.startHour);
+  const timeZone = usePlannerStore(state => state.timeZone);
+  const dailyStateByDate = usePlannerStore(state => state.dailyStateByDate);
+  const storageStatus = usePlannerStore(state => state.storageStatus);
+  const migrationReport = usePlannerStore(state => state.migrationReport);
+  const selection = usePlannerStore(state => state.selection);
   
   const setView = usePlannerStore(state => state.setView);
   const setDate = usePlannerStore(state => state.setDate);
@@ -37,22 +54,65 @@ export default function App() {
   const canUndo = usePlannerStore(state => state.canUndo());
   const canRedo = usePlannerStore(state => state.canRedo());
   const loadFromStorage = usePlannerStore(state => state.loadFromStorage);
-  const addActivity = usePlannerStore(state => state.addActivity);
+  const saveToStorage = usePlannerStore(state => state.saveToStorage);
+  const ensureBlocksLoaded = usePlannerStore(state => state.ensureBlocksLoaded);
+  const seedActivities = usePlannerStore(state => state.seedActivities);
+  const dismissMigrationReport = usePlannerStore(state => state.dismissMigrationReport);
+  const selectBlock = usePlannerStore(state => state.selectBlock);
+  const setResizeArmed = usePlannerStore(state => state.setResizeArmed);
+  const resizeBlock = usePlannerStore(state => state.resizeBlock);
+  const removeBlock = usePlannerStore(state => state.removeBlock);
+  
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isIcsImportOpen, setIsIcsImportOpen] = useState(false);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [isIntegrityOpen, setIsIntegrityOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   
   const dateISO = useMemo(() => toISODate(date), [date]);
-  const dayBlocks = useMemo(() => blocks[dateISO] || [], [blocks, dateISO]);
+  // 날짜별 시간대: 여행한 날은 그날 기록한 시간대, 아니면 기본 시간대
+  const zoneForDate = useMemo(
+    () => makeDayTimeZoneResolver(timeZone, dailyStateByDate),
+    [timeZone, dailyStateByDate]
+  );
+  const dayTimeZone = zoneForDate(dateISO);
+  // 논리적 하루(startHour ~ 다음 날 startHour)에 걸친 블록을 잘라서 보여준다 (앞 날짜에서 넘어온 블록, 다음 날 새벽 포함)
+  const dayBlocks = useMemo(
+    () => projectBlocksOntoLogicalDay(blocks, dateISO, startHour),
+    [blocks, dateISO, startHour]
+  );
   
   const dragHandler = useDragHandler(dateISO);
+  const isSelect = tool === 'SELECT' || tool === 'select';
+  
+  // DayTimeline이 정밀 조정 캡슐 타이머를 이 콜백에 묶어 두므로 렌더마다 바꾸지 않는다
+  const handleBlockResize = useCallback(
+    (blockId: string, edge: ResizeEdge, minute: number) => resizeBlock(blockId, dateISO, edge, minute),
+    [resizeBlock, dateISO]
+  );
+  
+  const handleBlockRemove = (blockId: string) => {
+    // 화면의 블록은 논리적 하루로 잘린 복사본이라 저장된 날짜를 찾아서 지운다
+    const storedDateISO = Object.keys(blocks).find(d => blocks[d].some(b => b.id === blockId));
+    if (storedDateISO) removeBlock(storedDateISO, blockId);
+    selectBlock(null);
+  };
   
   // Initialize
   useEffect(() => {
-    loadFromStorage();
-    
-    // Initialize default activities if empty
-    const state = usePlannerStore.getState();
-    if (state.activities.length === 0) {
-      DEFAULT_ACTIVITIES.forEach(addActivity);
-    }
+    loadFromStorage().then(() => {
+      // Initialize default activities if empty (로드 실패 시에는 건드리지 않음)
+      const state = usePlannerStore.getState();
+      if (state.storageStatus.hydrated && state.activities.length === 0) {
+        seedActivities(DEFAULT_ACTIVITIES);
+      }
+      // 하루 시작 전 새벽이면 전날(논리적 오늘)을 연다
+      const zones = makeDayTimeZoneResolver(state.timeZone, state.dailyStateByDate);
+      setDate(parseISODate(logicalDateISO(new Date(), state.startHour, zones)));
+    });
   }, []);
   
   // Theme
@@ -75,10 +135,20 @@ export default function App() {
     const map: Record<string, any[]> = {};
     weekDates.forEach(d => {
       const iso = toISODate(d);
-      map[iso] = blocks[iso] || [];
+      map[iso] = projectBlocksOntoLogicalDay(blocks, iso, startHour);
     });
     return map;
-  }, [weekDates, blocks]);
+  }, [weekDates, blocks, startHour]);
+  
+  // Lazy-load blocks for the visible day/week
+  const storageHydrated = storageStatus.hydrated;
+  useEffect(() => {
+    if (!storageHydrated) return;
+    // 자정을 넘는 블록은 시작 날짜에 저장되므로 앞 날짜들과, 논리적 하루의 새벽이 있는 다음 날도 불러온다
+    const firstISO = view === 'DAY' ? dateISO : toISODate(weekDates[0]);
+    const lastISO = view === 'DAY' ? dateISO : toISODate(weekDates[6]);
+    ensureBlocksLoaded(logicalDatesToLoad(firstISO, lastISO, startHour));
+  }, [storageHydrated, view, dateISO, weekDates, startHour]);
   
   const handlePrevDay = () => {
     const prev = new Date(date);
@@ -93,7 +163,7 @@ export default function App() {
   };
   
   const handleToday = () => {
-    setDate(new Date());
+    setDate(parseISODate(logicalDateISO(new Date(), startHour, zoneForDate)));
   };
   
   const handlePrevWeek = () => {
@@ -119,7 +189,7 @@ export default function App() {
         <div className="h-px w-12 bg-border my-2" />
         
         {/* Tool buttons */}
-        {(['PAINT', 'NEW_EVENT', 'ERASE'] as const).map(t => (
+        {(['PAINT', 'NEW_EVENT', 'SELECT', 'ERASE'] as const).map(t => (
           <Button
             key={t}
             variant={tool === t ? 'primary' : 'ghost'}
@@ -156,6 +226,9 @@ export default function App() {
           <IconButton onClick={redo} disabled={!canRedo} title="Redo">
             <Redo2 size={18} />
           </IconButton>
+          <IconButton onClick={() => setIsHistoryOpen(true)} disabled={!canUndo && !canRedo} title="History">
+            <History size={18} />
+          </IconButton>
         </div>
       </aside>
       
@@ -196,12 +269,40 @@ export default function App() {
           
           <div className="flex-1 text-center font-medium">
             {view === 'DAY' ? formatDateKorean(date) : `Week of ${formatDateKorean(weekDates[0])}`}
+            {view === 'DAY' && dayTimeZone !== timeZone && (
+              <span className="ml-2 text-xs text-muted-foreground">{dayTimeZone}</span>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
+            <StorageStatusBadge
+              status={storageStatus}
+              onRetry={storageHydrated ? saveToStorage : loadFromStorage}
+            />
             <IconButton onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')} title="Theme">
               {theme === 'light' ? <Moon size={18} /> : <Sun size={18} />}
             </IconButton>
+            <IconButton onClick={() => setIsExportOpen(true)} title="Export">
+              <Download size={18} />
+            </IconButton>
+            <IconButton onClick={() => setIsIcsImportOpen(true)} title="Import calendar">
+              <CalendarPlus size={18} />
+            </IconButton>
+            <IconButton onClick={() => setIsCsvImportOpen(true)} title="Import time tracker CSV">
+              <FileUp size={18} />
+            </IconButton>
+            <IconButton onClick={() => setIsBackupOpen(true)} title="Backup">
+              <DatabaseBackup size={18} />
+            </IconButton>
+            <IconButton onClick={() => setIsSyncOpen(true)} title="Sync devices">
+              <ArrowLeftRight size={18} />
+            </IconButton>
+            <IconButton onClick={() => setIsIntegrityOpen(true)} title="Check data">
+              <ShieldCheck size={18} />
+            </IconButton>
+            <IconButton onClick={() => setIsSettingsOpen(true)} title="Settings">
+              <SlidersHorizontal size={18} />
+            </IconButton>
             <IconButton title="Voice Planning">
               <Mic size={18} />
             </IconButton>
@@ -214,23 +315,53 @@ export default function App() {
             dateISO={dateISO}
             blocks={dayBlocks}
             activities={activities}
-            startHour={6}
-            onCellPointerDown={dragHandler.handlePointerDown}
-            onCellPointerEnter={dragHandler.handlePointerEnter}
-            onCellPointerUp={dragHandler.handlePointerUp}
+            startHour={startHour}
+            zoneForDate={zoneForDate}
+            onCellClick={isSelect ? () => selectBlock(null) : undefined}
+            onCellPointerDown={isSelect ? undefined : dragHandler.handlePointerDown}
+            onCellPointerEnter={isSelect ? undefined : dragHandler.handlePointerEnter}
+            onCellPointerUp={isSelect ? undefined : dragHandler.handlePointerUp}
+            selectable={isSelect}
+            selectedBlockId={selection?.blockId}
+            resizeArmed={selection?.resizeArmed}
+            onBlockSelect={selectBlock}
+            onResizeArmedChange={setResizeArmed}
+            onBlockResize={handleBlockResize}
+            onBlockRemove={handleBlockRemove}
           />
         ) : (
           <WeekTimeline
             weekDates={weekDates}
             blocksMap={weekBlocksMap}
             activities={activities}
+            startHour={startHour}
             onDayClick={(iso) => {
               setView('DAY');
-              setDate(new Date(iso));
+              setDate(parseISODate(iso));
             }}
           />
         )}
       </main>
+      
+      <MigrationReportDialog report={migrationReport} onClose={dismissMigrationReport} />
+      <ExportDialog
+        open={isExportOpen}
+        defaultFromISO={view === 'DAY' ? dateISO : toISODate(weekDates[0])}
+        defaultToISO={view === 'DAY' ? dateISO : toISODate(weekDates[6])}
+        onClose={() => setIsExportOpen(false)}
+      />
+      <BackupDialog open={isBackupOpen} onClose={() => setIsBackupOpen(false)} />
+      <SyncDialog open={isSyncOpen} onClose={() => setIsSyncOpen(false)} />
+      <HistoryDialog open={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} />
+      <IcsImportDialog
+        open={isIcsImportOpen}
+        defaultFromISO={toISODate(weekDates[0])}
+        defaultToISO={toISODate(weekDates[6])}
+        onClose={() => setIsIcsImportOpen(false)}
+      />
+      <TimeTrackerImportDialog open={isCsvImportOpen} onClose={() => setIsCsvImportOpen(false)} />
+      <IntegrityDialog open={isIntegrityOpen} onClose={() => setIsIntegrityOpen(false)} />
+      <SettingsDialog open={isSettingsOpen} dateISO={dateISO} onClose={() => setIsSettingsOpen(false)} />
     </div>
   );
 }
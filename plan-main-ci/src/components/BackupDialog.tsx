@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog } from './Dialog';
+import { Button, Divider } from './ui';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import {
+  BackupError,
+  backupFilename,
+  createBackup,
+  inspectBackup,
+  serializeBackup,
+  type BackupInspection,
+  type RestoreStrategy,
+} from '../lib/backup';
+import { saveTextFile } from '../lib/fileShare';
+import { toISODate } from '../lib/time';
+
+interface BackupDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const STRATEGY_OPTIONS: { id: RestoreStrategy; label: string; description: string }[] = [
+  { id: 'merge', label: '병합', description: '항목별로 더 최근에 수정된 쪽을 남깁니다' },
+  { id: 'replace', label: '교체', description: '현재 데이터를 모두 지우고 백업으로 바꿉니다' },
+];
+
+function describeError(err: unknown): string {
+  if (err instanceof BackupError && err.problems.length > 0) {
+    return `${err.message}\n- ${err.problems.join('\n- ')}`;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * 전체 데이터 JSON 백업 / 복원
+ */
+export function BackupDialog({ open, onClose }: BackupDialogProps) {
+  const getFullState = usePlannerStore(state => state.getFullState);
+  const restoreFromBackup = usePlannerStore(state => state.restoreFromBackup);
+
+  const [inspection, setInspection] = useState<BackupInspection | null>(null);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('merge');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setInspection(null);
+    setStrategy('merge');
+    setMessage(null);
+  }, [open]);
+
+  const handleExport = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const backup = createBackup(await getFullState());
+      const result = await saveTextFile(
+        backupFilename(toISODate(new Date())),
+        serializeBackup(backup),
+        'application/json'
+      );
+      setMessage(result === 'shared' ? '공유 시트로 전달했습니다' : '다운로드를 시작했습니다');
+    } catch (err) {
+      setMessage(`백업 실패: ${describeError(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setInspection(null);
+    setMessage(null);
+    if (!file) return;
+    try {
+      setInspection(inspectBackup(await file.text()));
+    } catch (err) {
+      setMessage(`파일을 확인할 수 없습니다: ${describeError(err)}`);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!inspection) return;
+    if (strategy === 'replace' && !window.confirm('현재 데이터를 모두 백업 내용으로 바꿉니다. 계속할까요?')) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      await restoreFromBackup(inspection.state, strategy);
+      setInspection(null);
+      setMessage('복원했습니다');
+    } catch (err) {
+      setMessage(`복원 실패: ${describeError(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} title="백업 / 복원" onClose={onClose}>
+      <div className="space-y-4 text-sm">
+        <section className="space-y-2">
+          <h3 className="font-medium">전체 백업</h3>
+          <p className="opacity-70">모든 날짜의 블록과 기록을 JSON 파일 하나로 저장합니다.</p>
+          <Button size="sm" onClick={handleExport} disabled={busy}>
+            백업 파일 만들기
+          </Button>
+        </section>
+
+        <Divider />
+
+        <section className="space-y-2">
+          <h3 className="font-medium">복원</h3>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={e => handleFile(e.target.files?.[0])}
+            disabled={busy}
+          />
+
+          {inspection && (
+            <div className="space-y-2">
+              <p className="opacity-80">
+                {inspection.exportedAt && `${new Date(inspection.exportedAt).toLocaleString()} 백업 · `}
+                활동 {inspection.counts.activities}개 · {inspection.counts.dates}일 · 블록 {inspection.counts.blocks}개
+                {inspection.fromSchemaVersion !== inspection.state.schemaVersion &&
+                  ` (v${inspection.fromSchemaVersion}에서 변환)`}
+              </p>
+
+              {inspection.warnings.length > 0 && (
+                <ul className="max-h-32 list-disc space-y-0.5 overflow-y-auto pl-4 text-[color:var(--destructive)]">
+                  {inspection.warnings.map((w, i) => (
+                    <li key={i}>{w}</li>
+                  ))}
+                </ul>
+              )}
+
+              <fieldset className="space-y-1">
+                {STRATEGY_OPTIONS.map(opt => (
+                  <label key={opt.id} className="flex items-start gap-2">
+                    <input
+                      type="radio"
+                      name="restore-strategy"
+                      className="mt-1"
+                      checked={strategy === opt.id}
+                      onChange={() => setStrategy(opt.id)}
+                    />
+                    <span>
+                      <span className="font-medium">{opt.label}</span>
+                      <span className="block opacity-70">{opt.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+            </div>
+          )}
+        </section>
+
+        {message && <p className="whitespace-pre-line opacity-80">{message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+          <Button size="sm" onClick={handleRestore} disabled={!inspection || busy}>
+            {busy ? '처리 중…' : '복원'}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
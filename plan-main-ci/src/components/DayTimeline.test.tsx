@@ -0,0 +1,110 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBlock } from '../lib/blocks';
+import { DayTimeline } from './DayTimeline';
+
+// 타이머와 포인터를 직접 움직이므로 React act 환경으로 그린다 (jsdom에는 포인터 캡처가 없다)
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true });
+Element.prototype.setPointerCapture = () => {};
+
+const DAY = '2026-03-02';
+const block = createBlock({ dateISO: DAY, startMin: 540, endMin: 600, activityId: 'work', layer: 'execute', source: 'drag' });
+// 그리드는 (0, 0)에 있고 한 행 80px, 한 시간 너비 240px → 09시 행의 가운데
+const ROW_Y = 9 * 80 + 40;
+
+let container: HTMLDivElement;
+let root: Root;
+let onBlockResize: ReturnType<typeof vi.fn>;
+
+function render(resizeArmed: boolean, onResizeArmedChange = vi.fn()) {
+  act(() => {
+    root.render(
+      <DayTimeline
+        dateISO={DAY}
+        blocks={[block]}
+        activities={[{ id: 'work', name: '업무', color: '#3b82f6' }]}
+        selectable
+        selectedBlockId={block.id}
+        resizeArmed={resizeArmed}
+        onResizeArmedChange={onResizeArmedChange}
+        onBlockResize={onBlockResize}
+      />
+    );
+  });
+  return onResizeArmedChange;
+}
+
+function pointer(target: Element, type: string, clientX: number, clientY = ROW_Y) {
+  act(() => {
+    target.dispatchEvent(new MouseEvent(type, { bubbles: true, clientX, clientY }));
+  });
+}
+
+const endHandle = () => container.querySelector('[aria-label="끝 시각 조정"]')!;
+const capsule = () => container.querySelector<HTMLButtonElement>('button[title="이 분으로 확정"]');
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  onBlockResize = vi.fn();
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+  vi.useRealTimers();
+});
+
+describe('DayTimeline 리사이즈', () => {
+  it('앵커를 누르기 전에는 핸들을 끌어도 바뀌지 않는다', () => {
+    const onResizeArmedChange = render(false);
+    pointer(endHandle(), 'pointerdown', 240);
+    pointer(endHandle(), 'pointermove', 120);
+    pointer(endHandle(), 'pointerup', 120);
+    expect(onBlockResize).not.toHaveBeenCalled();
+
+    act(() => container.querySelector<HTMLButtonElement>('button[aria-pressed]')!.click());
+    expect(onResizeArmedChange).toHaveBeenCalledWith(true);
+  });
+
+  it('앵커가 켜지면 끌어서 10분 단위로 바꾸고, 바로 끌면 길게 누르기가 되지 않는다', () => {
+    render(true);
+    pointer(endHandle(), 'pointerdown', 240);
+    pointer(endHandle(), 'pointermove', 120);
+    act(() => vi.advanceTimersByTime(1000));
+    expect(capsule()).toBeNull();
+
+    pointer(endHandle(), 'pointerup', 120);
+    expect(onBlockResize).toHaveBeenCalledWith(block.id, 'end', 570);
+  });
+
+  it('길게 누르면 1분 단위로 조정하고, 캡슐을 누르면 그 분으로 확정한다', () => {
+    render(true);
+    pointer(endHandle(), 'pointerdown', 240);
+    act(() => vi.advanceTimersByTime(450));
+    pointer(endHandle(), 'pointermove', 57);
+    pointer(endHandle(), 'pointerup', 57);
+    expect(onBlockResize).not.toHaveBeenCalled();
+    expect(capsule()?.textContent).toBe('14분');
+
+    act(() => capsule()!.click());
+    expect(onBlockResize).toHaveBeenCalledWith(block.id, 'end', 554);
+  });
+
+  it('캡슐을 누르지 않으면 시간이 지난 뒤 가장 가까운 10분으로 확정한다', () => {
+    render(true);
+    pointer(endHandle(), 'pointerdown', 240);
+    act(() => vi.advanceTimersByTime(450));
+    pointer(endHandle(), 'pointermove', 57);
+    pointer(endHandle(), 'pointerup', 57);
+
+    act(() => vi.advanceTimersByTime(2500));
+    expect(onBlockResize).toHaveBeenCalledTimes(1);
+    expect(onBlockResize).toHaveBeenCalledWith(block.id, 'end', 550);
+    expect(capsule()).toBeNull();
+  });
+});
@@ -1,7 +1,12 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import clsx from 'clsx';
 import type { Activity, Block } from '../lib/types';
-import { pad2 } from '../lib/time';
+import { minuteFromPointer } from '../lib/blocks';
+import { pad2, type DayTimeZoneResolver } from '../lib/time';
+import { dayStartMin, logicalDayWindow, logicalWallTimeOf } from '../lib/logicalDay';
+import { timeRangeLabel } from '../lib/history';
+import type { ResizeEdge } from '../stores/usePlannerStore';
+import { Button } from './ui';
 
 interface Segment {
   row: number;
@@ -9,19 +14,54 @@ interface Segment {
   endCol: number;
   layer: 'execute' | 'overlay';
   activityId: string;
+  blockId: string;
   startMinute: number;
   endMinute: number;
 }
 
+/** 리사이즈 최소 길이 (10분 스냅 한 칸, 정밀 조정은 1분) */
+const MIN_RESIZE_MINUTES = 10;
+const MIN_FINE_RESIZE_MINUTES = 1;
+/** 핸들을 이만큼 움직이지 않고 누르고 있으면 분 단위 정밀 조정 */
+const LONG_PRESS_MS = 450;
+const LONG_PRESS_MOVE_TOLERANCE = 4;
+/** 정밀 조정 후 손을 떼고 캡슐을 누르지 않으면 이 시간 뒤 10분 스냅으로 확정 */
+const CAPSULE_TIMEOUT_MS = 2500;
+
+interface ResizeState {
+  edge: ResizeEdge;
+  /** 옮길 끝의 시각 (논리적 하루 좌표) */
+  minute: number;
+  /** 길게 눌러 분 단위로 조정 중 */
+  fine: boolean;
+  /** 정밀 조정 후 손을 뗌 — 캡슐을 누르면 그 분, 아니면(시간 초과·다른 곳 누름) 가장 가까운 10분으로 확정 */
+  released: boolean;
+}
+
+const snapToTen = (minute: number) => Math.round(minute / 10) * 10;
+
 interface DayTimelineProps {
   dateISO: string;
+  /** 논리적 하루 좌표 블록 (projectBlocksOntoLogicalDay) */
   blocks: Block[];
   activities: Activity[];
   startHour?: number;
+  /** 날짜별 시간대 (현재 시각 표시용, 없으면 기기 시간대) */
+  zoneForDate?: DayTimeZoneResolver;
   onCellClick?: (row: number, col: number) => void;
   onCellPointerDown?: (row: number, col: number, e: React.PointerEvent) => void;
   onCellPointerEnter?: (row: number, col: number, e: React.PointerEvent) => void;
   onCellPointerUp?: (e: React.PointerEvent) => void;
+  /** SELECT 모드: 실행 블록을 눌러 선택한다 */
+  selectable?: boolean;
+  selectedBlockId?: string | null;
+  /** 앵커를 눌러 리사이즈 핸들이 켜진 상태 */
+  resizeArmed?: boolean;
+  onBlockSelect?: (blockId: string | null) => void;
+  onResizeArmedChange?: (armed: boolean) => void;
+  /** minute은 dateISO 00:00 기준 분 (논리적 하루 좌표) */
+  onBlockResize?: (blockId: string, edge: ResizeEdge, minute: number) => void;
+  onBlockRemove?: (blockId: string) => void;
 }
 
 function convertBlocksToSegments(blocks: Block[], startHour: number): Segment[] {
@@ -34,7 +74,7 @@ function convertBlocksToSegments(blocks: Block[], startHour: number): Segment[]
     const endHour24 = Math.floor((block.endMin - 1) / 60);
     
     for (let h = startHour24; h <= endHour24; h++) {
-      const row = (h - startHour + 24) % 24;
+      const row = h - startHour;
       const hourStart = h * 60;
       const hourEnd = (h + 1) * 60;
       
@@ -50,6 +90,7 @@ function convertBlocksToSegments(blocks: Block[], startHour: number): Segment[]
         endCol,
         layer: block.layer as 'execute' | 'overlay',
         activityId: block.activityId,
+        blockId: block.id,
         startMinute: segStart - hourStart,
         endMinute: segEnd - hourStart,
       });
@@ -59,16 +100,65 @@ function convertBlocksToSegments(blocks: Block[], startHour: number): Segment[]
   return segments;
 }
 
+/**
+ * 리사이즈 시간 — 논리적 하루 안, 최소 minLength분
+ */
+function clampResize(
+  block: Block,
+  edge: ResizeEdge,
+  minute: number,
+  startHour: number,
+  minLength: number
+): { startMin: number; endMin: number } {
+  const window = logicalDayWindow(startHour);
+  if (edge === 'start') {
+    return { startMin: Math.max(window.startMin, Math.min(minute, block.endMin - minLength)), endMin: block.endMin };
+  }
+  return { startMin: block.startMin, endMin: Math.min(window.endMin, Math.max(minute, block.startMin + minLength)) };
+}
+
 export function DayTimeline({
   dateISO,
   blocks,
   activities,
   startHour = 0,
+  zoneForDate,
   onCellClick,
   onCellPointerDown,
   onCellPointerEnter,
   onCellPointerUp,
+  selectable = false,
+  selectedBlockId = null,
+  resizeArmed = false,
+  onBlockSelect,
+  onResizeArmedChange,
+  onBlockResize,
+  onBlockRemove,
 }: DayTimelineProps) {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [resizing, setResizing] = useState<ResizeState | null>(null);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout>>();
+  const pressOrigin = useRef<{ x: number; y: number } | null>(null);
+  const capsuleRef = useRef<HTMLButtonElement>(null);
+  
+  const selectedBlock = selectedBlockId
+    ? blocks.find(b => b.id === selectedBlockId && b.layer === 'execute')
+    : undefined;
+  const resizePreview = selectedBlock && resizing
+    ? clampResize(
+        selectedBlock,
+        resizing.edge,
+        resizing.minute,
+        startHour,
+        resizing.fine ? MIN_FINE_RESIZE_MINUTES : MIN_RESIZE_MINUTES
+      )
+    : null;
+  // 리사이즈 중에는 미리보기 시간으로 그린다 (손을 뗄 때 한 번만 저장 → 실행 취소 한 단계)
+  const displayBlocks = useMemo(
+    () => (selectedBlock && resizePreview ? blocks.map(b => (b === selectedBlock ? { ...b, ...resizePreview } : b)) : blocks),
+    [blocks, selectedBlock, resizePreview?.startMin, resizePreview?.endMin]
+  );
+  
   const activityMap = useMemo(() => {
     const map = new Map<string, Activity>();
     activities.forEach(a => map.set(a.id, a));
@@ -76,8 +166,8 @@ export function DayTimeline({
   }, [activities]);
   
   const segments = useMemo(() => {
-    return convertBlocksToSegments(blocks, startHour);
-  }, [blocks, startHour]);
+    return convertBlocksToSegments(displayBlocks, startHour);
+  }, [displayBlocks, startHour]);
   
   const executeSegments = segments.filter(s => s.layer === 'execute');
   const overlaySegments = segments.filter(s => s.layer === 'overlay');
@@ -85,6 +175,95 @@ export function DayTimeline({
   const colW = 40;
   const rowH = 80;
   
+  const selectedSegments = selectedBlock ? executeSegments.filter(s => s.blockId === selectedBlock.id) : [];
+  
+  // 포인터 위치 → 행과 행 안의 가로 비율
+  const pointerCell = (e: { clientX: number; clientY: number }) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    const row = Math.max(0, Math.min(23, Math.floor((e.clientY - rect.top) / rowH)));
+    const xRatio = Math.max(0, Math.min(1, (e.clientX - rect.left) / (colW * 6)));
+    return { row, xRatio };
+  };
+  
+  // 기본: 가장 가까운 10분 칸 경계, 정밀 조정: 1분 (논리적 하루 좌표)
+  const minuteAt = (e: React.PointerEvent, fine: boolean): number => {
+    const { row, xRatio } = pointerCell(e);
+    return fine ? minuteFromPointer(row, startHour, xRatio) : (startHour + row) * 60 + Math.round(xRatio * 6) * 10;
+  };
+  
+  // 손을 뗄 때 한 번만 저장한다 (실행 취소 한 단계)
+  const commitResize = useCallback((edge: ResizeEdge, minute: number, minLength: number) => {
+    clearTimeout(longPressTimer.current);
+    setResizing(null);
+    if (!selectedBlock) return;
+    const span = clampResize(selectedBlock, edge, minute, startHour, minLength);
+    const next = edge === 'start' ? span.startMin : span.endMin;
+    const current = edge === 'start' ? selectedBlock.startMin : selectedBlock.endMin;
+    if (next !== current) onBlockResize?.(selectedBlock.id, edge, next);
+  }, [selectedBlock, startHour, onBlockResize]);
+  
+  const handleResizeDown = (edge: ResizeEdge, e: React.PointerEvent) => {
+    e.stopPropagation();
+    // 앵커를 먼저 눌러야 리사이즈할 수 있다
+    if (!resizeArmed || !selectedBlock) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pressOrigin.current = { x: e.clientX, y: e.clientY };
+    setResizing({ edge, minute: edge === 'start' ? selectedBlock.startMin : selectedBlock.endMin, fine: false, released: false });
+    clearTimeout(longPressTimer.current);
+    longPressTimer.current = setTimeout(() => {
+      setResizing(prev => (prev && !prev.released ? { ...prev, fine: true } : prev));
+    }, LONG_PRESS_MS);
+  };
+  
+  const handleResizeMove = (e: React.PointerEvent) => {
+    if (!resizing || resizing.released) return;
+    const origin = pressOrigin.current;
+    if (!resizing.fine && origin && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) > LONG_PRESS_MOVE_TOLERANCE) {
+      // 누르자마자 끌면 10분 스냅 조정
+      clearTimeout(longPressTimer.current);
+    }
+    const minute = minuteAt(e, resizing.fine);
+    if (minute !== resizing.minute) setResizing({ ...resizing, minute });
+  };
+  
+  const handleResizeUp = () => {
+    clearTimeout(longPressTimer.current);
+    if (!resizing || resizing.released) return;
+    if (resizing.fine) {
+      // 캡슐을 남겨 두고 확정을 기다린다
+      setResizing({ ...resizing, released: true });
+      return;
+    }
+    commitResize(resizing.edge, resizing.minute, MIN_RESIZE_MINUTES);
+  };
+  
+  const handleResizeCancel = () => {
+    clearTimeout(longPressTimer.current);
+    setResizing(null);
+  };
+  
+  // 캡슐을 누르지 않으면(시간 초과, 다른 곳 누름) 가장 가까운 10분으로 확정
+  useEffect(() => {
+    if (!resizing?.released) return;
+    const snap = () => commitResize(resizing.edge, snapToTen(resizing.minute), MIN_RESIZE_MINUTES);
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!capsuleRef.current?.contains(e.target as Node)) snap();
+    };
+    const timer = setTimeout(snap, CAPSULE_TIMEOUT_MS);
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+    };
+  }, [resizing, commitResize]);
+  
+  useEffect(() => () => clearTimeout(longPressTimer.current), []);
+  
+  // 정밀 조정 캡슐 위치: 옮기는 끝의 시각 위 (행 위쪽)
+  const capsuleMinute = resizing?.fine && resizePreview
+    ? (resizing.edge === 'start' ? resizePreview.startMin : resizePreview.endMin)
+    : null;
+  
   return (
     <div className="flex-1 overflow-auto bg-background">
       <div className="relative" style={{ width: colW * 6, minHeight: 24 * rowH }}>
@@ -101,7 +280,7 @@ export function DayTimeline({
         </div>
         
         {/* Grid */}
-        <div className="absolute left-12 top-0 right-0">
+        <div ref={gridRef} className="absolute left-12 top-0 right-0">
           {Array.from({ length: 24 }).map((_, row) => (
             <div key={row} style={{ height: rowH }} className="flex border-t border-border">
               {Array.from({ length: 6 }).map((_, col) => (
@@ -136,7 +315,16 @@ export function DayTimeline({
             return (
               <div
                 key={`exe-${idx}`}
-                className="absolute transition-all duration-300 ease-in-out"
+                className={clsx(
+                  'absolute',
+                  !resizing && 'transition-all duration-300 ease-in-out',
+                  selectable && 'pointer-events-auto cursor-pointer',
+                  seg.blockId === selectedBlock?.id && 'ring-2 ring-[color:var(--primary)] ring-offset-1'
+                )}
+                onClick={selectable ? (e) => {
+                  e.stopPropagation();
+                  onBlockSelect?.(seg.blockId);
+                } : undefined}
                 style={{
                   left,
                   top,
@@ -183,20 +371,189 @@ export function DayTimeline({
           })}
         </div>
         
-        {/* Current time indicator */}
-        {dateISO === new Date().toISOString().split('T')[0] && (
-          <CurrentTimeIndicator startHour={startHour} colW={colW} rowH={rowH} />
+        {/* Selection: 좌상단 앵커 + 시작/끝 핸들 + 상세 */}
+        {selectedBlock && selectedSegments.length > 0 && (
+          <SelectionOverlay
+            block={resizePreview ? { ...selectedBlock, ...resizePreview } : selectedBlock}
+            activity={activityMap.get(selectedBlock.activityId)}
+            first={selectedSegments[0]}
+            last={selectedSegments[selectedSegments.length - 1]}
+            colW={colW}
+            rowH={rowH}
+            resizeArmed={resizeArmed}
+            resizing={resizing !== null}
+            onArmToggle={() => onResizeArmedChange?.(!resizeArmed)}
+            onResizeDown={handleResizeDown}
+            onResizeMove={handleResizeMove}
+            onResizeUp={handleResizeUp}
+            onResizeCancel={handleResizeCancel}
+            onClose={() => onBlockSelect?.(null)}
+            onRemove={() => onBlockRemove?.(selectedBlock.id)}
+          />
         )}
+        
+        {/* 정밀 조정 캡슐 ("14분") — 누르면 그 분으로 확정 */}
+        {resizing && capsuleMinute !== null && (
+          <div className="absolute left-12 top-0 pointer-events-none" style={{ zIndex: 30 }}>
+            <button
+              ref={capsuleRef}
+              type="button"
+              className={clsx(
+                'absolute -translate-x-1/2 whitespace-nowrap rounded-full bg-[color:var(--primary)] px-2 py-0.5 text-xs font-medium text-white shadow',
+                resizing.released && 'pointer-events-auto animate-pulse'
+              )}
+              style={{
+                left: ((capsuleMinute % 60) / 60) * colW * 6,
+                top: (Math.floor(capsuleMinute / 60) - startHour) * rowH - 22,
+              }}
+              onClick={() => commitResize(resizing.edge, capsuleMinute, MIN_FINE_RESIZE_MINUTES)}
+              title="이 분으로 확정"
+            >
+              {capsuleMinute % 60}분
+            </button>
+          </div>
+        )}
+        
+        {/* Current time indicator */}
+        <CurrentTimeIndicator dateISO={dateISO} startHour={startHour} zoneForDate={zoneForDate} colW={colW} rowH={rowH} />
       </div>
     </div>
   );
 }
 
-function CurrentTimeIndicator({ startHour, colW, rowH }: { startHour: number; colW: number; rowH: number }) {
-  const now = new Date();
-  const nowHour = now.getHours();
-  const nowMin = now.getMinutes();
-  const nowTotalMin = nowHour * 60 + nowMin;
+interface SelectionOverlayProps {
+  block: Block;
+  activity?: Activity;
+  first: Segment;
+  last: Segment;
+  colW: number;
+  rowH: number;
+  resizeArmed: boolean;
+  resizing: boolean;
+  onArmToggle: () => void;
+  onResizeDown: (edge: ResizeEdge, e: React.PointerEvent) => void;
+  onResizeMove: (e: React.PointerEvent) => void;
+  onResizeUp: () => void;
+  onResizeCancel: () => void;
+  onClose: () => void;
+  onRemove: () => void;
+}
+
+function formatDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m}분`;
+  return m === 0 ? `${h}시간` : `${h}시간 ${m}분`;
+}
+
+function SelectionOverlay({
+  block,
+  activity,
+  first,
+  last,
+  colW,
+  rowH,
+  resizeArmed,
+  resizing,
+  onArmToggle,
+  onResizeDown,
+  onResizeMove,
+  onResizeUp,
+  onResizeCancel,
+  onClose,
+  onRemove,
+}: SelectionOverlayProps) {
+  const startX = first.startCol * colW;
+  const endX = (last.endCol + 1) * colW;
+  
+  const handleProps = (edge: ResizeEdge) => ({
+    onPointerDown: (e: React.PointerEvent) => onResizeDown(edge, e),
+    onPointerMove: onResizeMove,
+    onPointerUp: onResizeUp,
+    onPointerCancel: onResizeCancel,
+    // 길게 누를 때 모바일 컨텍스트 메뉴가 뜨지 않게
+    onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+  });
+  
+  return (
+    <div className="absolute left-12 top-0 pointer-events-none" style={{ zIndex: 20 }}>
+      {/* 앵커: 눌러야 핸들이 켜진다 (hover/드래그만으로는 바뀌지 않음) */}
+      <button
+        type="button"
+        className={clsx(
+          'absolute pointer-events-auto h-3 w-3 rounded-full border-2 border-[color:var(--primary)]',
+          resizeArmed ? 'bg-[color:var(--primary)]' : 'bg-[color:var(--bg)]'
+        )}
+        style={{ left: startX - 6, top: first.row * rowH - 2 }}
+        onClick={onArmToggle}
+        aria-pressed={resizeArmed}
+        title={resizeArmed ? '크기 조정 끄기' : '크기 조정 켜기'}
+      />
+      
+      <div
+        className={clsx(
+          'absolute pointer-events-auto w-1.5 rounded bg-[color:var(--primary)]',
+          resizeArmed ? 'cursor-ew-resize' : 'opacity-30'
+        )}
+        style={{ left: startX - 3, top: first.row * rowH + 12, height: rowH - 24, touchAction: 'none' }}
+        aria-label="시작 시각 조정"
+        {...handleProps('start')}
+      />
+      <div
+        className={clsx(
+          'absolute pointer-events-auto w-1.5 rounded bg-[color:var(--primary)]',
+          resizeArmed ? 'cursor-ew-resize' : 'opacity-30'
+        )}
+        style={{ left: endX - 3, top: last.row * rowH + 12, height: rowH - 24, touchAction: 'none' }}
+        aria-label="끝 시각 조정"
+        {...handleProps('end')}
+      />
+      
+      {!resizing && (
+        <div
+          className="absolute pointer-events-auto w-56 space-y-2 rounded-lg border border-[color:var(--border)] bg-[color:var(--bg)] p-3 text-sm shadow-xl"
+          style={{ left: Math.min(startX, colW * 6 - 224), top: (last.row + 1) * rowH }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center gap-2 font-medium">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: activity?.color }} />
+            <span className="truncate">{block.title || activity?.name || block.activityId}</span>
+          </div>
+          <div className="text-xs opacity-70">
+            {timeRangeLabel(block.startMin, block.endMin)} · {formatDuration(block.endMin - block.startMin)}
+          </div>
+          <p className="text-xs opacity-60">
+            {resizeArmed ? '핸들을 끌어 10분 단위로, 길게 눌러 1분 단위로 조정' : '왼쪽 위 앵커를 눌러 크기 조정'}
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={onRemove}>
+              삭제
+            </Button>
+            <Button variant="secondary" size="sm" onClick={onClose}>
+              닫기
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CurrentTimeIndicatorProps {
+  dateISO: string;
+  startHour: number;
+  zoneForDate?: DayTimeZoneResolver;
+  colW: number;
+  rowH: number;
+}
+
+function CurrentTimeIndicator({ dateISO, startHour, zoneForDate, colW, rowH }: CurrentTimeIndicatorProps) {
+  // 지금 시각을 그날 시간대의 벽시계로 (기기 시간대와 다른 곳을 여행 중인 날 포함)
+  const now = logicalWallTimeOf(new Date(), startHour, zoneForDate);
+  if (now.dateISO !== dateISO) return null;
+  const nowHour = Math.floor(now.minutes / 60) % 24;
+  const nowMin = now.minutes % 60;
+  const nowTotalMin = now.minutes - dayStartMin(startHour);
   
   const totalHeight = 24 * rowH;
   const y = (nowTotalMin / (24 * 60)) * totalHeight;
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog } from './Dialog';
+import { Button, Input, Label } from './ui';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import {
+  BLOCK_CSV_OPTIONAL_COLUMNS,
+  blocksCsvFilename,
+  blocksToCsv,
+  type BlockCsvOptionalColumn,
+} from '../lib/blockExport';
+import { blocksToIcs, icsFilename, type IcsExportLayer } from '../lib/icsExport';
+import { collectPairRows, pairsFilename, pairsToCsv, pairsToNdjson } from '../lib/pairExport';
+import { saveTextFile } from '../lib/fileShare';
+import { dayStartMin, logicalDatesToLoad } from '../lib/logicalDay';
+import { makeDayTimeZoneResolver } from '../lib/time';
+import type { Layer } from '../lib/types';
+
+interface ExportDialogProps {
+  open: boolean;
+  defaultFromISO: string;
+  defaultToISO: string;
+  onClose: () => void;
+}
+
+type ExportTarget = 'blocks' | 'pairs-csv' | 'pairs-ndjson' | 'ics';
+
+const TARGET_OPTIONS: { id: ExportTarget; label: string }[] = [
+  { id: 'blocks', label: '블록 CSV' },
+  { id: 'pairs-csv', label: '계획·실행 쌍 CSV' },
+  { id: 'pairs-ndjson', label: '계획·실행 쌍 NDJSON' },
+  { id: 'ics', label: '캘린더 (.ics)' },
+];
+
+const LAYER_OPTIONS: { id: Layer; label: string }[] = [
+  { id: 'plan', label: '계획' },
+  { id: 'execute', label: '실행' },
+  { id: 'overlay', label: '중첩' },
+];
+
+const ICS_LAYER_OPTIONS: { id: IcsExportLayer; label: string }[] = [
+  { id: 'plan', label: '계획' },
+  { id: 'execute', label: '실행' },
+];
+
+export function ExportDialog({ open, defaultFromISO, defaultToISO, onClose }: ExportDialogProps) {
+  const activities = usePlannerStore(state => state.activities);
+  const startHour = usePlannerStore(state => state.startHour);
+  const ensureBlocksLoaded = usePlannerStore(state => state.ensureBlocksLoaded);
+  
+  const [target, setTarget] = useState<ExportTarget>('blocks');
+  const [fromISO, setFromISO] = useState(defaultFromISO);
+  const [toISO, setToISO] = useState(defaultToISO);
+  const [layers, setLayers] = useState<Layer[]>(['plan', 'execute', 'overlay']);
+  const [icsLayers, setIcsLayers] = useState<IcsExportLayer[]>(['plan']);
+  const [optionalColumns, setOptionalColumns] = useState<BlockCsvOptionalColumn[]>([]);
+  const [bom, setBom] = useState(false);
+  const [dictionary, setDictionary] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  
+  useEffect(() => {
+    if (!open) return;
+    setFromISO(defaultFromISO);
+    setToISO(defaultToISO);
+    setMessage(null);
+  }, [open, defaultFromISO, defaultToISO]);
+  
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+  
+  const rangeValid = fromISO !== '' && toISO !== '' && fromISO <= toISO;
+  
+  const handleExport = async () => {
+    if (!rangeValid) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      // 날짜는 논리적 하루 기준 (하루 시작 전 새벽은 전날로)
+      await ensureBlocksLoaded(logicalDatesToLoad(fromISO, toISO, startHour));
+      const state = usePlannerStore.getState();
+      const dayStart = dayStartMin(startHour);
+      // 시각은 날짜별 시간대(여행한 날 포함)로 바꿔 쓴다
+      const zoneForDate = makeDayTimeZoneResolver(state.timeZone, state.dailyStateByDate);
+      let file: { name: string; content: string; mimeType: string };
+      if (target === 'blocks') {
+        const csv = blocksToCsv(state.blocks, activities, {
+          fromISO,
+          toISO,
+          layers,
+          optionalColumns,
+          bom,
+          dayStartMin: dayStart,
+        });
+        file = { name: blocksCsvFilename(fromISO, toISO), content: csv, mimeType: 'text/csv;charset=utf-8' };
+      } else if (target === 'ics') {
+        const ics = blocksToIcs(state.blocks, activities, {
+          fromISO,
+          toISO,
+          layers: icsLayers,
+          dayStartMin: dayStart,
+          zoneForDate,
+        });
+        file = { name: icsFilename(fromISO, toISO), content: ics, mimeType: 'text/calendar;charset=utf-8' };
+      } else {
+        const options = { fromISO, toISO, dictionary, bom, dayStartMin: dayStart, zoneForDate };
+        const rows = collectPairRows(
+          state.blocks,
+          activities,
+          { dailyStateByDate: state.dailyStateByDate, completionEventsByDate: state.completionEventsByDate },
+          options
+        );
+        file = target === 'pairs-csv'
+          ? { name: pairsFilename(fromISO, toISO, 'csv'), content: pairsToCsv(rows, options), mimeType: 'text/csv;charset=utf-8' }
+          : { name: pairsFilename(fromISO, toISO, 'ndjson'), content: pairsToNdjson(rows, options), mimeType: 'application/x-ndjson' };
+      }
+      const result = await saveTextFile(file.name, file.content, file.mimeType);
+      setMessage(result === 'shared' ? '공유 시트로 전달했습니다' : '다운로드를 시작했습니다');
+    } catch (err) {
+      setMessage(`내보내기 실패: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+  
+  return (
+    <Dialog open={open} title="데이터 내보내기" onClose={onClose}>
+      <div className="space-y-4 text-sm">
+        <fieldset>
+          <legend className="mb-1 font-medium">대상</legend>
+          <div className="flex flex-wrap gap-3">
+            {TARGET_OPTIONS.map(opt => (
+              <label key={opt.id} className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="export-target"
+                  checked={target === opt.id}
+                  onChange={() => setTarget(opt.id)}
+                />
+                {opt.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="export-from">시작일</Label>
+            <Input id="export-from" type="date" value={fromISO} onChange={e => setFromISO(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="export-to">종료일</Label>
+            <Input id="export-to" type="date" value={toISO} onChange={e => setToISO(e.target.value)} />
+          </div>
+        </div>
+        
+        {target === 'blocks' ? (
+          <>
+            <fieldset>
+              <legend className="mb-1 font-medium">레이어</legend>
+              <div className="flex gap-3">
+                {LAYER_OPTIONS.map(opt => (
+                  <label key={opt.id} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={layers.includes(opt.id)}
+                      onChange={() => setLayers(prev => toggle(prev, opt.id))}
+                    />
+                    {opt.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+        
+            <fieldset>
+              <legend className="mb-1 font-medium">추가 컬럼</legend>
+              <div className="grid grid-cols-2 gap-1">
+                {BLOCK_CSV_OPTIONAL_COLUMNS.map(opt => (
+                  <label key={opt.id} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={optionalColumns.includes(opt.id)}
+                      onChange={() => setOptionalColumns(prev => toggle(prev, opt.id))}
+                    />
+                    {opt.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </>
+        ) : target === 'ics' ? (
+          <fieldset>
+            <legend className="mb-1 font-medium">레이어</legend>
+            <div className="flex gap-3">
+              {ICS_LAYER_OPTIONS.map(opt => (
+                <label key={opt.id} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={icsLayers.includes(opt.id)}
+                    onChange={() => setIcsLayers(prev => toggle(prev, opt.id))}
+                  />
+                  {opt.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        ) : (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={dictionary} onChange={e => setDictionary(e.target.checked)} />
+            데이터 사전 헤더 포함
+          </label>
+        )}
+        
+        {(target === 'blocks' || target === 'pairs-csv') && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={bom} onChange={e => setBom(e.target.checked)} />
+            Excel 호환 (UTF-8 BOM)
+          </label>
+        )}
+        
+        {message && <p className="opacity-80">{message}</p>}
+        
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+          <Button size="sm" onClick={handleExport} disabled={
+              !rangeValid ||
+              (target === 'blocks' && layers.length === 0) ||
+              (target === 'ics' && icsLayers.length === 0) ||
+              busy
+            }>
+            {busy ? '내보내는 중…' : '내보내기'}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import React from 'react';
+import clsx from 'clsx';
+import { Dialog } from './Dialog';
+import { Button } from './ui';
+import { usePlannerStore } from '../stores/usePlannerStore';
+
+interface HistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * 실행 취소 기록 목록 — 항목을 누르면 그 명령까지 적용된 상태로 이동한다
+ */
+export function HistoryDialog({ open, onClose }: HistoryDialogProps) {
+  const past = usePlannerStore(state => state.history.past);
+  const future = usePlannerStore(state => state.history.future);
+  const jumpToHistory = usePlannerStore(state => state.jumpToHistory);
+
+  // 오래된 것부터: 적용된 명령(past) 다음에 되돌린 명령(future)
+  const entries = [...past, ...future];
+  const position = past.length;
+
+  return (
+    <Dialog open={open} title="편집 기록" onClose={onClose}>
+      <div className="space-y-4 text-sm">
+        {entries.length === 0 ? (
+          <p className="opacity-70">아직 기록이 없습니다</p>
+        ) : (
+          <ol className="max-h-[60vh] space-y-0.5 overflow-y-auto">
+            <li>
+              <button
+                type="button"
+                className={clsx('w-full rounded px-2 py-1 text-left hover:bg-muted/50', position === 0 && 'font-medium')}
+                onClick={() => jumpToHistory(0)}
+              >
+                처음 상태
+              </button>
+            </li>
+            {entries.map((entry, i) => (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  className={clsx(
+                    'flex w-full items-center gap-2 rounded px-2 py-1 text-left hover:bg-muted/50',
+                    i + 1 === position && 'font-medium',
+                    i >= position && 'opacity-50'
+                  )}
+                  onClick={() => jumpToHistory(i + 1)}
+                >
+                  <span className="flex-1 truncate">{entry.label}</span>
+                  <span className="text-xs opacity-60">{formatTime(entry.at)}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog } from './Dialog';
+import { Button, Input, Label } from './ui';
+import { ImportRulesEditor } from './ImportRulesEditor';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import { parseIcsEvents } from '../lib/icsImport';
+import { partitionDuplicateImports, previewOverwrites } from '../lib/importRules';
+import { addDaysISO, eachDateInRange, makeDayTimeZoneResolver } from '../lib/time';
+import { datesToLoadFor } from '../lib/daySpans';
+
+interface IcsImportDialogProps {
+  open: boolean;
+  defaultFromISO: string;
+  defaultToISO: string;
+  onClose: () => void;
+}
+
+/**
+ * .ics 파일 → 계획 블록 가져오기
+ */
+export function IcsImportDialog({ open, defaultFromISO, defaultToISO, onClose }: IcsImportDialogProps) {
+  const activities = usePlannerStore(state => state.activities);
+  const blocks = usePlannerStore(state => state.blocks);
+  const rules = usePlannerStore(state => state.importKeywordRules);
+  const timeZone = usePlannerStore(state => state.timeZone);
+  const dailyStateByDate = usePlannerStore(state => state.dailyStateByDate);
+  const ensureBlocksLoaded = usePlannerStore(state => state.ensureBlocksLoaded);
+  const importBlocks = usePlannerStore(state => state.importBlocks);
+
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [fromISO, setFromISO] = useState(defaultFromISO);
+  const [toISO, setToISO] = useState(defaultToISO);
+  const [defaultActivityId, setDefaultActivityId] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFileText(null);
+    setFromISO(defaultFromISO);
+    setToISO(defaultToISO);
+    setMessage(null);
+  }, [open, defaultFromISO, defaultToISO]);
+
+  const rangeValid = fromISO !== '' && toISO !== '' && fromISO <= toISO;
+  const rangeDates = useMemo(() => (rangeValid ? eachDateInRange(fromISO, toISO) : []), [rangeValid, fromISO, toISO]);
+
+  // 중복/겹침 판단에 필요한 범위의 블록을 미리 불러온다 (자정을 넘어오는 블록과 다음 날까지)
+  useEffect(() => {
+    if (open && rangeValid) ensureBlocksLoaded(datesToLoadFor(fromISO, addDaysISO(toISO, 1)));
+  }, [open, rangeValid, fromISO, toISO, ensureBlocksLoaded]);
+
+  const preview = useMemo(() => {
+    if (!fileText || !rangeValid || !defaultActivityId) return null;
+    try {
+      const zoneForDate = makeDayTimeZoneResolver(timeZone, dailyStateByDate);
+      const result = parseIcsEvents(fileText, { fromISO, toISO, activities, rules, defaultActivityId, zoneForDate });
+      const existing = rangeDates.flatMap(d => blocks[d] || []);
+      const { fresh, duplicates } = partitionDuplicateImports(existing, result.blocks);
+      return { ...result, fresh, duplicates, overwrites: previewOverwrites(blocks, fresh) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [
+    fileText,
+    rangeValid,
+    fromISO,
+    toISO,
+    activities,
+    rules,
+    defaultActivityId,
+    timeZone,
+    dailyStateByDate,
+    rangeDates,
+    blocks,
+  ]);
+
+  const handleFile = async (file: File | undefined) => {
+    setMessage(null);
+    setFileText(file ? await file.text() : null);
+  };
+
+  const handleImport = () => {
+    if (!preview || 'error' in preview || preview.fresh.length === 0) return;
+    importBlocks(preview.fresh);
+    setMessage(`${preview.fresh.length}개 일정을 계획으로 가져왔습니다`);
+    setFileText(null);
+  };
+
+  return (
+    <Dialog open={open} title="캘린더 가져오기 (.ics)" onClose={onClose}>
+      <div className="max-h-[70vh] space-y-4 overflow-y-auto text-sm">
+        <input type="file" accept="text/calendar,.ics" onChange={e => handleFile(e.target.files?.[0])} />
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="ics-from">시작일</Label>
+            <Input id="ics-from" type="date" value={fromISO} onChange={e => setFromISO(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="ics-to">종료일</Label>
+            <Input id="ics-to" type="date" value={toISO} onChange={e => setToISO(e.target.value)} />
+          </div>
+        </div>
+
+        <ImportRulesEditor
+          idPrefix="ics"
+          defaultActivityId={defaultActivityId}
+          onDefaultActivityChange={setDefaultActivityId}
+        />
+
+        {preview && ('error' in preview ? (
+          <p className="text-[color:var(--destructive)]">파일을 읽을 수 없습니다: {preview.error}</p>
+        ) : (
+          <div className="space-y-1">
+            <p>
+              일정 {preview.eventCount}개 → 새 계획 {preview.fresh.length}개
+              {preview.duplicates.length > 0 && ` · 이미 가져옴 ${preview.duplicates.length}개`}
+              {preview.skippedAllDay > 0 && ` · 종일 일정 제외 ${preview.skippedAllDay}개`}
+            </p>
+            {preview.overwrites.length > 0 && (
+              <p className="opacity-80">겹치는 기존 계획 {preview.overwrites.length}개는 가져온 일정에 자리를 내줍니다</p>
+            )}
+            {preview.warnings.length > 0 && (
+              <ul className="list-disc space-y-0.5 pl-4 text-[color:var(--destructive)]">
+                {preview.warnings.map((w, i) => (
+                  <li key={i}>{w}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        {message && <p className="opacity-80">{message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleImport}
+            disabled={!preview || 'error' in preview || preview.fresh.length === 0}
+          >
+            가져오기
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button, IconButton, Input, Label } from './ui';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import { generateId } from '../lib/id';
+
+interface ImportRulesEditorProps {
+  idPrefix: string;
+  defaultActivityId: string;
+  onDefaultActivityChange: (activityId: string) => void;
+}
+
+export const SELECT_CLASS =
+  'w-full rounded-md border border-[color:var(--border)] bg-[color:var(--bg)] px-2 py-2 text-sm text-[color:var(--fg)]';
+
+/**
+ * 가져오기 공통: 키워드 → 활동 규칙 편집 (스토어에 저장되어 다음 가져오기에도 쓰인다)
+ */
+export function ImportRulesEditor({ idPrefix, defaultActivityId, onDefaultActivityChange }: ImportRulesEditorProps) {
+  const activities = usePlannerStore(state => state.activities);
+  const rules = usePlannerStore(state => state.importKeywordRules);
+  const setRules = usePlannerStore(state => state.setImportKeywordRules);
+
+  useEffect(() => {
+    if (!defaultActivityId && activities.length > 0) onDefaultActivityChange(activities[0].id);
+  }, [activities, defaultActivityId, onDefaultActivityChange]);
+
+  const updateRule = (id: string, updates: { keyword?: string; activityId?: string }) =>
+    setRules(rules.map(r => (r.id === id ? { ...r, ...updates } : r)));
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="mb-1 font-medium">활동 매핑 (제목에 키워드가 들어 있으면)</legend>
+      {rules.map(rule => (
+        <div key={rule.id} className="flex items-center gap-2">
+          <Input
+            value={rule.keyword}
+            placeholder="키워드"
+            onChange={e => updateRule(rule.id, { keyword: e.target.value })}
+          />
+          <select
+            className={SELECT_CLASS}
+            value={rule.activityId}
+            onChange={e => updateRule(rule.id, { activityId: e.target.value })}
+          >
+            {activities.map(a => (
+              <option key={a.id} value={a.id}>{a.name}</option>
+            ))}
+          </select>
+          <IconButton size="sm" title="규칙 삭제" onClick={() => setRules(rules.filter(r => r.id !== rule.id))}>
+            <Trash2 size={14} />
+          </IconButton>
+        </div>
+      ))}
+      <Button
+        variant="secondary"
+        size="sm"
+        disabled={activities.length === 0}
+        onClick={() => setRules([...rules, { id: generateId(), keyword: '', activityId: defaultActivityId }])}
+      >
+        규칙 추가
+      </Button>
+      <div>
+        <Label htmlFor={`${idPrefix}-default-activity`}>그 외 항목</Label>
+        <select
+          id={`${idPrefix}-default-activity`}
+          className={SELECT_CLASS}
+          value={defaultActivityId}
+          onChange={e => onDefaultActivityChange(e.target.value)}
+        >
+          {activities.map(a => (
+            <option key={a.id} value={a.id}>{a.name}</option>
+          ))}
+        </select>
+      </div>
+    </fieldset>
+  );
+}
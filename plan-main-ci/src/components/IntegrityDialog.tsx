@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog } from './Dialog';
+import { Button, Label } from './ui';
+import { SELECT_CLASS } from './ImportRulesEditor';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import { checkIntegrity, INTEGRITY_ISSUE_LABELS, type IntegrityIssueKind } from '../lib/integrity';
+
+interface IntegrityDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const MAX_LISTED_ISSUES = 50;
+
+/**
+ * 블록 데이터 무결성 검사 + 한 번에 복구
+ */
+export function IntegrityDialog({ open, onClose }: IntegrityDialogProps) {
+  const activities = usePlannerStore(state => state.activities);
+  const blocks = usePlannerStore(state => state.blocks);
+  const allBlocksLoaded = usePlannerStore(state => state.allBlocksLoaded);
+  const loadAllBlocks = usePlannerStore(state => state.loadAllBlocks);
+  const repairBlockIntegrity = usePlannerStore(state => state.repairBlockIntegrity);
+
+  const [fallbackActivityId, setFallbackActivityId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setMessage(null);
+    loadAllBlocks();
+  }, [open, loadAllBlocks]);
+
+  useEffect(() => {
+    if (!fallbackActivityId && activities.length > 0) setFallbackActivityId(activities[0].id);
+  }, [activities, fallbackActivityId]);
+
+  const report = useMemo(
+    () => (open && allBlocksLoaded ? checkIntegrity(blocks, activities) : null),
+    [open, allBlocksLoaded, blocks, activities]
+  );
+
+  const handleRepair = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await repairBlockIntegrity(fallbackActivityId);
+      setMessage(
+        `삭제 ${result.removed} · 시간 조정 ${result.adjusted} · 날짜 이동 ${result.moved} · 활동 변경 ${result.reassigned}`
+      );
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const kinds = Object.keys(INTEGRITY_ISSUE_LABELS) as IntegrityIssueKind[];
+
+  return (
+    <Dialog open={open} title="데이터 점검" onClose={onClose}>
+      <div className="max-h-[70vh] space-y-4 overflow-y-auto text-sm">
+        {!report ? (
+          <p className="opacity-60">전체 블록을 불러오는 중…</p>
+        ) : (
+          <>
+            <p>
+              블록 {report.blockCount}개 검사 · 문제 {report.issues.length}건
+            </p>
+            <ul className="space-y-0.5">
+              {kinds.map(kind => (
+                <li key={kind} className="flex justify-between">
+                  <span>{INTEGRITY_ISSUE_LABELS[kind]}</span>
+                  <span className="tabular-nums">{report.counts[kind]}</span>
+                </li>
+              ))}
+            </ul>
+
+            {report.issues.length > 0 && (
+              <>
+                <ul className="max-h-40 list-disc space-y-0.5 overflow-y-auto pl-4 text-[color:var(--destructive)]">
+                  {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                    <li key={i}>{issue.message}</li>
+                  ))}
+                  {report.issues.length > MAX_LISTED_ISSUES && (
+                    <li>외 {report.issues.length - MAX_LISTED_ISSUES}건</li>
+                  )}
+                </ul>
+
+                {report.counts.orphanActivity > 0 && (
+                  <div>
+                    <Label htmlFor="integrity-fallback">없는 활동을 대신할 활동</Label>
+                    <select
+                      id="integrity-fallback"
+                      className={SELECT_CLASS}
+                      value={fallbackActivityId}
+                      onChange={e => setFallbackActivityId(e.target.value)}
+                    >
+                      {activities.map(a => (
+                        <option key={a.id} value={a.id}>{a.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <p className="opacity-60">
+                  복구: 길이 0·중복 블록 삭제, 범위 보정, 날짜 키 정리, 겹침은 나중에 기록된 블록 기준으로 자릅니다. 되돌리기로 취소할 수 있습니다.
+                </p>
+              </>
+            )}
+          </>
+        )}
+
+        {message && <p className="whitespace-pre-line opacity-80">{message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleRepair}
+            disabled={busy || !report || report.issues.length === 0 || !fallbackActivityId}
+          >
+            모두 복구
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
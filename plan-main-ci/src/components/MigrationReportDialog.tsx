@@ -0,0 +1,54 @@
+import React from 'react';
+import { Dialog } from './Dialog';
+import { Button } from './ui';
+import type { MigrationReport } from '../lib/migrations';
+
+interface MigrationReportDialogProps {
+  report: MigrationReport | null;
+  onClose: () => void;
+}
+
+/**
+ * 구버전 데이터 마이그레이션 결과 (변환된 항목 / 경고)
+ */
+export function MigrationReportDialog({ report, onClose }: MigrationReportDialogProps) {
+  if (!report) return null;
+
+  return (
+    <Dialog open title={`데이터 업그레이드 (v${report.fromVersion} → v${report.toVersion})`} onClose={onClose}>
+      <div className="max-h-[60vh] space-y-4 overflow-y-auto text-sm">
+        {report.saveError && <p className="text-[color:var(--destructive)]">{report.saveError}</p>}
+        {report.steps.map((step) => (
+          <section key={`${step.from}-${step.to}`}>
+            <h3 className="mb-1 font-medium">{step.description}</h3>
+            {step.converted.length > 0 ? (
+              <ul className="space-y-0.5">
+                {step.converted.map((c) => (
+                  <li key={c.label} className="flex justify-between">
+                    <span>{c.label}</span>
+                    <span className="tabular-nums">{c.count}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="opacity-60">변환된 항목 없음</p>
+            )}
+            {step.warnings.length > 0 && (
+              <ul className="mt-2 list-disc space-y-0.5 pl-4 text-[color:var(--destructive)]">
+                {step.warnings.map((w, i) => (
+                  <li key={i}>{w}</li>
+                ))}
+                {step.droppedWarnings > 0 && <li>외 {step.droppedWarnings}건</li>}
+              </ul>
+            )}
+          </section>
+        ))}
+      </div>
+      <div className="mt-4 flex justify-end">
+        <Button size="sm" onClick={onClose}>
+          확인
+        </Button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog } from './Dialog';
+import { Button, Input, Label } from './ui';
+import { SELECT_CLASS } from './ImportRulesEditor';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import { deviceTimeZone, isValidTimeZone, pad2 } from '../lib/time';
+
+interface SettingsDialogProps {
+  open: boolean;
+  /** 여행 시간대를 기록할 날짜 (보고 있는 날) */
+  dateISO: string;
+  onClose: () => void;
+}
+
+const COMMON_TIME_ZONES = [
+  'Asia/Seoul',
+  'Asia/Tokyo',
+  'Asia/Shanghai',
+  'Asia/Singapore',
+  'Europe/London',
+  'Europe/Paris',
+  'America/New_York',
+  'America/Los_Angeles',
+  'Australia/Sydney',
+  'UTC',
+];
+
+/**
+ * 설정: 하루 시작 시각 (논리적 하루 경계), 기본 시간대, 보고 있는 날의 시간대 (여행)
+ */
+export function SettingsDialog({ open, dateISO, onClose }: SettingsDialogProps) {
+  const startHour = usePlannerStore(state => state.startHour);
+  const timeZone = usePlannerStore(state => state.timeZone);
+  const dayTimeZone = usePlannerStore(state => state.dailyStateByDate[dateISO]?.timeZone);
+  const setStartHour = usePlannerStore(state => state.setStartHour);
+  const setTimeZone = usePlannerStore(state => state.setTimeZone);
+  const setDayTimeZone = usePlannerStore(state => state.setDayTimeZone);
+
+  const [homeDraft, setHomeDraft] = useState(timeZone);
+  const [dayDraft, setDayDraft] = useState(dayTimeZone ?? '');
+
+  useEffect(() => {
+    if (!open) return;
+    setHomeDraft(timeZone);
+    setDayDraft(dayTimeZone ?? '');
+  }, [open, timeZone, dayTimeZone]);
+
+  const homeValid = isValidTimeZone(homeDraft.trim());
+  const dayValid = dayDraft.trim() === '' || isValidTimeZone(dayDraft.trim());
+
+  return (
+    <Dialog open={open} title="설정" onClose={onClose}>
+      <div className="space-y-4 text-sm">
+        <div>
+          <Label htmlFor="settings-start-hour">하루 시작 시각</Label>
+          <select
+            id="settings-start-hour"
+            className={SELECT_CLASS}
+            value={startHour}
+            onChange={e => setStartHour(Number(e.target.value))}
+          >
+            {Array.from({ length: 24 }, (_, h) => (
+              <option key={h} value={h}>{pad2(h)}:00</option>
+            ))}
+          </select>
+          <p className="mt-1 opacity-60">
+            하루는 {pad2(startHour)}:00부터 다음 날 {pad2(startHour)}:00까지입니다. 그 전 새벽 기록은 전날에 표시되고,
+            주간 보기·내보내기도 같은 기준을 따릅니다.
+          </p>
+        </div>
+
+        <datalist id="settings-time-zones">
+          {[deviceTimeZone(), ...COMMON_TIME_ZONES.filter(z => z !== deviceTimeZone())].map(z => (
+            <option key={z} value={z} />
+          ))}
+        </datalist>
+
+        <div>
+          <Label htmlFor="settings-time-zone">기본 시간대</Label>
+          <div className="flex gap-2">
+            <Input
+              id="settings-time-zone"
+              list="settings-time-zones"
+              value={homeDraft}
+              onChange={e => setHomeDraft(e.target.value)}
+            />
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setTimeZone(homeDraft.trim())}
+              disabled={!homeValid || homeDraft.trim() === timeZone}
+            >
+              적용
+            </Button>
+          </div>
+          <p className="mt-1 opacity-60">
+            블록 시각은 그날 시간대의 벽시계 시각입니다. 기본 시간대를 바꾸면 따로 기록하지 않은 날짜의 내보내기 시각이 바뀝니다.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="settings-day-time-zone">{dateISO} 시간대 (여행)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="settings-day-time-zone"
+              list="settings-time-zones"
+              placeholder={timeZone}
+              value={dayDraft}
+              onChange={e => setDayDraft(e.target.value)}
+            />
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setDayTimeZone(dateISO, dayDraft.trim() === '' ? null : dayDraft.trim())}
+              disabled={!dayValid || dayDraft.trim() === (dayTimeZone ?? '')}
+            >
+              적용
+            </Button>
+          </div>
+          {!dayValid && <p className="mt-1 text-[color:var(--destructive)]">알 수 없는 시간대입니다</p>}
+          <p className="mt-1 opacity-60">비워 두면 기본 시간대를 따릅니다.</p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
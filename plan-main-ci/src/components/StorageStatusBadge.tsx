@@ -0,0 +1,52 @@
+import React from 'react';
+import clsx from 'clsx';
+import { AlertTriangle, Database } from 'lucide-react';
+import type { StorageStatus } from '../stores/usePlannerStore';
+
+interface StorageStatusBadgeProps {
+  status: StorageStatus;
+  onRetry?: () => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)}GB`;
+}
+
+/**
+ * 저장 상태 표시 (로드·저장 실패 / 사용량)
+ * 실패 시 클릭하면 즉시 재시도
+ */
+export function StorageStatusBadge({ status, onRetry }: StorageStatusBadgeProps) {
+  const { usage, error } = status;
+  const ratio = usage && usage.quotaBytes > 0 ? usage.usedBytes / usage.quotaBytes : 0;
+  const nearQuota = ratio >= 0.8;
+
+  const title = [
+    `저장소: ${status.backend}`,
+    usage && `사용량: ${formatBytes(usage.usedBytes)} / ${formatBytes(usage.quotaBytes)}`,
+    status.lastSavedAt && `마지막 저장: ${new Date(status.lastSavedAt).toLocaleTimeString()}`,
+    error && `오류: ${error}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <button
+      type="button"
+      className={clsx(
+        'inline-flex items-center gap-1 rounded-md px-2 h-8 text-xs transition',
+        error || nearQuota
+          ? 'text-[color:var(--destructive)] hover:bg-[color:var(--secondary)]'
+          : 'text-muted-foreground hover:bg-[color:var(--secondary)]'
+      )}
+      title={title}
+      onClick={error ? onRetry : undefined}
+    >
+      {error ? <AlertTriangle size={14} /> : <Database size={14} />}
+      {error ? (status.hydrated ? '저장 실패' : '로드 실패') : usage ? `${Math.round(ratio * 100)}%` : status.saving ? '저장 중' : null}
+    </button>
+  );
+}
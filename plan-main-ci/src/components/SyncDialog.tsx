@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { Dialog } from './Dialog';
+import { Button, Divider, Input, Label } from './ui';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import {
+  parseSyncSnapshot,
+  pullSyncSnapshot,
+  pushSyncSnapshot,
+  serializeSyncSnapshot,
+  SyncError,
+  syncSnapshotFilename,
+  type SyncMergeResult,
+} from '../lib/sync';
+import { saveTextFile } from '../lib/fileShare';
+import { blockTimeString } from '../lib/blocks';
+import { getDeviceId } from '../lib/id';
+import { toISODate } from '../lib/time';
+import type { Activity, Block, SyncConflict } from '../lib/types';
+
+interface SyncDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof SyncError && err.problems.length > 0) {
+    return `${err.message}\n- ${err.problems.join('\n- ')}`;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+function describeMerge(result: SyncMergeResult): string {
+  const parts = [`블록 ${result.receivedBlocks}개를 받았습니다`];
+  if (result.deletedItems > 0) parts.push(`삭제 ${result.deletedItems}건 반영`);
+  if (result.conflicts.length > 0) parts.push(`충돌 ${result.conflicts.length}건 — 아래에서 확인하세요`);
+  return parts.join(' · ');
+}
+
+function describeVersion(block: Block | undefined, activities: Activity[]): string {
+  if (!block) return '삭제함';
+  const name = activities.find(a => a.id === block.activityId)?.name ?? block.activityId;
+  return `${block.dateISO} ${blockTimeString(block)} ${block.title || name}`;
+}
+
+function ConflictRow({ conflict, activities }: { conflict: SyncConflict; activities: Activity[] }) {
+  const resolveSyncConflict = usePlannerStore(state => state.resolveSyncConflict);
+  const options: { keep: SyncConflict['kept']; label: string; block?: Block }[] = [
+    { keep: 'local', label: '이 기기', block: conflict.local },
+    { keep: 'remote', label: '다른 기기', block: conflict.remote },
+  ];
+
+  return (
+    <li className="space-y-1 rounded border border-[color:var(--border)] p-2">
+      {options.map(opt => (
+        <div key={opt.keep} className="flex items-center gap-2">
+          <span className={clsx('flex-1', conflict.kept === opt.keep ? 'font-medium' : 'opacity-70')}>
+            {opt.label}: {describeVersion(opt.block, activities)}
+            {conflict.kept === opt.keep && ' (적용됨)'}
+          </span>
+          <Button
+            variant={conflict.kept === opt.keep ? 'ghost' : 'secondary'}
+            size="sm"
+            onClick={() => resolveSyncConflict(conflict.blockId, opt.keep)}
+          >
+            이걸로
+          </Button>
+        </div>
+      ))}
+    </li>
+  );
+}
+
+/**
+ * 두 기기 간 동기화: 스냅샷 파일 또는 로컬 HTTP 엔드포인트
+ */
+export function SyncDialog({ open, onClose }: SyncDialogProps) {
+  const activities = usePlannerStore(state => state.activities);
+  const syncEndpoint = usePlannerStore(state => state.syncEndpoint);
+  const syncConflicts = usePlannerStore(state => state.syncConflicts);
+  const setSyncEndpoint = usePlannerStore(state => state.setSyncEndpoint);
+  const createSyncSnapshot = usePlannerStore(state => state.createSyncSnapshot);
+  const applySyncSnapshot = usePlannerStore(state => state.applySyncSnapshot);
+
+  const [endpointDraft, setEndpointDraft] = useState(syncEndpoint);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setEndpointDraft(syncEndpoint);
+    setMessage(null);
+  }, [open, syncEndpoint]);
+
+  const run = async (task: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await task());
+    } catch (err) {
+      setMessage(`동기화 실패: ${describeError(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      const snapshot = await createSyncSnapshot();
+      const result = await saveTextFile(
+        syncSnapshotFilename(toISODate(new Date())),
+        serializeSyncSnapshot(snapshot),
+        'application/json'
+      );
+      return result === 'shared' ? '공유 시트로 전달했습니다' : '다운로드를 시작했습니다';
+    });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    run(async () => describeMerge(await applySyncSnapshot(parseSyncSnapshot(await file.text()))));
+  };
+
+  // 서버의 스냅샷을 받아 합친 뒤, 합친 결과를 다시 올린다
+  const handleServerSync = () =>
+    run(async () => {
+      const endpoint = endpointDraft.trim();
+      setSyncEndpoint(endpoint);
+      const remote = await pullSyncSnapshot(endpoint);
+      const merged = remote && remote.deviceId !== getDeviceId() ? await applySyncSnapshot(remote) : null;
+      await pushSyncSnapshot(endpoint, await createSyncSnapshot());
+      return merged ? describeMerge(merged) : '서버에 이 기기 스냅샷을 올렸습니다';
+    });
+
+  return (
+    <Dialog open={open} title="기기 간 동기화" onClose={onClose}>
+      <div className="max-h-[70vh] space-y-4 overflow-y-auto text-sm">
+        <section className="space-y-2">
+          <h3 className="font-medium">파일로 주고받기</h3>
+          <p className="opacity-70">
+            한 기기에서 스냅샷을 만들어 다른 기기에서 가져오면 항목별로 더 최근에 고친 쪽을 남기고, 지운 항목은 지웁니다.
+          </p>
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={handleExport} disabled={busy}>
+              스냅샷 만들기
+            </Button>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={e => handleFile(e.target.files?.[0])}
+              disabled={busy}
+            />
+          </div>
+        </section>
+
+        <Divider />
+
+        <section className="space-y-2">
+          <Label htmlFor="sync-endpoint">로컬 동기화 서버</Label>
+          <div className="flex gap-2">
+            <Input
+              id="sync-endpoint"
+              placeholder="http://192.168.0.10:5173/__sync"
+              value={endpointDraft}
+              onChange={e => setEndpointDraft(e.target.value)}
+            />
+            <Button size="sm" onClick={handleServerSync} disabled={busy || endpointDraft.trim() === ''}>
+              동기화
+            </Button>
+          </div>
+          <p className="opacity-70">서버의 스냅샷을 받아 합친 뒤 합친 결과를 다시 올립니다.</p>
+          <p className="opacity-70">
+            개발 서버(npm run dev)의 /__sync는 그 서버로 연 브라우저에서만 쓸 수 있습니다. 설치한 앱에서는 출처가 달라 막힙니다.
+          </p>
+        </section>
+
+        {message && <p className="whitespace-pre-line opacity-80">{message}</p>}
+
+        {syncConflicts.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-medium">충돌 {syncConflicts.length}건</h3>
+            <p className="opacity-70">
+              마지막 동기화 이후 두 기기에서 모두 고친 블록입니다. 더 최근 쪽을 적용해 두었으니 다른 버전을 원하면 고르세요.
+            </p>
+            <ul className="space-y-2">
+              {syncConflicts.map(conflict => (
+                <ConflictRow key={conflict.blockId} conflict={conflict} activities={activities} />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog } from './Dialog';
+import { Button, Label } from './ui';
+import { ImportRulesEditor, SELECT_CLASS } from './ImportRulesEditor';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import { detectCsvDelimiter, parseCsv } from '../lib/csv';
+import {
+  guessTimeTrackerMapping,
+  parseTimeTrackerCsv,
+  type CsvDateOrder,
+  type TimeTrackerMapping,
+} from '../lib/timeTrackerImport';
+import { partitionDuplicateImports, previewOverwrites } from '../lib/importRules';
+import { formatMinutesToTime } from '../lib/blocks';
+import { datesToLoadForBlocks } from '../lib/daySpans';
+
+interface TimeTrackerImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type MappingColumn = Exclude<keyof TimeTrackerMapping, 'dateOrder'>;
+
+const COLUMN_FIELDS: { id: MappingColumn; label: string; required: boolean }[] = [
+  { id: 'startDate', label: '시작 날짜 (또는 날짜+시각)', required: true },
+  { id: 'startTime', label: '시작 시각', required: false },
+  { id: 'endDate', label: '종료 날짜 (또는 날짜+시각)', required: true },
+  { id: 'endTime', label: '종료 시각', required: false },
+  { id: 'project', label: '프로젝트', required: false },
+  { id: 'description', label: '설명', required: false },
+];
+
+const DATE_ORDER_OPTIONS: { id: CsvDateOrder; label: string }[] = [
+  { id: 'ymd', label: '연-월-일' },
+  { id: 'mdy', label: '월/일/연' },
+  { id: 'dmy', label: '일.월.연' },
+];
+
+const MAX_PREVIEW_OVERWRITES = 20;
+
+/**
+ * 타임트래커 CSV → 실행 블록 가져오기
+ * 컬럼 매핑 → 미리보기(덮어쓸 기존 실행 블록) → 가져오기
+ */
+export function TimeTrackerImportDialog({ open, onClose }: TimeTrackerImportDialogProps) {
+  const activities = usePlannerStore(state => state.activities);
+  const blocks = usePlannerStore(state => state.blocks);
+  const rules = usePlannerStore(state => state.importKeywordRules);
+  const ensureBlocksLoaded = usePlannerStore(state => state.ensureBlocksLoaded);
+  const importBlocks = usePlannerStore(state => state.importBlocks);
+
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<Partial<TimeTrackerMapping>>({});
+  const [dateOrder, setDateOrder] = useState<CsvDateOrder>('ymd');
+  const [defaultActivityId, setDefaultActivityId] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setRows(null);
+    setMapping({});
+    setMessage(null);
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    setMessage(null);
+    if (!file) {
+      setRows(null);
+      return;
+    }
+    const text = await file.text();
+    const parsed = parseCsv(text, detectCsvDelimiter(text));
+    setRows(parsed);
+    setMapping(guessTimeTrackerMapping(parsed[0] ?? []));
+  };
+
+  const header = rows?.[0] ?? [];
+  const mappingComplete = mapping.startDate !== undefined && mapping.endDate !== undefined;
+
+  const parsed = useMemo(() => {
+    if (!rows || !mappingComplete || !defaultActivityId) return null;
+    return parseTimeTrackerCsv(rows, {
+      mapping: { ...(mapping as TimeTrackerMapping), dateOrder },
+      rules,
+      defaultActivityId,
+    });
+  }, [rows, mapping, mappingComplete, dateOrder, rules, defaultActivityId]);
+
+  const dates = useMemo(
+    () => [...new Set(parsed?.blocks.map(b => b.dateISO) ?? [])].sort(),
+    [parsed]
+  );
+
+  // 중복/덮어쓰기 판단에 필요한 날짜의 블록을 미리 불러온다 (자정을 넘는 블록이 걸친 날짜까지)
+  const loadDates = useMemo(() => datesToLoadForBlocks(parsed?.blocks ?? []), [parsed]);
+  useEffect(() => {
+    if (open && loadDates.length > 0) ensureBlocksLoaded(loadDates);
+  }, [open, loadDates, ensureBlocksLoaded]);
+
+  const preview = useMemo(() => {
+    if (!parsed) return null;
+    const existing = dates.flatMap(d => blocks[d] || []);
+    const { fresh, duplicates } = partitionDuplicateImports(existing, parsed.blocks);
+    return { fresh, duplicates, overwrites: previewOverwrites(blocks, fresh) };
+  }, [parsed, dates, blocks]);
+
+  const activityName = (id: string) => activities.find(a => a.id === id)?.name ?? id;
+
+  const handleImport = () => {
+    if (!preview || preview.fresh.length === 0) return;
+    importBlocks(preview.fresh);
+    setMessage(`${preview.fresh.length}개 실행 블록을 가져왔습니다`);
+    setRows(null);
+  };
+
+  return (
+    <Dialog open={open} title="타임트래커 CSV 가져오기" onClose={onClose}>
+      <div className="max-h-[70vh] space-y-4 overflow-y-auto text-sm">
+        <input type="file" accept="text/csv,.csv,.tsv,.txt" onChange={e => handleFile(e.target.files?.[0])} />
+
+        {rows && (
+          <fieldset className="grid grid-cols-2 gap-2">
+            <legend className="mb-1 font-medium">컬럼 매핑</legend>
+            {COLUMN_FIELDS.map(field => (
+              <div key={field.id}>
+                <Label htmlFor={`tt-${field.id}`}>{field.label}</Label>
+                <select
+                  id={`tt-${field.id}`}
+                  className={SELECT_CLASS}
+                  value={mapping[field.id] ?? ''}
+                  onChange={e =>
+                    setMapping(prev => ({
+                      ...prev,
+                      [field.id]: e.target.value === '' ? undefined : Number(e.target.value),
+                    }))
+                  }
+                >
+                  <option value="">{field.required ? '선택하세요' : '(없음)'}</option>
+                  {header.map((name, i) => (
+                    <option key={i} value={i}>{name || `${i + 1}번째 컬럼`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="tt-date-order">날짜 형식</Label>
+              <select
+                id="tt-date-order"
+                className={SELECT_CLASS}
+                value={dateOrder}
+                onChange={e => setDateOrder(e.target.value as CsvDateOrder)}
+              >
+                {DATE_ORDER_OPTIONS.map(opt => (
+                  <option key={opt.id} value={opt.id}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+          </fieldset>
+        )}
+
+        <ImportRulesEditor
+          idPrefix="tt"
+          defaultActivityId={defaultActivityId}
+          onDefaultActivityChange={setDefaultActivityId}
+        />
+
+        {parsed && preview && (
+          <div className="space-y-2">
+            <p>
+              항목 {parsed.entryCount}개 → 실행 블록 {preview.fresh.length}개
+              {preview.duplicates.length > 0 && ` · 이미 가져옴 ${preview.duplicates.length}개`}
+            </p>
+
+            {preview.overwrites.length > 0 && (
+              <div>
+                <p className="font-medium">덮어쓸 기존 블록 {preview.overwrites.length}개</p>
+                <ul className="max-h-32 space-y-0.5 overflow-y-auto">
+                  {preview.overwrites.slice(0, MAX_PREVIEW_OVERWRITES).map(({ block, lostMin, removed }) => (
+                    <li key={block.id} className="flex justify-between gap-2">
+                      <span>
+                        {block.dateISO} {formatMinutesToTime(block.startMin)}–{formatMinutesToTime(block.endMin)}{' '}
+                        {activityName(block.activityId)}
+                      </span>
+                      <span className="tabular-nums opacity-70">{removed ? '삭제' : `−${lostMin}분`}</span>
+                    </li>
+                  ))}
+                  {preview.overwrites.length > MAX_PREVIEW_OVERWRITES && (
+                    <li className="opacity-60">외 {preview.overwrites.length - MAX_PREVIEW_OVERWRITES}개</li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            {parsed.warnings.length > 0 && (
+              <ul className="list-disc space-y-0.5 pl-4 text-[color:var(--destructive)]">
+                {parsed.warnings.map((w, i) => (
+                  <li key={i}>{w}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {message && <p className="opacity-80">{message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            닫기
+          </Button>
+          <Button size="sm" onClick={handleImport} disabled={!preview || preview.fresh.length === 0}>
+            가져오기
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -1,12 +1,15 @@
 import React, { useMemo } from 'react';
 import clsx from 'clsx';
 import type { Activity, Block } from '../lib/types';
-import { pad2 } from '../lib/time';
+import { pad2, toISODate } from '../lib/time';
+import { dayStartMin } from '../lib/logicalDay';
 
 interface WeekTimelineProps {
   weekDates: Date[];
+  /** 날짜별 논리적 하루 좌표 블록 */
   blocksMap: Record<string, Block[]>;
   activities: Activity[];
+  startHour?: number;
   onDayClick?: (dateISO: string) => void;
 }
 
@@ -14,6 +17,7 @@ export function WeekTimeline({
   weekDates,
   blocksMap,
   activities,
+  startHour = 0,
   onDayClick,
 }: WeekTimelineProps) {
   const activityMap = useMemo(() => {
@@ -32,7 +36,7 @@ export function WeekTimeline({
         <div className="sticky top-0 z-10 bg-background border-b flex">
           <div className="w-12 flex-shrink-0" />
           {weekDates.map((date) => {
-            const dateISO = date.toISOString().split('T')[0];
+            const dateISO = toISODate(date);
             const dayName = ['일', '월', '화', '수', '목', '금', '토'][date.getDay()];
             return (
               <div
@@ -56,14 +60,14 @@ export function WeekTimeline({
           <div className="w-12 flex-shrink-0 text-xs text-muted-foreground">
             {Array.from({ length: 24 }).map((_, h) => (
               <div key={h} style={{ height: rowH }} className="flex items-center justify-end pr-2 border-t">
-                {pad2(h)}
+                {pad2((startHour + h) % 24)}
               </div>
             ))}
           </div>
           
           {/* Days */}
           {weekDates.map((date) => {
-            const dateISO = date.toISOString().split('T')[0];
+            const dateISO = toISODate(date);
             const blocks = blocksMap[dateISO] || [];
             
             return (
@@ -88,7 +92,7 @@ export function WeekTimeline({
                   const endH = Math.floor(block.endMin / 60);
                   const duration = block.endMin - block.startMin;
                   
-                  const top = (block.startMin / 60) * rowH;
+                  const top = ((block.startMin - dayStartMin(startHour)) / 60) * rowH;
                   const height = (duration / 60) * rowH;
                   
                   return (
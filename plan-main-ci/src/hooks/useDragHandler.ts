@@ -1,8 +1,8 @@
 import { useCallback, useRef, useState } from 'react';
 import type { Tool } from '../lib/types';
-import { createBlock } from '../lib/blocks';
+import { cellTimeRange, createBlock } from '../lib/blocks';
+import { timeRangeLabel } from '../lib/history';
 import { usePlannerStore } from '../stores/usePlannerStore';
-import { toISODate } from '../lib/time';
 
 interface DragState {
   isDown: boolean;
@@ -16,8 +16,12 @@ interface DragState {
 export function useDragHandler(dateISO: string) {
   const tool = usePlannerStore(state => state.tool);
   const brush = usePlannerStore(state => state.brush);
+  const startHour = usePlannerStore(state => state.startHour);
+  const activities = usePlannerStore(state => state.activities);
   const addBlock = usePlannerStore(state => state.addBlock);
-  const pushHistory = usePlannerStore(state => state.pushHistory);
+  const eraseRange = usePlannerStore(state => state.eraseRange);
+  const beginHistoryGroup = usePlannerStore(state => state.beginHistoryGroup);
+  const endHistoryGroup = usePlannerStore(state => state.endHistoryGroup);
   
   const [dragState, setDragState] = useState<DragState>({
     isDown: false,
@@ -30,11 +34,48 @@ export function useDragHandler(dateISO: string) {
   
   const longPressTimer = useRef<ReturnType<typeof setTimeout>>();
   
+  const isPaint = tool === 'PAINT' || tool === 'execute';
+  const isErase = tool === 'ERASE' || tool === 'erase';
+  
+  // 드래그 한 번 = 실행 취소 한 단계, 라벨은 지나간 셀 범위 ("Paint 업무 09:00–10:30")
+  const gestureLabel = useCallback((cells: Set<string>): string | undefined => {
+    if (cells.size === 0 || (!isPaint && !isErase)) return undefined;
+    let startMin = Infinity;
+    let endMin = -Infinity;
+    for (const key of cells) {
+      const [row, col] = key.split(':').map(Number);
+      const range = cellTimeRange(row, col, row, col, startHour);
+      startMin = Math.min(startMin, range.startMin);
+      endMin = Math.max(endMin, range.endMin);
+    }
+    const name = activities.find(a => a.id === brush)?.name ?? brush;
+    return isPaint ? `Paint ${name} ${timeRangeLabel(startMin, endMin)}` : `Erase ${timeRangeLabel(startMin, endMin)}`;
+  }, [isPaint, isErase, startHour, activities, brush]);
+  
+  // 셀 하나 칠하기/지우기 — 셀 시간은 논리적 하루 좌표라 다음 날 새벽 행은 1440 이상 (저장 시 그 날짜로 옮겨진다)
+  const applyToCell = useCallback((row: number, col: number) => {
+    if (!isPaint && !isErase) return;
+    const { startMin, endMin } = cellTimeRange(row, col, row, col, startHour);
+    if (isPaint) {
+      addBlock(createBlock({
+        dateISO,
+        startMin,
+        endMin,
+        activityId: brush,
+        layer: 'execute',
+        source: 'drag',
+      }));
+    } else {
+      eraseRange(dateISO, 'execute', startMin, endMin);
+    }
+  }, [isPaint, isErase, brush, startHour, dateISO, addBlock, eraseRange]);
+  
   const handlePointerDown = useCallback((row: number, col: number, e: React.PointerEvent) => {
     e.preventDefault();
     
-    // Push history snapshot before starting drag
-    pushHistory();
+    beginHistoryGroup(isPaint ? 'Paint' : isErase ? 'Erase' : '드래그');
+    // 누른 셀도 칠한다 (gestureLabel이 activeCells 전체를 범위로 쓴다)
+    applyToCell(row, col);
     
     setDragState({
       isDown: true,
@@ -49,12 +90,13 @@ export function useDragHandler(dateISO: string) {
     longPressTimer.current = setTimeout(() => {
       // Open checklist dialog
     }, 450);
-  }, [pushHistory]);
+  }, [beginHistoryGroup, isPaint, isErase, applyToCell]);
   
   const handlePointerEnter = useCallback((row: number, col: number, e: React.PointerEvent) => {
     if (!dragState.isDown) return;
     if (!(e.buttons & 1)) {
       // Button released outside
+      endHistoryGroup(gestureLabel(dragState.activeCells));
       setDragState(prev => ({ ...prev, isDown: false }));
       return;
     }
@@ -71,35 +113,21 @@ export function useDragHandler(dateISO: string) {
       activeCells: new Set([...prev.activeCells, cellKey]),
     }));
     
-    // Paint logic
-    if (tool === 'PAINT' || tool === 'execute') {
-      const startMin = row * 60 + col * 10;
-      const endMin = startMin + 10;
-      
-      const block = createBlock({
-        dateISO,
-        startMin,
-        endMin,
-        activityId: brush,
-        layer: 'execute',
-        source: 'drag',
-      });
-      
-      addBlock(block);
-    }
-  }, [dragState, tool, brush, dateISO, addBlock]);
+    applyToCell(row, col);
+  }, [dragState, applyToCell, endHistoryGroup, gestureLabel]);
   
   const handlePointerUp = useCallback((e: React.PointerEvent) => {
     clearTimeout(longPressTimer.current);
+    if (dragState.isDown) endHistoryGroup(gestureLabel(dragState.activeCells));
     
     if (dragState.isDown && dragState.startRow !== null && dragState.startCol !== null) {
       // Handle drag completion
       if (tool === 'NEW_EVENT' || tool === 'new') {
         // Open new event dialog
-        const startMin = dragState.startRow * 60 + dragState.startCol * 10;
+        const startMin = (startHour + dragState.startRow) * 60 + dragState.startCol * 10;
         const endRow = dragState.lastRow ?? dragState.startRow;
         const endCol = dragState.lastCol ?? dragState.startCol;
-        const endMin = endRow * 60 + endCol * 10 + 10;
+        const endMin = (startHour + endRow) * 60 + endCol * 10 + 10;
         
         // TODO: Open dialog with these bounds
       }
@@ -113,7 +141,7 @@ export function useDragHandler(dateISO: string) {
       lastCol: null,
       activeCells: new Set(),
     });
-  }, [dragState, tool]);
+  }, [dragState, tool, startHour, endHistoryGroup, gestureLabel]);
   
   return {
     handlePointerDown,
@@ -0,0 +1,37 @@
+/**
+ * 앱이 백그라운드로 가거나 닫히기 직전 알림
+ * - 웹: visibilitychange(hidden), pagehide
+ * - Android(Capacitor): App 플러그인의 pause 이벤트
+ *
+ * Capacitor 패키지는 Android 빌드에서만 설치되므로 import 대신 런타임 전역(window.Capacitor)을 쓴다.
+ */
+
+interface CapacitorAppPlugin {
+  addListener(eventName: "pause", listener: () => void): Promise<{ remove: () => Promise<void> }> | { remove: () => Promise<void> };
+}
+
+interface CapacitorGlobal {
+  Plugins?: {
+    App?: CapacitorAppPlugin;
+  };
+}
+
+/**
+ * 백그라운드 전환/종료 직전에 callback을 부른다. 해제 함수를 돌려준다.
+ */
+export function onAppBackground(callback: () => void): () => void {
+  const handleVisibility = () => {
+    if (document.visibilityState === "hidden") callback();
+  };
+  document.addEventListener("visibilitychange", handleVisibility);
+  window.addEventListener("pagehide", callback);
+
+  const app = (window as unknown as { Capacitor?: CapacitorGlobal }).Capacitor?.Plugins?.App;
+  const pauseHandle = app ? Promise.resolve(app.addListener("pause", callback)) : null;
+
+  return () => {
+    document.removeEventListener("visibilitychange", handleVisibility);
+    window.removeEventListener("pagehide", callback);
+    pauseHandle?.then((handle) => handle.remove());
+  };
+}
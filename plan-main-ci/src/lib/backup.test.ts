@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { BackupError, createBackup, inspectBackup, restoreState, serializeBackup } from "./backup";
+import { CURRENT_SCHEMA_VERSION, createEmptyStateV2 } from "./migrations";
+import type { Block, PersistedStateV2 } from "./types";
+
+function block(id: string, dateISO: string, startMin: number, endMin: number, updatedAt: number): Block {
+  return {
+    id,
+    dateISO,
+    startMin,
+    endMin,
+    // 블록마다 다른 활동 (같은 활동끼리 붙으면 한 블록으로 합쳐진다)
+    activityId: `activity-${id}`,
+    layer: "execute",
+    source: "manual",
+    createdAt: 1,
+    updatedAt,
+  };
+}
+
+function stateWith(blocks: Block[]): PersistedStateV2 {
+  const blocksByDate: Record<string, Block[]> = {};
+  for (const b of blocks) (blocksByDate[b.dateISO] ||= []).push(b);
+  return { ...createEmptyStateV2(), schemaVersion: CURRENT_SCHEMA_VERSION, blocksByDate };
+}
+
+const spans = (blocks: Block[] | undefined) => (blocks || []).map((b) => [b.id, b.startMin, b.endMin]);
+
+describe("restoreState", () => {
+  it("merge: 같은 id는 updatedAt이 더 최근인 쪽을 남긴다", () => {
+    const current = stateWith([block("a", "2026-03-01", 540, 600, 5)]);
+    const incoming = stateWith([block("a", "2026-03-01", 540, 660, 9)]);
+
+    expect(spans(restoreState(current, incoming, "merge").blocksByDate["2026-03-01"])).toEqual([["a", 540, 660]]);
+    expect(spans(restoreState(incoming, current, "merge").blocksByDate["2026-03-01"])).toEqual([["a", 540, 660]]);
+  });
+
+  it("merge: 같은 레이어에서 겹치면 더 최근에 고친 블록이 자리를 차지한다", () => {
+    const current = stateWith([block("a", "2026-03-01", 540, 600, 5)]);
+    const incoming = stateWith([block("b", "2026-03-01", 570, 660, 9)]);
+
+    const merged = restoreState(current, incoming, "merge");
+    expect(spans(merged.blocksByDate["2026-03-01"])).toEqual([
+      ["a", 540, 570],
+      ["b", 570, 660],
+    ]);
+  });
+
+  it("merge: 날짜가 바뀐 블록은 새 날짜에만 남는다", () => {
+    const current = stateWith([block("a", "2026-03-01", 540, 600, 5)]);
+    const incoming = stateWith([block("a", "2026-03-02", 540, 600, 9)]);
+
+    const merged = restoreState(current, incoming, "merge");
+    expect(merged.blocksByDate["2026-03-01"]).toBeUndefined();
+    expect(spans(merged.blocksByDate["2026-03-02"])).toEqual([["a", 540, 600]]);
+  });
+
+  it("replace: 백업으로 통째로 바꾼다", () => {
+    const current = stateWith([block("a", "2026-03-01", 540, 600, 5)]);
+    const incoming = stateWith([block("b", "2026-03-02", 60, 120, 1)]);
+
+    expect(restoreState(current, incoming, "replace").blocksByDate).toEqual(incoming.blocksByDate);
+  });
+});
+
+describe("inspectBackup", () => {
+  it("백업 파일을 그대로 읽어 낸다", () => {
+    const state = stateWith([block("a", "2026-03-01", 540, 600, 5)]);
+    const { state: restored } = inspectBackup(serializeBackup(createBackup(state)));
+
+    expect(restored.blocksByDate).toEqual(state.blocksByDate);
+  });
+
+  it("손상된 파일은 BackupError", () => {
+    expect(() => inspectBackup("{not json")).toThrow(BackupError);
+  });
+});
@@ -0,0 +1,343 @@
+import type { Block, PersistedStateV2, SegmentMoodLog } from "./types";
+import { DAY_MINUTES, MAX_BLOCK_END_MIN, writeBlocksAcrossDays } from "./daySpans";
+import { CURRENT_SCHEMA_VERSION, MigrationError, migrateToCurrent, validateStateV2 } from "./migrations";
+
+/**
+ * 전체 JSON 백업 / 복원
+ * 웹 ↔ Android 간 이동, 기기 고장 시 복구용 단일 파일.
+ * 백업 파일은 { format, formatVersion, exportedAt, state } 봉투로 감싸고,
+ * state는 PersistedStateV2 그대로 담는다 (구버전 state는 복원 시 마이그레이션된다).
+ */
+
+export const BACKUP_FORMAT = "life-log-planner-backup";
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  schemaVersion: number;
+  state: PersistedStateV2;
+}
+
+export type RestoreStrategy = "replace" | "merge";
+
+export type BackupErrorReason = "corrupt" | "unsupported_version" | "invalid";
+
+export class BackupError extends Error {
+  readonly reason: BackupErrorReason;
+  readonly problems: string[];
+
+  constructor(reason: BackupErrorReason, message: string, details: { problems?: string[]; cause?: unknown } = {}) {
+    super(message);
+    this.name = "BackupError";
+    this.reason = reason;
+    this.problems = details.problems ?? [];
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+}
+
+export interface BackupInspection {
+  /** 현재 스키마로 올리고 잘못된 블록을 뺀 state */
+  state: PersistedStateV2;
+  exportedAt?: string;
+  fromSchemaVersion: number;
+  counts: { activities: number; dates: number; blocks: number };
+  /** 복원은 가능하지만 확인이 필요한 문제 (알 수 없는 activity, 제외된 블록 등) */
+  warnings: string[];
+  droppedBlocks: number;
+}
+
+const MAX_REPORTED_WARNINGS = 30;
+
+export function createBackup(state: PersistedStateV2, now = new Date()): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    state,
+  };
+}
+
+export function serializeBackup(backup: BackupFile): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+export function backupFilename(dateISO: string): string {
+  return `life-log-backup_${dateISO}.json`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isValidRange(startMin: unknown, endMin: unknown): boolean {
+  return (
+    typeof startMin === "number" &&
+    typeof endMin === "number" &&
+    Number.isFinite(startMin) &&
+    Number.isFinite(endMin) &&
+    startMin >= 0 &&
+    startMin < DAY_MINUTES &&
+    endMin <= MAX_BLOCK_END_MIN &&
+    startMin < endMin
+  );
+}
+
+/**
+ * 백업 파일 텍스트 → 검증된 state + 경고 목록
+ * 봉투 없이 저장된 PersistedState(v1/v2) 원본도 받아준다.
+ * @throws BackupError JSON 손상, 미래 버전, 형태 검증 실패 시
+ */
+export function inspectBackup(text: string): BackupInspection {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new BackupError("corrupt", "JSON 파일을 읽을 수 없습니다", { cause: err });
+  }
+  if (!isRecord(parsed)) {
+    throw new BackupError("corrupt", "백업 파일 형식이 아닙니다");
+  }
+
+  let rawState: unknown = parsed;
+  let exportedAt: string | undefined;
+  if (parsed.format === BACKUP_FORMAT) {
+    if (typeof parsed.formatVersion !== "number" || parsed.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new BackupError("unsupported_version", "더 새로운 앱 버전에서 만든 백업입니다. 앱을 업데이트하세요.");
+    }
+    rawState = parsed.state;
+    exportedAt = typeof parsed.exportedAt === "string" ? parsed.exportedAt : undefined;
+  }
+
+  let migrated: ReturnType<typeof migrateToCurrent>;
+  try {
+    migrated = migrateToCurrent(rawState);
+  } catch (err) {
+    if (err instanceof MigrationError) {
+      throw new BackupError(
+        err.reason === "unsupported_version" ? "unsupported_version" : "invalid",
+        err.message,
+        { problems: err.problems, cause: err }
+      );
+    }
+    throw err;
+  }
+
+  const problems = validateStateV2(migrated.state);
+  if (problems.length > 0) {
+    throw new BackupError("invalid", "백업 데이터 형식이 올바르지 않습니다", { problems });
+  }
+
+  return { ...sanitizeState(migrated.state), exportedAt, fromSchemaVersion: migrated.fromVersion };
+}
+
+/**
+ * 의미 검증: 잘못된 분 범위는 제외하고, 알 수 없는 activity id는 경고로 남긴다
+ */
+function sanitizeState(input: PersistedStateV2): Omit<BackupInspection, "exportedAt" | "fromSchemaVersion"> {
+  const warnings: string[] = [];
+  let hiddenWarnings = 0;
+  const warn = (msg: string) => {
+    if (warnings.length < MAX_REPORTED_WARNINGS) warnings.push(msg);
+    else hiddenWarnings++;
+  };
+
+  const knownActivityIds = new Set(input.activities.map((a) => a.id));
+  const unknownActivities = new Map<string, number>();
+  const noteActivity = (activityId: string | undefined) => {
+    if (activityId && !knownActivityIds.has(activityId)) {
+      unknownActivities.set(activityId, (unknownActivities.get(activityId) ?? 0) + 1);
+    }
+  };
+
+  let droppedBlocks = 0;
+  let blockCount = 0;
+  const keepBlock = (block: Block, where: string) => {
+    if (!isValidRange(block.startMin, block.endMin)) {
+      warn(`${where} 블록 ${block.id}: 잘못된 시간 범위 ${block.startMin}~${block.endMin}분 → 제외`);
+      droppedBlocks++;
+      return false;
+    }
+    noteActivity(block.activityId);
+    return true;
+  };
+
+  const blocksByDate: Record<string, Block[]> = {};
+  for (const [dateISO, list] of Object.entries(input.blocksByDate)) {
+    const kept = list.filter((b) => keepBlock(b, dateISO));
+    for (const block of kept) {
+      if (block.dateISO !== dateISO) {
+        warn(`${dateISO} 블록 ${block.id}: dateISO(${block.dateISO})가 날짜 키와 다릅니다`);
+      }
+    }
+    blockCount += kept.length;
+    if (kept.length > 0) blocksByDate[dateISO] = kept;
+  }
+
+  const weekPlans: PersistedStateV2["weekPlans"] = {};
+  for (const [weekKey, plan] of Object.entries(input.weekPlans || {})) {
+    weekPlans[weekKey] = { ...plan, blocks: (plan.blocks || []).filter((b) => keepBlock(b, `주간 계획 ${weekKey}`)) };
+  }
+
+  const fixedSchedule = (input.fixedSchedule || input.fixedSchedules || []).filter((b, i) => {
+    if (!isValidRange(b.startMin, b.endMin)) {
+      warn(`고정 일정 #${i + 1}: 잘못된 시간 범위 ${b.startMin}~${b.endMin}분 → 제외`);
+      return false;
+    }
+    noteActivity(b.activityId);
+    return true;
+  });
+
+  for (const list of Object.values(input.checklistBlocksByDate || {})) {
+    list.forEach((b) => noteActivity(b.activityId));
+  }
+  for (const list of Object.values(input.segmentMoodsByDate || {})) {
+    list.forEach((m) => noteActivity(m.activityId));
+  }
+
+  for (const [activityId, count] of unknownActivities) {
+    warn(`알 수 없는 activity "${activityId}" (${count}곳에서 사용)`);
+  }
+  if (hiddenWarnings > 0) warnings.push(`외 ${hiddenWarnings}건`);
+
+  const { fixedSchedules: _legacyKey, ...rest } = input;
+  return {
+    state: { ...rest, blocksByDate, weekPlans, fixedSchedule },
+    counts: {
+      activities: input.activities.length,
+      dates: Object.keys(blocksByDate).length,
+      blocks: blockCount,
+    },
+    warnings,
+    droppedBlocks,
+  };
+}
+
+// ===== Merge (updatedAt 기준) =====
+
+/** id가 같으면 타임스탬프가 큰 쪽을 남긴다 (같으면 현재 값 유지) */
+function mergeById<T>(current: T[], incoming: T[], key: (item: T) => string, stamp: (item: T) => number): T[] {
+  const merged = new Map<string, T>();
+  for (const item of current) merged.set(key(item), item);
+  for (const item of incoming) {
+    const existing = merged.get(key(item));
+    if (!existing || stamp(item) > stamp(existing)) merged.set(key(item), item);
+  }
+  return [...merged.values()];
+}
+
+function mergeDateLists<T>(
+  current: Record<string, T[]> | undefined,
+  incoming: Record<string, T[]> | undefined,
+  key: (item: T) => string,
+  stamp: (item: T) => number
+): Record<string, T[]> {
+  const out: Record<string, T[]> = { ...current };
+  for (const [dateISO, list] of Object.entries(incoming || {})) {
+    out[dateISO] = mergeById(out[dateISO] || [], list, key, stamp);
+  }
+  return out;
+}
+
+function mergeDateRecords<T>(
+  current: Record<string, T> | undefined,
+  incoming: Record<string, T> | undefined,
+  stamp: (item: T) => number
+): Record<string, T> {
+  const out: Record<string, T> = { ...current };
+  for (const [dateISO, item] of Object.entries(incoming || {})) {
+    const existing = out[dateISO];
+    if (!existing || stamp(item) > stamp(existing)) out[dateISO] = item;
+  }
+  return out;
+}
+
+/** 블록은 날짜가 바뀌었을 수 있으므로 id 기준으로 전체를 합친 뒤 dateISO로 다시 나눈다 (겹침은 그대로) */
+export function mergeBlocksById(
+  current: Record<string, Block[]>,
+  incoming: Record<string, Block[]>
+): Record<string, Block[]> {
+  const merged = mergeById(
+    Object.values(current).flat(),
+    Object.values(incoming).flat(),
+    (b) => b.id,
+    (b) => b.updatedAt
+  );
+  const out: Record<string, Block[]> = {};
+  for (const block of merged) {
+    (out[block.dateISO] ||= []).push(block);
+  }
+  for (const list of Object.values(out)) {
+    list.sort((a, b) => a.startMin - b.startMin);
+  }
+  return out;
+}
+
+/**
+ * 합친 블록을 스토어 쓰기와 같은 정규화(writeBlocksAcrossDays)에 통과시킨다
+ * 오래전에 고친 블록부터 쓰므로, 같은 레이어에서 겹치면 더 최근에 고친 블록이 자리를 차지한다.
+ */
+export function normalizeMergedBlocks(blocksByDate: Record<string, Block[]>): Record<string, Block[]> {
+  const ordered = Object.values(blocksByDate)
+    .flat()
+    .sort((a, b) => a.updatedAt - b.updatedAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const out: Record<string, Block[]> = {};
+  for (const [dateISO, list] of Object.entries(writeBlocksAcrossDays({}, ordered))) {
+    if (list.length > 0) out[dateISO] = list;
+  }
+  return out;
+}
+
+const segmentMoodKey = (m: SegmentMoodLog) => `${m.layer}:${m.activityId}:${m.startMin}-${m.endMin}`;
+
+/**
+ * 현재 state와 백업 state를 전략에 따라 합친다
+ * - replace: 백업으로 통째로 교체
+ * - merge: 엔티티 id별로 updatedAt(없으면 createdAt 등)이 더 최근인 쪽을 남긴다.
+ *   activity는 현재 목록을 유지하고 없는 것만 추가, 설정(startHour/timeZone/theme)은 현재 값 유지.
+ *   블록은 합친 뒤 같은 레이어 겹침을 정규화한다 (normalizeMergedBlocks).
+ */
+export function restoreState(
+  current: PersistedStateV2,
+  incoming: PersistedStateV2,
+  strategy: RestoreStrategy
+): PersistedStateV2 {
+  if (strategy === "replace") {
+    return { ...incoming, version: 2, schemaVersion: CURRENT_SCHEMA_VERSION };
+  }
+
+  const weekPlans: PersistedStateV2["weekPlans"] = { ...current.weekPlans };
+  for (const [weekKey, plan] of Object.entries(incoming.weekPlans || {})) {
+    const existing = weekPlans[weekKey];
+    weekPlans[weekKey] = existing
+      ? { weekKey, blocks: mergeById(existing.blocks, plan.blocks, (b) => b.id, (b) => b.updatedAt) }
+      : plan;
+  }
+
+  return {
+    ...current,
+    version: 2,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    activities: mergeById(current.activities, incoming.activities, (a) => a.id, () => 0),
+    blocksByDate: normalizeMergedBlocks(mergeBlocksById(current.blocksByDate, incoming.blocksByDate)),
+    weekPlans,
+    // 고정 일정은 id가 없어 항목 단위로 합칠 수 없다 → 현재 값이 비어 있을 때만 가져온다
+    fixedSchedule: current.fixedSchedule.length > 0 ? current.fixedSchedule : incoming.fixedSchedule,
+    templateAppliesByDate: mergeDateLists(current.templateAppliesByDate, incoming.templateAppliesByDate, (t) => t.id, (t) => t.appliedAt),
+    dailyStateByDate: mergeDateRecords(current.dailyStateByDate, incoming.dailyStateByDate, (d) => d.recordedAt),
+    completionEventsByDate: mergeDateLists(current.completionEventsByDate, incoming.completionEventsByDate, (e) => e.id, (e) => e.createdAt),
+    indicatorsByDate: mergeDateLists(current.indicatorsByDate, incoming.indicatorsByDate, (i) => i.id, (i) => i.createdAt),
+    checklistByDate: mergeDateLists(current.checklistByDate, incoming.checklistByDate, (c) => c.id, (c) => c.updatedAt),
+    checklistBlocksByDate: mergeDateLists(current.checklistBlocksByDate, incoming.checklistBlocksByDate, (c) => c.id, (c) => c.updatedAt),
+    memosByDate: mergeDateLists(current.memosByDate, incoming.memosByDate, (m) => m.id, (m) => m.updatedAt ?? m.createdAt),
+    voiceCommandLogsByDate: mergeDateLists(current.voiceCommandLogsByDate, incoming.voiceCommandLogsByDate, (v) => v.id, (v) => v.createdAt),
+    sleepByDate: mergeDateRecords(current.sleepByDate, incoming.sleepByDate, (s) => s.updatedAt),
+    dayMoodByDate: mergeDateRecords(current.dayMoodByDate, incoming.dayMoodByDate, (d) => d.updatedAt),
+    segmentMoodsByDate: mergeDateLists(current.segmentMoodsByDate, incoming.segmentMoodsByDate, segmentMoodKey, (m) => m.updatedAt),
+    importKeywordRules: mergeById(current.importKeywordRules || [], incoming.importKeywordRules || [], (r) => r.id, () => 0),
+  };
+}
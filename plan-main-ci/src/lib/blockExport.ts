@@ -0,0 +1,147 @@
+import type { Activity, Block, Layer } from "./types";
+import { toCsv, type CsvValue } from "./csv";
+import { addDaysISO, eachDateInRange } from "./time";
+import { projectBlocksOntoDay } from "./daySpans";
+
+/**
+ * Blocks CSV Export (README §8.1)
+ * 필수: dateISO, startMin, endMin, activityId, layer, source
+ * 옵션: resistance, extension.extendedByMin (항상 포함) + 아래 선택 컬럼
+ * 자정을 넘는 블록은 날짜마다 한 행으로 나눠 쓴다 (날짜별 합계가 맞도록)
+ * dayStartMin이 있으면 날짜는 논리적 하루(그 시각 ~ 다음 날 같은 시각)이고,
+ * startMin/endMin은 그 날짜 00:00 기준이라 다음 날 새벽은 1440 이상이다
+ */
+
+export type BlockCsvOptionalColumn = "score" | "title" | "paintStyle" | "planRef";
+
+export const BLOCK_CSV_OPTIONAL_COLUMNS: { id: BlockCsvOptionalColumn; label: string }[] = [
+  { id: "score", label: "점수 (score)" },
+  { id: "title", label: "제목 (title)" },
+  { id: "paintStyle", label: "칠 스타일 (paintStyle)" },
+  { id: "planRef", label: "계획 연결 (planRef)" },
+];
+
+export interface BlockCsvOptions {
+  fromISO: string;
+  toISO: string;
+  layers?: Layer[];
+  optionalColumns?: BlockCsvOptionalColumn[];
+  bom?: boolean;
+  /** 논리적 하루 시작 (분, 기본 0 = 자정) */
+  dayStartMin?: number;
+}
+
+const BASE_COLUMNS = [
+  "dateISO",
+  "startMin",
+  "endMin",
+  "activityId",
+  "activityName",
+  "activityColor",
+  "layer",
+  "source",
+  "resistance",
+  "extendedByMin",
+];
+
+const OPTIONAL_COLUMN_HEADERS: Record<BlockCsvOptionalColumn, string[]> = {
+  score: ["score"],
+  title: ["title"],
+  paintStyle: ["paintStyle"],
+  planRef: ["planBlockId", "planMatchRule", "planMatchScore"],
+};
+
+function optionalValues(block: Block, column: BlockCsvOptionalColumn): CsvValue[] {
+  switch (column) {
+    case "score":
+      return [block.score];
+    case "title":
+      return [block.title];
+    case "paintStyle":
+      return [block.paintStyle];
+    case "planRef":
+      return [block.planRef?.planBlockId, block.planRef?.matchRule, block.planRef?.matchScore];
+  }
+}
+
+/**
+ * 날짜 범위(양 끝 포함)에서 시작하는 블록을 날짜 → 시작 시각 → 레이어 순으로 정렬해서 반환
+ * dayStartMin 이전에 시작한 블록은 전날(논리적 하루)에 속한다
+ */
+export function collectBlocksInRange(
+  blocksByDate: Record<string, Block[]>,
+  fromISO: string,
+  toISO: string,
+  layers?: Layer[],
+  dayStartMin = 0
+): Block[] {
+  const out: Block[] = [];
+  for (const dateISO of eachDateInRange(fromISO, dayStartMin > 0 ? addDaysISO(toISO, 1) : toISO)) {
+    const list = blocksByDate[dateISO];
+    if (!list) continue;
+    const filtered = list.filter((b) => {
+      const logicalISO = b.startMin < dayStartMin ? addDaysISO(dateISO, -1) : dateISO;
+      return logicalISO >= fromISO && logicalISO <= toISO && (!layers || layers.includes(b.layer));
+    });
+    out.push(
+      ...[...filtered].sort((a, b) => a.startMin - b.startMin || a.layer.localeCompare(b.layer))
+    );
+  }
+  return out;
+}
+
+/**
+ * 날짜 범위의 블록을 (논리적) 날짜별 조각으로 (범위 앞 날짜에서 넘어온 블록 포함, dateISO/시간은 조각 기준)
+ */
+export function collectBlockSlicesInRange(
+  blocksByDate: Record<string, Block[]>,
+  fromISO: string,
+  toISO: string,
+  layers?: Layer[],
+  dayStartMin = 0
+): Block[] {
+  return eachDateInRange(fromISO, toISO).flatMap((dateISO) =>
+    projectBlocksOntoDay(blocksByDate, dateISO, dayStartMin).filter((b) => !layers || layers.includes(b.layer))
+  );
+}
+
+export function blocksToCsv(
+  blocksByDate: Record<string, Block[]>,
+  activities: Activity[],
+  options: BlockCsvOptions
+): string {
+  const activityMap = new Map(activities.map((a) => [a.id, a]));
+  const optional = BLOCK_CSV_OPTIONAL_COLUMNS.map((c) => c.id).filter((id) =>
+    options.optionalColumns?.includes(id)
+  );
+
+  const header = [...BASE_COLUMNS, ...optional.flatMap((c) => OPTIONAL_COLUMN_HEADERS[c])];
+  const rows = collectBlockSlicesInRange(
+    blocksByDate,
+    options.fromISO,
+    options.toISO,
+    options.layers,
+    options.dayStartMin
+  ).map((block) => {
+    const activity = activityMap.get(block.activityId);
+    return [
+      block.dateISO,
+      block.startMin,
+      block.endMin,
+      block.activityId,
+      activity?.name,
+      activity?.color,
+      block.layer,
+      block.source,
+      block.resistance,
+      block.extension?.extendedByMin,
+      ...optional.flatMap((c) => optionalValues(block, c)),
+    ];
+  });
+
+  return toCsv(header, rows, { bom: options.bom });
+}
+
+export function blocksCsvFilename(fromISO: string, toISO: string): string {
+  return fromISO === toISO ? `blocks_${fromISO}.csv` : `blocks_${fromISO}_${toISO}.csv`;
+}
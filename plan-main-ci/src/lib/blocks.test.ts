@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { coalesceBlocks, normalizeBlocks, resolveOverlaps } from "./blocks";
+import { writeBlocksAcrossDays } from "./daySpans";
+import type { Block } from "./types";
+
+function block(id: string, startMin: number, endMin: number, extra: Partial<Block> = {}): Block {
+  return {
+    id,
+    dateISO: "2026-03-02",
+    startMin,
+    endMin,
+    activityId: "work",
+    layer: "execute",
+    source: "drag",
+    createdAt: 1,
+    updatedAt: 1,
+    ...extra,
+  };
+}
+
+const spans = (blocks: Block[] | undefined) => (blocks || []).map((b) => [b.id, b.startMin, b.endMin]);
+
+describe("resolveOverlaps", () => {
+  it("같은 레이어 블록만 앞/뒤를 자르거나 가운데를 나눈다", () => {
+    const result = resolveOverlaps(
+      [block("a", 540, 660), block("covered", 600, 620), block("plan", 540, 660, { layer: "plan" })],
+      { layer: "execute", startMin: 590, endMin: 630 }
+    );
+
+    expect(spans(result).map(([, start, end]) => [start, end])).toEqual([
+      [540, 590],
+      [630, 660],
+      [540, 660],
+    ]);
+    expect(result[0].id).toBe("a");
+    expect(result[1].id).not.toBe("a");
+  });
+});
+
+describe("coalesceBlocks", () => {
+  it("칠한 셀처럼 맞닿거나 겹치는 같은 활동 블록을 먼저 시작한 블록 하나로 합친다", () => {
+    const cells = [block("c2", 550, 560, { updatedAt: 3 }), block("c1", 540, 550), block("c3", 555, 570)];
+    const result = coalesceBlocks(cells);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ id: "c1", startMin: 540, endMin: 570, updatedAt: 3 });
+  });
+
+  it("활동, 레이어, 블록별 정보가 다르거나 떨어져 있으면 합치지 않는다", () => {
+    const result = coalesceBlocks([
+      block("a", 540, 600),
+      block("other", 600, 660, { activityId: "rest" }),
+      block("plan", 600, 660, { layer: "plan" }),
+      block("titled", 600, 660, { title: "회의" }),
+      block("gap", 610, 620),
+      block("imported", 620, 630, { importRef: { uid: "x" } }),
+    ]);
+
+    expect(result.map((b) => b.id)).toEqual(["a", "other", "plan", "titled", "gap", "imported"]);
+  });
+});
+
+describe("normalizeBlocks", () => {
+  it("쓴 블록이 자리를 차지한 뒤 같은 활동끼리 합친다", () => {
+    const result = normalizeBlocks(
+      [block("a", 540, 600), block("b", 600, 660, { activityId: "rest" })],
+      [block("written", 600, 630)]
+    );
+
+    expect(spans(result)).toEqual([
+      ["a", 540, 630],
+      ["b", 630, 660],
+    ]);
+  });
+
+  it("자정에서 맞닿은 같은 활동 블록도 합친다 (여러 날 쓰기)", () => {
+    const dawn = block("dawn", 0, 30, { dateISO: "2026-03-03" });
+    const changed = writeBlocksAcrossDays({ "2026-03-03": [dawn] }, [block("night", 1410, 1440)]);
+
+    expect(spans(changed["2026-03-02"])).toEqual([["night", 1410, 1470]]);
+    expect(changed["2026-03-03"]).toEqual([]);
+  });
+});
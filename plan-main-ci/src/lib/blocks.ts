@@ -59,6 +59,8 @@ export function resolveOverlaps(
   excludeId?: string
 ): Block[] {
   const result: Block[] = [];
+  // 잘린 블록도 수정된 것이다 (기기 간 병합에서 updatedAt으로 판단)
+  const now = Date.now();
 
   for (const block of blocks) {
     // 다른 레이어거나 exclude 대상이면 그대로 유지
@@ -80,23 +82,25 @@ export function resolveOverlaps(
 
     // 앞부분만 남김
     if (newBlock.startMin > block.startMin && newBlock.endMin >= block.endMin) {
-      result.push({ ...block, endMin: newBlock.startMin });
+      result.push({ ...block, endMin: newBlock.startMin, updatedAt: now });
       continue;
     }
 
     // 뒷부분만 남김
     if (newBlock.startMin <= block.startMin && newBlock.endMin < block.endMin) {
-      result.push({ ...block, startMin: newBlock.endMin });
+      result.push({ ...block, startMin: newBlock.endMin, updatedAt: now });
       continue;
     }
 
     // 중간 분할 (기존 블록을 두 개로)
     if (newBlock.startMin > block.startMin && newBlock.endMin < block.endMin) {
-      result.push({ ...block, endMin: newBlock.startMin });
+      result.push({ ...block, endMin: newBlock.startMin, updatedAt: now });
       result.push({
         ...block,
         id: generateId(),
         startMin: newBlock.endMin,
+        createdAt: now,
+        updatedAt: now,
       });
       continue;
     }
@@ -145,21 +149,81 @@ export function eraseRange(
   return resolveOverlaps(blocks, { layer, startMin, endMin });
 }
 
+/**
+ * 같은 레이어·활동의 블록이 맞닿거나 겹치면 하나로 합칠 수 있는지
+ * 제목·점수·계획 연결·가져오기 원본 등 블록별 정보가 다르면 합치지 않는다
+ */
+export function canCoalesce(a: Block, b: Block): boolean {
+  return (
+    a.layer === b.layer &&
+    a.activityId === b.activityId &&
+    a.title === b.title &&
+    a.paintStyle === b.paintStyle &&
+    a.resistance === b.resistance &&
+    a.score === b.score &&
+    a.emoji === b.emoji &&
+    a.planRef?.planBlockId === b.planRef?.planBlockId &&
+    !a.extension &&
+    !b.extension &&
+    !a.importRef &&
+    !b.importRef
+  );
+}
+
+/**
+ * 맞닿거나 겹치는 같은 활동 블록 합치기 (칠한 한 시간 = 블록 1개)
+ * 먼저 시작한 블록의 id를 남긴다
+ */
+export function coalesceBlocks(blocks: Block[]): Block[] {
+  const sorted = [...blocks].sort((a, b) => a.startMin - b.startMin);
+  const result: Block[] = [];
+  const lastByLayer = new Map<Layer, number>();
+
+  for (const block of sorted) {
+    const lastIndex = lastByLayer.get(block.layer);
+    const last = lastIndex === undefined ? undefined : result[lastIndex];
+    if (last && block.startMin <= last.endMin && canCoalesce(last, block)) {
+      result[lastIndex!] = {
+        ...last,
+        endMin: Math.max(last.endMin, block.endMin),
+        updatedAt: Math.max(last.updatedAt, block.updatedAt),
+      };
+      continue;
+    }
+    lastByLayer.set(block.layer, result.length);
+    result.push(block);
+  }
+
+  return result;
+}
+
+/**
+ * 스토어 쓰기 공통 정규화: 쓴 블록이 같은 레이어의 자리를 차지하고, 같은 활동끼리 합친다
+ */
+export function normalizeBlocks(blocks: Block[], written: Block[] = []): Block[] {
+  let next = blocks;
+  for (const block of written) {
+    next = addBlock(next, block);
+  }
+  return coalesceBlocks(next);
+}
+
 /**
  * Select tool용 - 1분 정밀도로 시간 계산
+ * 논리적 하루 좌표 (startHour*60 ~ startHour*60+1439, 다음 날 새벽은 1440 이상)
  */
 export function minuteFromPointer(
   hourRow: number,
   startHour: number,
   xRatio: number
 ): number {
-  const hour = (startHour + hourRow) % 24;
+  const hour = startHour + hourRow;
   const minute = Math.floor(xRatio * 60);
   return hour * 60 + Math.min(59, Math.max(0, minute));
 }
 
 /**
- * Drag tool용 - 10분 셀 기준 시간 계산
+ * Drag tool용 - 10분 셀 기준 시간 계산 (논리적 하루 좌표, minuteFromPointer와 같음)
  */
 export function cellTimeRange(
   startRow: number,
@@ -173,8 +237,8 @@ export function cellTimeRange(
   const c1 = Math.min(startCol, endCol);
   const c2 = Math.max(startCol, endCol);
 
-  const startHr = (startHour + r1) % 24;
-  const endHr = (startHour + r2) % 24;
+  const startHr = startHour + r1;
+  const endHr = startHour + r2;
 
   const startMin = startHr * 60 + c1 * 10;
   const endMin = endHr * 60 + (c2 + 1) * 10;
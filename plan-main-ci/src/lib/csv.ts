@@ -0,0 +1,87 @@
+/**
+ * RFC 4180 CSV 직렬화
+ * - 필드 구분: 쉼표, 레코드 구분: CRLF
+ * - 쉼표/큰따옴표/개행이 들어간 필드는 큰따옴표로 감싸고 내부 큰따옴표는 두 번 쓴다
+ */
+
+const CSV_LINE_BREAK = "\r\n";
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function toCsvLine(values: CsvValue[]): string {
+  return values.map(escapeCsvField).join(",");
+}
+
+/**
+ * 헤더 + 행 → CSV 문자열
+ * @param bom true면 UTF-8 BOM을 붙인다 (Excel에서 한글이 깨지지 않도록)
+ */
+export function toCsv(header: string[], rows: CsvValue[][], options: { bom?: boolean } = {}): string {
+  const lines = [toCsvLine(header), ...rows.map(toCsvLine)];
+  const body = lines.join(CSV_LINE_BREAK) + CSV_LINE_BREAK;
+  return options.bom ? `\uFEFF${body}` : body;
+}
+
+/**
+ * CSV 문자열 → 레코드 배열 (RFC 4180)
+ * - 따옴표 안의 구분자/개행, "" 이스케이프, CRLF/LF, UTF-8 BOM을 처리한다
+ * - 빈 줄은 건너뛴다
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/** 첫 줄에서 가장 많이 나오는 구분자 (쉼표/세미콜론/탭) */
+export function detectCsvDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ",");
+}
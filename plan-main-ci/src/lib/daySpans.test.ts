@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  blockEndDateISO,
+  eraseSpanAcrossDays,
+  projectBlocksOntoDay,
+  rehomeBlock,
+  sliceBlocksForWindow,
+  writeBlocksAcrossDays,
+} from "./daySpans";
+import type { Block } from "./types";
+
+function block(id: string, dateISO: string, startMin: number, endMin: number, activityId = "sleep"): Block {
+  return {
+    id,
+    dateISO,
+    startMin,
+    endMin,
+    activityId,
+    layer: "execute",
+    source: "manual",
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+// 3/1 22:00 ~ 3/2 02:00
+const overnight = block("night", "2026-03-01", 1320, 1560);
+
+const spans = (blocks: Block[] | undefined) => (blocks || []).map((b) => [b.id, b.startMin, b.endMin]);
+
+describe("자정을 넘는 블록", () => {
+  it("시작 날짜 한 곳에 저장하고 끝 날짜를 계산한다", () => {
+    expect(blockEndDateISO(overnight)).toBe("2026-03-02");
+    expect(blockEndDateISO(block("a", "2026-03-01", 1320, 1440))).toBe("2026-03-01");
+  });
+
+  it("날짜마다 그날 구간으로 잘라 보여 준다", () => {
+    const blocksByDate = { "2026-03-01": [overnight] };
+
+    const [before] = sliceBlocksForWindow(blocksByDate, "2026-03-01");
+    expect(before).toMatchObject({ startMin: 1320, endMin: 1440, continuesBefore: false, continuesAfter: true });
+
+    const [after] = sliceBlocksForWindow(blocksByDate, "2026-03-02");
+    expect(after).toMatchObject({ startMin: 0, endMin: 120, continuesBefore: true, continuesAfter: false });
+    expect(after.block).toBe(overnight);
+  });
+
+  it("startHour로 밀린 구간에서는 다음 날 새벽까지 한 조각으로 본다", () => {
+    const [slice] = sliceBlocksForWindow({ "2026-03-01": [overnight] }, "2026-03-01", 360);
+
+    expect(slice).toMatchObject({ startMin: 1320, endMin: 1560, continuesAfter: false });
+  });
+
+  it("렌더링용 복사본은 원본 id를 유지한 채 그날 좌표로 옮긴다", () => {
+    const [projected] = projectBlocksOntoDay({ "2026-03-01": [overnight] }, "2026-03-02");
+
+    expect(projected).toMatchObject({ id: "night", dateISO: "2026-03-02", startMin: 0, endMin: 120 });
+  });
+
+  it("다음 날 구간을 지우면 앞 날짜 블록이 잘리고 남은 뒷조각은 다음 날로 옮겨진다", () => {
+    const changed = eraseSpanAcrossDays({ "2026-03-01": [overnight] }, "2026-03-02", {
+      layer: "execute",
+      startMin: 0,
+      endMin: 60,
+    });
+
+    expect(spans(changed["2026-03-01"])).toEqual([["night", 1320, 1440]]);
+    expect(changed["2026-03-02"]).toHaveLength(1);
+    expect(changed["2026-03-02"][0]).toMatchObject({ dateISO: "2026-03-02", startMin: 60, endMin: 120 });
+  });
+
+  it("다음 날 블록 위에 쓰면 그 날짜의 같은 레이어 자리도 차지한다", () => {
+    const morning = block("morning", "2026-03-02", 60, 180, "work");
+
+    const changed = writeBlocksAcrossDays({ "2026-03-02": [morning] }, [overnight]);
+    expect(spans(changed["2026-03-01"])).toEqual([["night", 1320, 1560]]);
+    expect(spans(changed["2026-03-02"])).toEqual([["morning", 120, 180]]);
+  });
+
+  it("startMin이 하루를 넘으면 시작 날짜로 옮겨 저장한다", () => {
+    const moved = rehomeBlock(block("late", "2026-03-01", 1500, 1560));
+    expect(moved).toMatchObject({ dateISO: "2026-03-02", startMin: 60, endMin: 120 });
+
+    const changed = writeBlocksAcrossDays({}, [block("late", "2026-03-01", 1500, 1560)]);
+    expect(changed["2026-03-01"]).toBeUndefined();
+    expect(spans(changed["2026-03-02"])).toEqual([["late", 60, 120]]);
+  });
+
+  it("자정을 넘겨 칠하면 앞 날짜에 블록 하나로 합쳐진다", () => {
+    // 23:40 → 00:20을 10분 셀마다 칠한다 (다음 날 새벽 셀은 앞 날짜 좌표 1440 이상으로 들어온다)
+    let blocksByDate: Record<string, Block[]> = {};
+    for (const startMin of [1420, 1430, 1440, 1450]) {
+      const cell = block(`cell-${startMin}`, "2026-03-01", startMin, startMin + 10);
+      blocksByDate = { ...blocksByDate, ...writeBlocksAcrossDays(blocksByDate, [cell]) };
+    }
+
+    expect(spans(blocksByDate["2026-03-01"])).toEqual([["cell-1420", 1420, 1460]]);
+    expect(blocksByDate["2026-03-02"]).toEqual([]);
+  });
+
+  it("다음 날 00:00에 시작하는 같은 활동 블록은 자정까지 칠한 블록에 흡수된다", () => {
+    const changed = writeBlocksAcrossDays({ "2026-03-02": [block("dawn", "2026-03-02", 0, 60)] }, [
+      block("evening", "2026-03-01", 1380, 1440),
+    ]);
+
+    expect(spans(changed["2026-03-01"])).toEqual([["evening", 1380, 1500]]);
+    expect(changed["2026-03-02"]).toEqual([]);
+  });
+
+  it("활동이나 레이어가 다르면 자정에서 맞닿아도 합치지 않는다", () => {
+    const dawn = block("dawn", "2026-03-02", 0, 60, "work");
+    const dawnPlan = { ...block("dawn-plan", "2026-03-02", 0, 60), layer: "plan" as const };
+    const changed = writeBlocksAcrossDays({ "2026-03-02": [dawn, dawnPlan] }, [
+      block("evening", "2026-03-01", 1380, 1440),
+    ]);
+
+    expect(spans(changed["2026-03-01"])).toEqual([["evening", 1380, 1440]]);
+    expect(changed["2026-03-02"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,257 @@
+import type { Block, Layer } from "./types";
+import { canCoalesce, normalizeBlocks, resolveOverlaps } from "./blocks";
+import { addDaysISO, daysBetweenISO, eachDateInRange } from "./time";
+
+/**
+ * 자정을 넘는 / 여러 날에 걸친 블록
+ * 블록은 시작 날짜(dateISO) 한 곳에만 저장한다. startMin은 0~1439,
+ * endMin은 dateISO 00:00 기준 분이라 1440을 넘으면 다음 날로 이어진다 (최대 MAX_BLOCK_SPAN_DAYS일).
+ * 날짜별 화면·내보내기·분석은 여기 함수로 날짜 구간에 맞게 잘라서 쓴다.
+ */
+
+export const DAY_MINUTES = 24 * 60;
+export const MAX_BLOCK_SPAN_DAYS = 7;
+export const MAX_BLOCK_END_MIN = MAX_BLOCK_SPAN_DAYS * DAY_MINUTES;
+
+/** 날짜 구간에 잘라 넣은 블록 조각 */
+export interface BlockSlice {
+  block: Block;
+  /** startMin/endMin의 기준 날짜 */
+  dateISO: string;
+  startMin: number;
+  endMin: number;
+  /** 구간 앞/뒤로 블록이 이어지는지 */
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+type TimeSpan = { layer: Layer; startMin: number; endMin: number };
+type BlockLookup = (dateISO: string) => Block[] | undefined;
+
+/**
+ * 블록 시간을 다른 날짜 00:00 기준 분으로 (자르지 않음)
+ */
+export function shiftBlockToDate(block: Block, dateISO: string): { startMin: number; endMin: number } {
+  const offset = daysBetweenISO(dateISO, block.dateISO) * DAY_MINUTES;
+  return { startMin: block.startMin + offset, endMin: block.endMin + offset };
+}
+
+/**
+ * 블록이 걸쳐 있는 마지막 날짜
+ */
+export function blockEndDateISO(block: Block): string {
+  return addDaysISO(block.dateISO, Math.floor((block.endMin - 1) / DAY_MINUTES));
+}
+
+/**
+ * fromISO ~ toISO 구간을 보거나 고칠 때 불러와야 하는 날짜 (앞 날짜에서 넘어오는 블록까지)
+ */
+export function datesToLoadFor(fromISO: string, toISO: string): string[] {
+  return eachDateInRange(addDaysISO(fromISO, 1 - MAX_BLOCK_SPAN_DAYS), toISO);
+}
+
+/**
+ * 블록들이 걸친 날짜 범위에 대해 datesToLoadFor
+ */
+export function datesToLoadForBlocks(blocks: Block[]): string[] {
+  if (blocks.length === 0) return [];
+  const from = blocks.reduce((min, b) => (b.dateISO < min ? b.dateISO : min), blocks[0].dateISO);
+  const to = blocks.reduce((max, b) => {
+    const end = blockEndDateISO(b);
+    return end > max ? end : max;
+  }, blockEndDateISO(blocks[0]));
+  return datesToLoadFor(from, to);
+}
+
+/**
+ * startMin이 0~1439를 벗어난 블록을 시작 날짜로 옮긴다
+ */
+export function rehomeBlock(block: Block): Block {
+  const days = Math.floor(block.startMin / DAY_MINUTES);
+  if (days === 0) return block;
+  return {
+    ...block,
+    dateISO: addDaysISO(block.dateISO, days),
+    startMin: block.startMin - days * DAY_MINUTES,
+    endMin: block.endMin - days * DAY_MINUTES,
+  };
+}
+
+/** dateISO 기준 [fromMin, toMin) 구간에 걸칠 수 있는 블록이 저장된 날짜들 */
+function candidateDates(dateISO: string, fromMin: number, toMin: number): string[] {
+  const firstOffset = Math.floor((fromMin - MAX_BLOCK_END_MIN) / DAY_MINUTES) + 1;
+  const lastOffset = Math.floor((toMin - 1) / DAY_MINUTES);
+  const out: string[] = [];
+  for (let offset = firstOffset; offset <= lastOffset; offset++) {
+    out.push(addDaysISO(dateISO, offset));
+  }
+  return out;
+}
+
+function sliceWindow(
+  lookup: BlockLookup,
+  dateISO: string,
+  windowStartMin: number,
+  windowEndMin: number
+): BlockSlice[] {
+  const slices: BlockSlice[] = [];
+  for (const key of candidateDates(dateISO, windowStartMin, windowEndMin)) {
+    for (const block of lookup(key) || []) {
+      const { startMin, endMin } = shiftBlockToDate(block, dateISO);
+      if (startMin >= windowEndMin || endMin <= windowStartMin) continue;
+      slices.push({
+        block,
+        dateISO,
+        startMin: Math.max(startMin, windowStartMin),
+        endMin: Math.min(endMin, windowEndMin),
+        continuesBefore: startMin < windowStartMin,
+        continuesAfter: endMin > windowEndMin,
+      });
+    }
+  }
+  return slices.sort((a, b) => a.startMin - b.startMin || a.block.layer.localeCompare(b.block.layer));
+}
+
+/**
+ * dateISO 기준 [windowStartMin, windowEndMin) 구간에 걸친 블록 조각 (앞 날짜에서 넘어온 블록 포함)
+ * 구간이 00:00에서 시작하지 않으면 (예: startHour 06:00 → 360~1800) 좌표가 1440을 넘을 수 있다
+ */
+export function sliceBlocksForWindow(
+  blocksByDate: Record<string, Block[]>,
+  dateISO: string,
+  windowStartMin = 0,
+  windowEndMin = windowStartMin + DAY_MINUTES
+): BlockSlice[] {
+  return sliceWindow((d) => blocksByDate[d], dateISO, windowStartMin, windowEndMin);
+}
+
+/**
+ * 렌더링용: 구간에 걸친 블록을 dateISO 좌표로 잘라낸 복사본 (원본 id 유지)
+ */
+export function projectBlocksOntoDay(
+  blocksByDate: Record<string, Block[]>,
+  dateISO: string,
+  windowStartMin = 0
+): Block[] {
+  return sliceBlocksForWindow(blocksByDate, dateISO, windowStartMin).map((slice) =>
+    !slice.continuesBefore && !slice.continuesAfter && slice.block.dateISO === dateISO
+      ? slice.block
+      : { ...slice.block, dateISO, startMin: slice.startMin, endMin: slice.endMin }
+  );
+}
+
+/**
+ * dateISO 기준 span 구간을 같은 레이어의 모든 날짜 블록에서 비운다
+ * (앞 날짜에서 넘어온 블록과 다음 날짜 블록까지). 바뀐 날짜의 목록만 돌려준다.
+ */
+function clearSpan(lookup: BlockLookup, dateISO: string, span: TimeSpan): Record<string, Block[]> {
+  const changed: Record<string, Block[]> = {};
+  const moved: Block[] = [];
+
+  for (const key of candidateDates(dateISO, span.startMin, span.endMin)) {
+    const list = lookup(key);
+    if (!list) continue;
+    const offset = daysBetweenISO(dateISO, key) * DAY_MINUTES;
+    // span을 이 날짜 좌표로 옮겨 자르고, 잘린 뒷조각이 다음 날에서 시작하면 그 날짜로 옮긴다
+    const local = { layer: span.layer, startMin: span.startMin - offset, endMin: span.endMin - offset };
+    const resolved = resolveOverlaps(list, local);
+    if (resolved.length === list.length && resolved.every((b, i) => b === list[i])) continue;
+    changed[key] = resolved.filter((b) => {
+      if (b.startMin < DAY_MINUTES) return true;
+      moved.push(rehomeBlock(b));
+      return false;
+    });
+  }
+
+  for (const block of moved) {
+    const list = changed[block.dateISO] ?? lookup(block.dateISO) ?? [];
+    changed[block.dateISO] = [...list, block].sort((a, b) => a.startMin - b.startMin);
+  }
+  return changed;
+}
+
+/**
+ * Erase: dateISO 기준 구간을 지운다 (자정을 넘는 블록도 함께 잘린다)
+ */
+export function eraseSpanAcrossDays(
+  blocksByDate: Record<string, Block[]>,
+  dateISO: string,
+  span: TimeSpan
+): Record<string, Block[]> {
+  return clearSpan((d) => blocksByDate[d], dateISO, span);
+}
+
+/**
+ * 날짜 경계에서 맞닿은 같은 활동 블록을 앞 날짜 블록 하나로 합친다 (coalesceBlocks는 한 날짜 목록 안에서만 합친다)
+ * written을 덮은 블록을 앞 날짜에서 넘어온 블록에 붙이고, 그 끝에 닿는 다음 날짜 블록을 흡수한다.
+ */
+function joinAcrossMidnight(lookup: BlockLookup, changed: Record<string, Block[]>, written: Block): void {
+  const replace = (key: string, id: string, next?: Block) => {
+    changed[key] = (lookup(key) || []).flatMap((b) => (b.id !== id ? [b] : next ? [next] : []));
+  };
+  const merge = (head: Block, tail: Block, endMin: number): Block => ({
+    ...head,
+    endMin: Math.max(head.endMin, endMin),
+    updatedAt: Math.max(head.updatedAt, tail.updatedAt),
+  });
+
+  let current = lookup(written.dateISO)?.find(
+    (b) => b.layer === written.layer && b.startMin <= written.startMin && b.endMin >= written.endMin
+  );
+  if (!current) return;
+
+  for (let days = 1; days < MAX_BLOCK_SPAN_DAYS; days++) {
+    const key = addDaysISO(current.dateISO, -days);
+    const offset = days * DAY_MINUTES;
+    const tail: Block = current;
+    const head = lookup(key)?.find(
+      (b) =>
+        b.layer === tail.layer &&
+        b.endMin - offset >= tail.startMin &&
+        tail.endMin + offset <= MAX_BLOCK_END_MIN &&
+        canCoalesce(b, tail)
+    );
+    if (!head) continue;
+    replace(tail.dateISO, tail.id);
+    current = merge(head, tail, tail.endMin + offset);
+    replace(key, head.id, current);
+    break;
+  }
+
+  for (let days = 1; days <= Math.floor(current.endMin / DAY_MINUTES); days++) {
+    const key = addDaysISO(current.dateISO, days);
+    const offset = days * DAY_MINUTES;
+    const head: Block = current;
+    const tail = lookup(key)?.find(
+      (b) =>
+        b.layer === head.layer &&
+        b.startMin + offset <= head.endMin &&
+        b.endMin + offset <= MAX_BLOCK_END_MIN &&
+        canCoalesce(head, b)
+    );
+    if (!tail) continue;
+    replace(key, tail.id);
+    current = merge(head, tail, tail.endMin + offset);
+    replace(current.dateISO, current.id, current);
+  }
+}
+
+/**
+ * 블록 쓰기 정규화 (여러 날 기준): 쓴 블록이 걸친 모든 날짜에서 같은 레이어 자리를 차지하고,
+ * 같은 활동끼리 합친다 (자정에서 맞닿은 블록은 앞 날짜 블록 하나로). 바뀐 날짜의 목록만 돌려준다.
+ */
+export function writeBlocksAcrossDays(
+  blocksByDate: Record<string, Block[]>,
+  written: Block[]
+): Record<string, Block[]> {
+  const changed: Record<string, Block[]> = {};
+  const lookup: BlockLookup = (d) => changed[d] ?? blocksByDate[d];
+
+  for (const original of written) {
+    const block = rehomeBlock(original);
+    Object.assign(changed, clearSpan(lookup, block.dateISO, block));
+    changed[block.dateISO] = normalizeBlocks(lookup(block.dateISO) || [], [block]);
+    joinAcrossMidnight(lookup, changed, block);
+  }
+  return changed;
+}
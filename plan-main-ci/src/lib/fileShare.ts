@@ -0,0 +1,71 @@
+/**
+ * 텍스트 파일 내보내기
+ * - Android(Capacitor): Filesystem 플러그인으로 캐시 디렉터리에 쓰고 Share 시트로 전달
+ * - 웹: Blob 다운로드 (<a download>)
+ *
+ * Capacitor 패키지는 Android 빌드에서만 설치되므로 import 대신 런타임 전역(window.Capacitor)을 쓴다.
+ */
+
+interface CapacitorFilesystemPlugin {
+  writeFile(options: {
+    path: string;
+    data: string;
+    directory: string;
+    encoding: string;
+  }): Promise<{ uri: string }>;
+}
+
+interface CapacitorSharePlugin {
+  share(options: { title?: string; url?: string; dialogTitle?: string }): Promise<unknown>;
+}
+
+interface CapacitorGlobal {
+  isNativePlatform?: () => boolean;
+  Plugins?: {
+    Filesystem?: CapacitorFilesystemPlugin;
+    Share?: CapacitorSharePlugin;
+  };
+}
+
+export type FileShareResult = "shared" | "downloaded";
+
+function getCapacitor(): CapacitorGlobal | undefined {
+  return (window as unknown as { Capacitor?: CapacitorGlobal }).Capacitor;
+}
+
+function downloadInBrowser(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // 일부 브라우저는 click 직후 revoke하면 다운로드가 취소된다
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export async function saveTextFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): Promise<FileShareResult> {
+  const capacitor = getCapacitor();
+  const filesystem = capacitor?.Plugins?.Filesystem;
+  const share = capacitor?.Plugins?.Share;
+
+  if (capacitor?.isNativePlatform?.() && filesystem && share) {
+    const { uri } = await filesystem.writeFile({
+      path: filename,
+      data: content,
+      directory: "CACHE",
+      encoding: "utf8",
+    });
+    await share.share({ title: filename, url: uri, dialogTitle: filename });
+    return "shared";
+  }
+
+  downloadInBrowser(filename, content, mimeType);
+  return "downloaded";
+}
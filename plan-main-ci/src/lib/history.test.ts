@@ -0,0 +1,93 @@
+import { applyPatches, enablePatches, produceWithPatches } from "immer";
+import { describe, expect, it } from "vitest";
+import {
+  compactHistory,
+  createHistoryEntry,
+  historyBlockDates,
+  mergeHistoryPatches,
+  rebaseListPatches,
+  restoreHistory,
+  trimHistory,
+  type HistoryEntry,
+} from "./history";
+
+enablePatches();
+
+type Slices = { blocks: Record<string, { id: string; startMin: number }[]> };
+
+function entry(id: string, size: number): HistoryEntry {
+  return { ...createHistoryEntry(id, id, [], [], 1), size };
+}
+
+describe("history", () => {
+  it("합친 명령은 역패치를 거꾸로 적용해 처음 상태로 돌아간다", () => {
+    const start: Slices = { blocks: {} };
+    const [painted, p1, i1] = produceWithPatches(start, (draft) => {
+      draft.blocks["2026-03-02"] = [{ id: "a", startMin: 540 }];
+    });
+    const [resized, p2, i2] = produceWithPatches(painted, (draft) => {
+      draft.blocks["2026-03-02"][0].startMin = 600;
+    });
+
+    const merged = mergeHistoryPatches(createHistoryEntry("e", "그리기", p1, i1), p2, i2);
+    expect(applyPatches(resized, merged.inversePatches)).toEqual(start);
+    expect(applyPatches(start, merged.patches)).toEqual(resized);
+  });
+
+  it("한도를 넘으면 가장 오래된 past부터 버리되 마지막 명령은 남긴다", () => {
+    const past = [entry("1", 40), entry("2", 40), entry("3", 40)];
+
+    expect(trimHistory(past, [entry("f", 20)], 100).map((e) => e.id)).toEqual(["2", "3"]);
+    expect(trimHistory(past, [], 10).map((e) => e.id)).toEqual(["3"]);
+    expect(trimHistory(past, [], 1000)).toBe(past);
+  });
+
+  it("저장할 때는 최근 past와 바로 다음 future부터 개수 한도 안에서 고른다", () => {
+    const history = { past: [entry("1", 1), entry("2", 1), entry("3", 1)], future: [entry("4", 1), entry("5", 1)] };
+
+    const compact = compactHistory(history, 4);
+    expect(compact.past.map((e) => e.id)).toEqual(["1", "2", "3"]);
+    expect(compact.future.map((e) => e.id)).toEqual(["4"]);
+    expect(compactHistory(history, 2).past.map((e) => e.id)).toEqual(["2", "3"]);
+  });
+
+  it("저장본을 되살리고, 모양이 맞지 않으면 빈 기록으로 시작한다", () => {
+    const [, patches, inversePatches] = produceWithPatches({ blocks: {} } as Slices, (draft) => {
+      draft.blocks["2026-03-02"] = [];
+    });
+    const restored = restoreHistory({ past: [{ id: "e", label: "그리기", at: 1, patches, inversePatches }], future: [] });
+
+    expect(restored.past.map((e) => e.label)).toEqual(["그리기"]);
+    expect(historyBlockDates(restored)).toEqual(["2026-03-02"]);
+    expect(restoreHistory({ past: [{ id: 1 }], future: [] } as never)).toEqual({ past: [], future: [] });
+  });
+
+  it("되돌리기·다시 하기는 이 명령이 바꾼 블록만 건드리고 다른 탭이 같은 날짜에 더한 블록은 남긴다", () => {
+    const day = "2026-03-02";
+    const start: Slices = { blocks: { [day]: [{ id: "a", startMin: 540 }] } };
+    // 스토어처럼 날짜 목록을 통째로 바꾼다
+    const [edited, patches, inversePatches] = produceWithPatches(start, (draft) => {
+      draft.blocks[day] = [{ id: "a", startMin: 600 }, { id: "b", startMin: 660 }];
+    });
+    const foreign = { id: "other-tab", startMin: 900 };
+    const synced: Slices = { blocks: { [day]: [...edited.blocks[day], foreign] } };
+
+    const undone = applyPatches(synced, rebaseListPatches(inversePatches, patches, synced));
+    expect(undone.blocks[day]).toEqual([{ id: "a", startMin: 540 }, foreign]);
+
+    const redone = applyPatches(undone, rebaseListPatches(patches, inversePatches, undone));
+    expect(redone.blocks[day]).toEqual([{ id: "a", startMin: 600 }, foreign, { id: "b", startMin: 660 }]);
+  });
+
+  it("날짜 목록이 통째로 생기고 지워진 명령도 다른 탭 블록을 남기고 되돌린다", () => {
+    const day = "2026-03-02";
+    const [created, patches, inversePatches] = produceWithPatches({ blocks: {} } as Slices, (draft) => {
+      draft.blocks[day] = [{ id: "a", startMin: 540 }];
+    });
+    const foreign = { id: "other-tab", startMin: 900 };
+    const synced: Slices = { blocks: { [day]: [...created.blocks[day], foreign] } };
+
+    expect(applyPatches(synced, rebaseListPatches(inversePatches, patches, synced)).blocks[day]).toEqual([foreign]);
+    expect(applyPatches(created, rebaseListPatches(inversePatches, patches, created))).toEqual({ blocks: {} });
+  });
+});
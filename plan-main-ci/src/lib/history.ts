@@ -0,0 +1,228 @@
+import type { Patch } from "immer";
+import type { Activity, Block, PersistedHistory, PersistedHistoryEntry } from "./types";
+import { formatMinutesToTime } from "./blocks";
+
+/**
+ * 실행 취소 기록 (명령 단위, Immer 패치)
+ * 스토어 액션 하나(또는 드래그 같은 제스처 하나)가 명령 하나다. 명령이 만든 패치와 역패치를
+ * 라벨과 함께 남기고, undo는 역패치를, redo는 패치를 적용한다.
+ * 기록 전체의 크기(패치를 JSON으로 본 대략적인 바이트)가 한도를 넘으면 오래된 것부터 버린다.
+ */
+
+export const MAX_HISTORY_BYTES = 4 * 1024 * 1024;
+/** 상태와 함께 저장하는 기록 한도 (journal에도 매번 쓰므로 작게) */
+export const MAX_PERSISTED_HISTORY_ENTRIES = 20;
+export const MAX_PERSISTED_HISTORY_BYTES = 256 * 1024;
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: number;
+  patches: Patch[];
+  inversePatches: Patch[];
+  /** 대략적인 크기 (바이트) */
+  size: number;
+}
+
+/** 패치의 대략적인 메모리 크기 (JS 문자열은 문자당 2바이트) */
+export function estimatePatchSize(patches: Patch[]): number {
+  return JSON.stringify(patches).length * 2;
+}
+
+/**
+ * 되돌릴 슬라이스(path[0])에 대한 패치만 남긴다
+ */
+export function filterHistoryPatches(patches: Patch[], slices: ReadonlySet<string>): Patch[] {
+  return patches.filter((p) => slices.has(String(p.path[0])));
+}
+
+export function createHistoryEntry(
+  id: string,
+  label: string,
+  patches: Patch[],
+  inversePatches: Patch[],
+  at = Date.now()
+): HistoryEntry {
+  return { id, label, at, patches, inversePatches, size: estimatePatchSize(patches) + estimatePatchSize(inversePatches) };
+}
+
+/**
+ * 같은 제스처의 다음 명령을 기록에 합친다 (역패치는 반대 순서로 적용되어야 한다)
+ */
+export function mergeHistoryPatches(entry: HistoryEntry, patches: Patch[], inversePatches: Patch[]): HistoryEntry {
+  return {
+    ...entry,
+    patches: [...entry.patches, ...patches],
+    inversePatches: [...inversePatches, ...entry.inversePatches],
+    size: entry.size + estimatePatchSize(patches) + estimatePatchSize(inversePatches),
+  };
+}
+
+/**
+ * past + future 크기가 한도 안에 들도록 가장 오래된 past부터 버린다 (마지막 명령 하나는 남긴다)
+ */
+export function trimHistory(past: HistoryEntry[], future: HistoryEntry[], maxBytes = MAX_HISTORY_BYTES): HistoryEntry[] {
+  let total = [...past, ...future].reduce((sum, e) => sum + e.size, 0);
+  let drop = 0;
+  while (total > maxBytes && drop < past.length - 1) {
+    total -= past[drop].size;
+    drop++;
+  }
+  return drop > 0 ? past.slice(drop) : past;
+}
+
+// ===== 다른 탭 변경 위에 되돌리기 =====
+
+type Entity = { id: string };
+
+function isEntityList(value: unknown): value is Entity[] {
+  return Array.isArray(value) && value.every((item) => typeof (item as Entity)?.id === "string");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** live 목록에 from → to 사이에 바뀐 항목만 반영한다 (나머지 항목은 live 그대로) */
+function rebaseList(live: Entity[], from: Entity[], to: Entity[]): Entity[] {
+  const fromById = new Map(from.map((item) => [item.id, JSON.stringify(item)]));
+  const toById = new Map(to.map((item) => [item.id, item]));
+  const changed = (id: string) => fromById.get(id) !== (toById.has(id) ? JSON.stringify(toById.get(id)) : undefined);
+  const liveIds = new Set(live.map((item) => item.id));
+  return [
+    ...live.flatMap((item) => (!changed(item.id) ? [item] : toById.has(item.id) ? [toById.get(item.id)!] : [])),
+    ...to.filter((item) => changed(item.id) && !liveIds.has(item.id)),
+  ];
+}
+
+/**
+ * 날짜별 목록을 통째로 바꾸는 패치(path = [슬라이스, 날짜])를 현재 목록 기준으로 다시 만든다.
+ * 기록의 패치는 명령 당시의 목록 전체라 그대로 적용하면 그 뒤 다른 탭에서 같은 날짜에 들어온 변경까지
+ * 되돌린다. 이 명령이 바꾼 항목(id)만 되돌리고(다시 하고) 나머지는 현재 목록대로 둔다.
+ * counterPatches는 반대 방향 패치(undo면 patches, redo면 inversePatches)로, 명령이 남긴 목록을 알려 준다.
+ * 목록 안의 필드를 고치는 패치가 섞였거나 id 목록이 아닌 경로는 그대로 둔다.
+ */
+export function rebaseListPatches(patches: Patch[], counterPatches: Patch[], current: object): Patch[] {
+  const state = current as Record<string, unknown>;
+  const pathKey = (patch: Patch) => JSON.stringify(patch.path.slice(0, 2));
+  const isListPatch = (patch: Patch) => patch.path.length === 2 && typeof patch.path[1] === "string";
+  const nested = new Set([...patches, ...counterPatches].filter((p) => p.path.length > 2).map(pathKey));
+  // 경로별 마지막 패치가 만든 목록 (remove면 빈 목록)
+  const finalLists = (list: Patch[]) => {
+    const lists = new Map<string, unknown>();
+    for (const patch of list) if (isListPatch(patch)) lists.set(pathKey(patch), patch.op === "remove" ? [] : patch.value);
+    return lists;
+  };
+  const targets = finalLists(patches);
+  const sources = finalLists(counterPatches);
+  const lastIndex = new Map<string, number>();
+  patches.forEach((patch, index) => {
+    if (isListPatch(patch)) lastIndex.set(pathKey(patch), index);
+  });
+
+  const out: Patch[] = [];
+  patches.forEach((patch, index) => {
+    const key = pathKey(patch);
+    const [slice, listKey] = patch.path as [string, string];
+    const container = state[slice];
+    const live = isRecord(container) ? container[listKey] : undefined;
+    const to = targets.get(key);
+    const from = sources.get(key) ?? [];
+    const rebasable =
+      isListPatch(patch) &&
+      !nested.has(key) &&
+      isRecord(container) &&
+      isEntityList(to) &&
+      isEntityList(from) &&
+      (live === undefined || isEntityList(live));
+    if (!rebasable) {
+      out.push(patch);
+      return;
+    }
+    // 같은 목록의 패치는 마지막 자리에서 하나로 적용한다
+    if (lastIndex.get(key) !== index) return;
+    const list = rebaseList((live as Entity[] | undefined) ?? [], from, to);
+    if (patch.op === "remove" && list.length === 0) {
+      if (live !== undefined) out.push({ op: "remove", path: patch.path });
+    } else {
+      out.push({ op: live === undefined ? "add" : "replace", path: patch.path, value: list });
+    }
+  });
+  return out;
+}
+
+// ===== 저장 =====
+
+function toPersistedEntry({ id, label, at, patches, inversePatches }: HistoryEntry): PersistedHistoryEntry {
+  return { id, label, at, patches, inversePatches };
+}
+
+/**
+ * 저장할 기록 — 최근 past부터(그 다음 바로 redo할 future부터) 개수·크기 한도 안에서 고른다
+ */
+export function compactHistory(
+  history: { past: HistoryEntry[]; future: HistoryEntry[] },
+  maxEntries = MAX_PERSISTED_HISTORY_ENTRIES,
+  maxBytes = MAX_PERSISTED_HISTORY_BYTES
+): PersistedHistory {
+  let budget = maxBytes;
+  let count = 0;
+  const take = (entry: HistoryEntry) => {
+    if (count >= maxEntries || entry.size > budget) return false;
+    budget -= entry.size;
+    count++;
+    return true;
+  };
+  const past: PersistedHistoryEntry[] = [];
+  for (let i = history.past.length - 1; i >= 0 && take(history.past[i]); i--) past.unshift(toPersistedEntry(history.past[i]));
+  const future: PersistedHistoryEntry[] = [];
+  for (let i = 0; i < history.future.length && take(history.future[i]); i++) future.push(toPersistedEntry(history.future[i]));
+  return { past, future };
+}
+
+function isPersistedEntry(entry: unknown): entry is PersistedHistoryEntry {
+  const e = entry as PersistedHistoryEntry;
+  return !!e && typeof e.id === "string" && typeof e.label === "string" && Array.isArray(e.patches) && Array.isArray(e.inversePatches);
+}
+
+/**
+ * 저장된 기록 → 스토어 기록 (모양이 맞지 않으면 빈 기록)
+ */
+export function restoreHistory(persisted: PersistedHistory | undefined): { past: HistoryEntry[]; future: HistoryEntry[] } {
+  if (!persisted || !Array.isArray(persisted.past) || !Array.isArray(persisted.future)) return { past: [], future: [] };
+  if (![...persisted.past, ...persisted.future].every(isPersistedEntry)) return { past: [], future: [] };
+  const restore = (e: PersistedHistoryEntry) => createHistoryEntry(e.id, e.label, e.patches, e.inversePatches, e.at);
+  return { past: persisted.past.map(restore), future: persisted.future.map(restore) };
+}
+
+/**
+ * 기록의 패치가 건드리는 블록 날짜 (lazy 로드 백엔드에서 되돌리기 전에 불러와야 한다)
+ */
+export function historyBlockDates(history: { past: HistoryEntry[]; future: HistoryEntry[] }): string[] {
+  const dates = new Set<string>();
+  for (const entry of [...history.past, ...history.future]) {
+    for (const patch of [...entry.patches, ...entry.inversePatches]) {
+      if (patch.path[0] === "blocks" && patch.path.length > 1) dates.add(String(patch.path[1]));
+    }
+  }
+  return [...dates];
+}
+
+// ===== 라벨 =====
+
+/** "09:00–10:30" */
+export function timeRangeLabel(startMin: number, endMin: number): string {
+  return `${formatMinutesToTime(startMin)}–${formatMinutesToTime(endMin)}`;
+}
+
+/** 라벨에 넣을 짧은 텍스트 */
+export function excerpt(text: string, max = 20): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > max ? `${oneLine.slice(0, max)}…` : oneLine;
+}
+
+/** "Paint 업무 09:00–10:30" */
+export function blockCommandLabel(verb: string, block: Block, activities: Activity[]): string {
+  const name = block.title || activities.find((a) => a.id === block.activityId)?.name || block.activityId;
+  return `${verb} ${name} ${timeRangeLabel(block.startMin, block.endMin)}`;
+}
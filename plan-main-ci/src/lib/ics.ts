@@ -0,0 +1,184 @@
+import { isValidTimeZone, toLocalDateTime } from "./time";
+
+/**
+ * iCalendar (RFC 5545) 직렬화 공통 유틸
+ * - 줄 구분: CRLF, 75옥텟 초과 줄은 접기(folding)
+ * - TEXT 값은 백슬래시/세미콜론/쉼표/개행을 이스케이프
+ */
+
+const ICS_LINE_BREAK = "\r\n";
+const MAX_LINE_OCTETS = 75;
+
+export const ICS_PRODID = "-//Life Log Planner//KO";
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * 75옥텟(UTF-8) 단위로 접는다. 멀티바이트 문자는 중간에서 자르지 않는다.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // 이어지는 줄은 맨 앞 공백 1옥텟을 차지한다
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join(`${ICS_LINE_BREAK} `);
+}
+
+/** Date → UTC 기준 DATE-TIME (예: 20240301T003000Z) */
+export function formatIcsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function toIcs(lines: string[]): string {
+  return lines.map(foldIcsLine).join(ICS_LINE_BREAK) + ICS_LINE_BREAK;
+}
+
+// ===== Parsing =====
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+/** 접힌 줄을 펼친다 (CRLF/LF 모두 허용) */
+export function unfoldIcsLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.length > 0);
+}
+
+/** 따옴표 안의 ':'/';'는 구분자로 보지 않는다 */
+function parsePropertyLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') inQuotes = !inQuotes;
+    else if (c === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const head = line.slice(0, colon);
+  const value = line.slice(colon + 1);
+  const segments = head.match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  const [name, ...paramSegments] = segments;
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const segment of paramSegments) {
+    const eq = segment.indexOf("=");
+    if (eq < 0) continue;
+    params[segment.slice(0, eq).toUpperCase()] = segment.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value };
+}
+
+/**
+ * .ics 텍스트 → 컴포넌트 트리 (최상위는 보통 VCALENDAR 하나)
+ */
+export function parseIcs(text: string): IcsComponent[] {
+  const root: IcsComponent = { name: "ROOT", properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+
+  for (const line of unfoldIcsLines(text)) {
+    const prop = parsePropertyLine(line);
+    if (!prop) continue;
+    const top = stack[stack.length - 1];
+    if (prop.name === "BEGIN") {
+      const component: IcsComponent = { name: prop.value.toUpperCase(), properties: [], components: [] };
+      top.components.push(component);
+      stack.push(component);
+    } else if (prop.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      top.properties.push(prop);
+    }
+  }
+  return root.components;
+}
+
+export function getIcsProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((p) => p.name === name);
+}
+
+export interface IcsDateTime {
+  date: Date;
+  /** VALUE=DATE (종일 일정) */
+  allDay: boolean;
+}
+
+/**
+ * DTSTART/DTEND/RECURRENCE-ID/EXDATE 값 하나 → Date
+ * - 20240301            : 종일 (로컬 자정)
+ * - 20240301T093000Z    : UTC
+ * - 20240301T093000     : TZID가 있으면 해당 시간대, 없으면 floating(로컬)
+ * TZID를 해석할 수 없으면 로컬 시간으로 보고 unknownTimeZone을 true로 돌려준다.
+ */
+export function parseIcsDateTime(
+  value: string,
+  params: Record<string, string> = {}
+): (IcsDateTime & { unknownTimeZone?: boolean }) | null {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, z] = m;
+  const fields = [Number(y), Number(mo) - 1, Number(d), Number(h ?? 0), Number(mi ?? 0), Number(s ?? 0)] as const;
+
+  if (h === undefined || params.VALUE === "DATE") {
+    return { date: new Date(fields[0], fields[1], fields[2]), allDay: true };
+  }
+  if (z) {
+    return { date: new Date(Date.UTC(...fields)), allDay: false };
+  }
+  const tzid = params.TZID;
+  if (tzid) {
+    if (!isValidTimeZone(tzid)) return { date: new Date(...fields), allDay: false, unknownTimeZone: true };
+    const date = toLocalDateTime(`${y}-${mo}-${d}`, fields[3] * 60 + fields[4], tzid);
+    return { date: new Date(date.getTime() + fields[5] * 1000), allDay: false };
+  }
+  return { date: new Date(...fields), allDay: false };
+}
+
+/** DURATION (예: PT1H30M, P1D, -PT15M) → 밀리초 */
+export function parseIcsDuration(value: string): number | null {
+  const m = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w, d, h, mi, s] = m;
+  const minutes =
+    Number(w ?? 0) * 7 * 24 * 60 + Number(d ?? 0) * 24 * 60 + Number(h ?? 0) * 60 + Number(mi ?? 0) + Number(s ?? 0) / 60;
+  return (sign === "-" ? -1 : 1) * minutes * 60 * 1000;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { getIcsProperty, parseIcs } from "./ics";
+import { blockIcsUid, blocksToIcs, icsFilename, type IcsExportOptions } from "./icsExport";
+import type { Activity, Block } from "./types";
+
+const DAY = "2026-03-02";
+const activities: Activity[] = [{ id: "work", name: "업무; 회의, 정리", color: "#3b82f6" }];
+
+function block(id: string, startMin: number, endMin: number, extra: Partial<Block> = {}): Block {
+  return {
+    id,
+    dateISO: DAY,
+    startMin,
+    endMin,
+    activityId: "work",
+    layer: "plan",
+    source: "manual",
+    createdAt: 1,
+    updatedAt: Date.UTC(2026, 2, 1, 12),
+    ...extra,
+  };
+}
+
+const options: IcsExportOptions = {
+  fromISO: DAY,
+  toISO: DAY,
+  layers: ["plan", "execute"],
+  zoneForDate: () => "Asia/Seoul",
+  now: new Date(Date.UTC(2026, 2, 2, 0, 0)),
+};
+
+function events(ics: string) {
+  return parseIcs(ics)[0].components.filter((c) => c.name === "VEVENT");
+}
+
+const value = (event: ReturnType<typeof events>[number], name: string) => getIcsProperty(event, name)?.value;
+
+describe("blocksToIcs", () => {
+  it("블록 하나를 VEVENT 하나로, 그날 시간대의 벽시계를 UTC로 바꿔 쓴다", () => {
+    const ics = blocksToIcs({ [DAY]: [block("b1", 540, 600)] }, activities, options);
+    const [event] = events(ics);
+
+    expect(ics).toContain("X-WR-TIMEZONE:Asia/Seoul\r\n");
+    expect(value(event, "UID")).toBe(blockIcsUid("b1"));
+    expect(value(event, "DTSTAMP")).toBe("20260302T000000Z");
+    expect(value(event, "DTSTART")).toBe("20260302T000000Z");
+    expect(value(event, "DTEND")).toBe("20260302T010000Z");
+    expect(value(event, "LAST-MODIFIED")).toBe("20260301T120000Z");
+    expect(value(event, "CATEGORIES")).toBe("PLAN");
+  });
+
+  it("자정을 넘는 블록은 다음 날 시각을 DTEND로 쓴다", () => {
+    const [event] = events(blocksToIcs({ [DAY]: [block("night", 1380, 1500)] }, activities, options));
+
+    expect(value(event, "DTSTART")).toBe("20260302T140000Z");
+    expect(value(event, "DTEND")).toBe("20260302T160000Z");
+  });
+
+  it("날짜마다 그날 시간대를 따른다", () => {
+    const next = "2026-03-03";
+    const ics = blocksToIcs(
+      { [DAY]: [block("seoul", 540, 600)], [next]: [block("paris", 540, 600, { dateISO: next })] },
+      activities,
+      { ...options, toISO: next, zoneForDate: (dateISO) => (dateISO === next ? "Europe/Paris" : "Asia/Seoul") }
+    );
+
+    expect(events(ics).map((e) => value(e, "DTSTART"))).toEqual(["20260302T000000Z", "20260303T080000Z"]);
+  });
+
+  it("텍스트를 이스케이프하고 75옥텟을 넘는 줄은 접는다", () => {
+    const title = "가".repeat(40);
+    const ics = blocksToIcs(
+      { [DAY]: [block("b1", 540, 600, { layer: "execute", title })] },
+      activities,
+      options
+    );
+    const [event] = events(ics);
+
+    expect(ics).toContain("SUMMARY:업무\\; 회의\\, 정리 (실행)\r\n");
+    expect(value(event, "DESCRIPTION")).toBe(title);
+    expect(value(event, "CATEGORIES")).toBe("EXECUTE");
+    for (const line of ics.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(ics).toContain("\r\n 가");
+  });
+
+  it("선택한 레이어만 내보낸다", () => {
+    const ics = blocksToIcs(
+      { [DAY]: [block("plan", 540, 600), block("exec", 540, 600, { layer: "execute" })] },
+      activities,
+      { ...options, layers: ["execute"] }
+    );
+
+    expect(events(ics).map((e) => value(e, "UID"))).toEqual([blockIcsUid("exec")]);
+  });
+});
+
+describe("icsFilename", () => {
+  it("하루면 날짜 하나, 범위면 시작_끝", () => {
+    expect(icsFilename(DAY, DAY)).toBe("plan_2026-03-02.ics");
+    expect(icsFilename(DAY, "2026-03-08")).toBe("plan_2026-03-02_2026-03-08.ics");
+  });
+});
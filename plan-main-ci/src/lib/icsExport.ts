@@ -0,0 +1,93 @@
+import type { Activity, Block, Layer } from "./types";
+import { collectBlocksInRange } from "./blockExport";
+import { escapeIcsText, formatIcsUtc, ICS_PRODID, toIcs } from "./ics";
+import { deviceTimeZone, toLocalDateTime, type DayTimeZoneResolver } from "./time";
+
+/**
+ * 계획/실행 블록 → iCalendar (.ics)
+ * - VEVENT 하나 = Block 하나, UID는 Block.id 기반이라 다시 내보내도 같은 일정으로 인식된다
+ * - 시각은 그날 시간대의 벽시계(dateISO + 분)를 UTC로 바꿔 기록한다 (VTIMEZONE 없이도 정확, 여행한 날 포함)
+ */
+
+export const ICS_UID_DOMAIN = "life-log-planner";
+
+export type IcsExportLayer = Extract<Layer, "plan" | "execute">;
+
+export interface IcsExportOptions {
+  fromISO: string;
+  toISO: string;
+  layers: IcsExportLayer[];
+  /** 논리적 하루 시작 (분) — 이 시각 전에 시작한 블록은 전날 범위로 본다 */
+  dayStartMin?: number;
+  /** 날짜별 시간대 (없으면 기기 시간대) */
+  zoneForDate?: DayTimeZoneResolver;
+  /** DTSTAMP 기준 시각 (기본: 지금) */
+  now?: Date;
+}
+
+export function blockIcsUid(blockId: string): string {
+  return `${blockId}@${ICS_UID_DOMAIN}`;
+}
+
+function blockToVevent(
+  block: Block,
+  activity: Activity | undefined,
+  dtstamp: string,
+  timeZone: string | undefined
+): string[] {
+  const name = activity?.name ?? block.activityId;
+  const summary = block.layer === "execute" ? `${name} (실행)` : name;
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${blockIcsUid(block.id)}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART:${formatIcsUtc(toLocalDateTime(block.dateISO, block.startMin, timeZone))}`,
+    `DTEND:${formatIcsUtc(toLocalDateTime(block.dateISO, block.endMin, timeZone))}`,
+    `SUMMARY:${escapeIcsText(summary)}`,
+  ];
+  if (block.title) lines.push(`DESCRIPTION:${escapeIcsText(block.title)}`);
+  lines.push(
+    `CATEGORIES:${block.layer === "execute" ? "EXECUTE" : "PLAN"}`,
+    `LAST-MODIFIED:${formatIcsUtc(new Date(block.updatedAt))}`,
+    // 다시 가져올 때 activity/레이어를 복원하기 위한 확장 속성
+    `X-LIFELOG-ACTIVITY-ID:${escapeIcsText(block.activityId)}`,
+    `X-LIFELOG-LAYER:${block.layer}`,
+    "END:VEVENT"
+  );
+  return lines;
+}
+
+export function blocksToIcs(
+  blocksByDate: Record<string, Block[]>,
+  activities: Activity[],
+  options: IcsExportOptions
+): string {
+  const activityMap = new Map(activities.map((a) => [a.id, a]));
+  const dtstamp = formatIcsUtc(options.now ?? new Date());
+  const blocks = collectBlocksInRange(
+    blocksByDate,
+    options.fromISO,
+    options.toISO,
+    options.layers,
+    options.dayStartMin
+  );
+
+  const timeZone = options.zoneForDate?.(options.fromISO) ?? deviceTimeZone();
+  return toIcs([
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Life Log Planner",
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...blocks.flatMap((block) =>
+      blockToVevent(block, activityMap.get(block.activityId), dtstamp, options.zoneForDate?.(block.dateISO))
+    ),
+    "END:VCALENDAR",
+  ]);
+}
+
+export function icsFilename(fromISO: string, toISO: string): string {
+  return fromISO === toISO ? `plan_${fromISO}.ics` : `plan_${fromISO}_${toISO}.ics`;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { parseIcsEvents, type IcsImportOptions } from "./icsImport";
+
+// 시각은 모두 floating(TZID 없음) → 기기 시간대와 상관없이 같은 벽시계 시각이 된다
+function calendar(...events: string[][]): string {
+  const vevents = events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]);
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...vevents, "END:VCALENDAR"].join("\r\n");
+}
+
+const options: IcsImportOptions = {
+  fromISO: "2026-03-01",
+  toISO: "2026-03-31",
+  activities: [{ id: "work", name: "업무", color: "#3b82f6" }],
+  rules: [],
+  defaultActivityId: "work",
+};
+
+const occurrences = (text: string, overrides: Partial<IcsImportOptions> = {}) =>
+  parseIcsEvents(text, { ...options, ...overrides }).blocks.map((b) => [b.dateISO, b.startMin, b.endMin]);
+
+describe("parseIcsEvents RRULE 전개", () => {
+  it("DAILY + COUNT", () => {
+    const text = calendar([
+      "UID:daily",
+      "SUMMARY:스탠드업",
+      "DTSTART:20260302T090000",
+      "DTEND:20260302T091500",
+      "RRULE:FREQ=DAILY;COUNT=3",
+    ]);
+
+    expect(occurrences(text)).toEqual([
+      ["2026-03-02", 540, 555],
+      ["2026-03-03", 540, 555],
+      ["2026-03-04", 540, 555],
+    ]);
+    expect(parseIcsEvents(text, options).blocks.map((b) => b.importRef)).toEqual([
+      { uid: "daily", recurrenceId: "2026-03-02" },
+      { uid: "daily", recurrenceId: "2026-03-03" },
+      { uid: "daily", recurrenceId: "2026-03-04" },
+    ]);
+  });
+
+  it("WEEKLY + BYDAY + INTERVAL + UNTIL", () => {
+    const text = calendar([
+      "UID:weekly",
+      "DTSTART:20260302T180000",
+      "DURATION:PT1H",
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20260320",
+    ]);
+
+    expect(occurrences(text).map(([dateISO]) => dateISO)).toEqual(["2026-03-02", "2026-03-05", "2026-03-16", "2026-03-19"]);
+  });
+
+  it("MONTHLY + BYMONTHDAY는 없는 날짜(4월 31일)를 건너뛴다", () => {
+    const text = calendar(["UID:monthly", "DTSTART:20260131T070000", "DURATION:PT30M", "RRULE:FREQ=MONTHLY;BYMONTHDAY=31"]);
+
+    expect(occurrences(text, { fromISO: "2026-01-01", toISO: "2026-05-31" }).map(([dateISO]) => dateISO)).toEqual([
+      "2026-01-31",
+      "2026-03-31",
+      "2026-05-31",
+    ]);
+  });
+
+  it("범위 밖 회차는 만들지 않지만 COUNT에는 센다 (달을 넘어 이어짐)", () => {
+    const text = calendar(["UID:range", "DTSTART:20260227T090000", "DURATION:PT1H", "RRULE:FREQ=DAILY;COUNT=4"]);
+
+    expect(occurrences(text).map(([dateISO]) => dateISO)).toEqual(["2026-03-01", "2026-03-02"]);
+  });
+
+  it("WEEKLY 회차도 달이 바뀌면 이어진다", () => {
+    const text = calendar(["UID:cross", "DTSTART:20260223T090000", "DURATION:PT1H", "RRULE:FREQ=WEEKLY;BYDAY=MO,FR;COUNT=4"]);
+
+    expect(occurrences(text).map(([dateISO]) => dateISO)).toEqual(["2026-03-02", "2026-03-06"]);
+  });
+
+  it("EXDATE는 빼고, RECURRENCE-ID로 수정된 회차는 원본 대신 수정본을 가져온다", () => {
+    const text = calendar(
+      ["UID:gym", "DTSTART:20260302T070000", "DURATION:PT1H", "RRULE:FREQ=DAILY;COUNT=4", "EXDATE:20260303T070000"],
+      ["UID:gym", "RECURRENCE-ID:20260304T070000", "DTSTART:20260304T200000", "DURATION:PT1H"]
+    );
+
+    const blocks = parseIcsEvents(text, options).blocks;
+    expect(blocks.map((b) => [b.dateISO, b.startMin])).toEqual([
+      ["2026-03-02", 420],
+      ["2026-03-05", 420],
+      ["2026-03-04", 1200],
+    ]);
+    expect(blocks[2].importRef).toEqual({ uid: "gym", recurrenceId: "2026-03-04" });
+  });
+
+  it("자정을 넘는 회차는 시작 날짜에 한 블록으로 둔다", () => {
+    const text = calendar(["UID:night", "DTSTART:20260302T230000", "DTEND:20260303T010000", "RRULE:FREQ=DAILY;COUNT=2"]);
+
+    expect(occurrences(text)).toEqual([
+      ["2026-03-02", 1380, 1500],
+      ["2026-03-03", 1380, 1500],
+    ]);
+  });
+
+  it("서수가 붙은 BYDAY는 경고하고 첫 회차만 가져온다", () => {
+    const text = calendar([
+      "UID:ordinal",
+      "SUMMARY:월례",
+      "DTSTART:20260302T100000",
+      "DURATION:PT1H",
+      "RRULE:FREQ=MONTHLY;BYDAY=1MO",
+    ]);
+
+    const result = parseIcsEvents(text, options);
+    expect(result.blocks).toHaveLength(1);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,286 @@
+import type { Activity, ActivityId, Block, ImportKeywordRule } from "./types";
+import {
+  getIcsProperty,
+  parseIcs,
+  parseIcsDateTime,
+  parseIcsDuration,
+  unescapeIcsText,
+  type IcsComponent,
+} from "./ics";
+import { matchActivityByKeyword } from "./importRules";
+import { createBlock } from "./blocks";
+import { DAY_MINUTES, MAX_BLOCK_END_MIN, MAX_BLOCK_SPAN_DAYS } from "./daySpans";
+import {
+  daysBetweenISO,
+  parseISODate,
+  toISODate,
+  wallTimeInDayZone,
+  wallTimeOf,
+  type DayTimeZoneResolver,
+} from "./time";
+
+/**
+ * iCalendar (.ics) → 계획(plan) 블록
+ * - 범위(fromISO ~ toISO, 양 끝 포함) 안의 회차만 만든다
+ * - 단순 RRULE(FREQ=DAILY/WEEKLY/MONTHLY/YEARLY + INTERVAL/COUNT/UNTIL/BYDAY/BYMONTHDAY)과
+ *   EXDATE, RECURRENCE-ID(수정된 회차)를 지원한다
+ * - 종일 일정은 건너뛰고, 자정을 넘기는 일정은 시작 날짜에 한 블록으로 둔다
+ * - 시각은 그날 시간대(zoneForDate, 없으면 기기 시간대)의 벽시계로 바꿔 저장한다
+ * - 다시 가져올 때는 Block.importRef(UID + 회차 날짜)로 중복을 거른다
+ */
+
+export interface IcsImportOptions {
+  fromISO: string;
+  toISO: string;
+  activities: Activity[];
+  rules: ImportKeywordRule[];
+  defaultActivityId: ActivityId;
+  /** 날짜별 시간대 (여행한 날은 그곳 시각으로) */
+  zoneForDate?: DayTimeZoneResolver;
+}
+
+export interface IcsImportResult {
+  blocks: Block[];
+  eventCount: number;
+  skippedAllDay: number;
+  warnings: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 잘못된 RRULE로 무한히 돌지 않도록
+const MAX_OCCURRENCE_ITERATIONS = 5000;
+const MAX_REPORTED_WARNINGS = 30;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+interface RRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: number[];
+  byMonthDay?: number[];
+}
+
+function parseRRule(value: string, warn: (msg: string) => void, summary: string): RRule | null {
+  const parts = new Map(
+    value.split(";").map((part) => {
+      const [k, v = ""] = part.split("=");
+      return [k.toUpperCase(), v.toUpperCase()] as const;
+    })
+  );
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    warn(`"${summary}": 지원하지 않는 반복 주기(${freq ?? "없음"}) → 첫 회차만 가져옵니다`);
+    return null;
+  }
+
+  const rule: RRule = { freq, interval: Math.max(1, Number(parts.get("INTERVAL") ?? 1) || 1) };
+  if (parts.has("COUNT")) rule.count = Number(parts.get("COUNT"));
+  if (parts.has("UNTIL")) {
+    const until = parseIcsDateTime(parts.get("UNTIL")!);
+    // 날짜만 있는 UNTIL은 그날 하루 전체를 포함한다
+    if (until) rule.until = until.allDay ? new Date(until.date.getTime() + DAY_MS - 1) : until.date;
+  }
+  if (parts.has("BYDAY")) {
+    const days = parts.get("BYDAY")!.split(",");
+    // "2MO"처럼 서수가 붙은 BYDAY는 단순 규칙이 아니다
+    if (days.some((d) => !WEEKDAY_CODES.includes(d))) {
+      warn(`"${summary}": BYDAY=${parts.get("BYDAY")}는 지원하지 않습니다 → 첫 회차만 가져옵니다`);
+      return null;
+    }
+    rule.byDay = days.map((d) => WEEKDAY_CODES.indexOf(d));
+  }
+  if (parts.has("BYMONTHDAY")) {
+    rule.byMonthDay = parts.get("BYMONTHDAY")!.split(",").map(Number).filter((n) => n >= 1 && n <= 31);
+  }
+
+  const unsupported = [...parts.keys()].filter(
+    (k) => !["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "WKST"].includes(k)
+  );
+  if (unsupported.length > 0) {
+    warn(`"${summary}": RRULE의 ${unsupported.join(", ")}는 무시합니다`);
+  }
+  return rule;
+}
+
+/** start와 같은 로컬 시각으로 날짜만 옮긴 Date */
+function atDate(start: Date, year: number, month: number, day: number): Date | null {
+  const d = new Date(year, month, day, start.getHours(), start.getMinutes(), start.getSeconds());
+  return d.getDate() === day ? d : null; // 2월 30일 같은 날짜는 건너뛴다
+}
+
+/** start에서 days일 뒤의 같은 로컬 시각 (월·연도를 넘어가도 그대로 이어진다) */
+function daysAfter(start: Date, days: number): Date {
+  return new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() + days,
+    start.getHours(),
+    start.getMinutes(),
+    start.getSeconds()
+  );
+}
+
+/**
+ * 회차 시작 시각을 시간순으로 생성 (DTSTART 포함, COUNT는 범위 밖 회차도 센다)
+ */
+function* expandRRule(start: Date, rule: RRule, rangeEnd: Date): Generator<Date> {
+  let emitted = 0;
+  for (let i = 0; i < MAX_OCCURRENCE_ITERATIONS; i++) {
+    let candidates: (Date | null)[];
+    switch (rule.freq) {
+      case "DAILY":
+        candidates = [daysAfter(start, i * rule.interval)];
+        break;
+      case "WEEKLY": {
+        // 주의 시작은 월요일 (WKST 기본값)
+        const mondayOffset = (start.getDay() + 6) % 7;
+        const weekStart = i * rule.interval * 7 - mondayOffset;
+        const days = (rule.byDay ?? [start.getDay()]).map((d) => (d + 6) % 7).sort((a, b) => a - b);
+        candidates = days.map((offset) => daysAfter(start, weekStart + offset));
+        break;
+      }
+      case "MONTHLY": {
+        const month = start.getMonth() + i * rule.interval;
+        const days = (rule.byMonthDay ?? [start.getDate()]).slice().sort((a, b) => a - b);
+        const firstOfMonth = new Date(start.getFullYear(), month, 1);
+        candidates = days.map((day) => atDate(start, firstOfMonth.getFullYear(), firstOfMonth.getMonth(), day));
+        break;
+      }
+      case "YEARLY":
+        candidates = [atDate(start, start.getFullYear() + i * rule.interval, start.getMonth(), start.getDate())];
+        break;
+    }
+
+    for (const date of candidates) {
+      if (!date || date < start) continue;
+      if (rule.until && date > rule.until) return;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+      if (date > rangeEnd) return;
+      emitted++;
+      yield date;
+    }
+  }
+}
+
+function parseDateList(component: IcsComponent, name: string): number[] {
+  return component.properties
+    .filter((p) => p.name === name)
+    .flatMap((p) => p.value.split(",").map((v) => parseIcsDateTime(v, p.params)?.date.getTime()))
+    .filter((t): t is number => t !== undefined);
+}
+
+export function parseIcsEvents(text: string, options: IcsImportOptions): IcsImportResult {
+  const warnings: string[] = [];
+  let hiddenWarnings = 0;
+  const warn = (msg: string) => {
+    if (warnings.length < MAX_REPORTED_WARNINGS) warnings.push(msg);
+    else hiddenWarnings++;
+  };
+
+  const events = parseIcs(text).flatMap((c) => (c.name === "VCALENDAR" ? c.components : [c]));
+  const vevents = events.filter((c) => c.name === "VEVENT");
+  const knownActivityIds = new Set(options.activities.map((a) => a.id));
+  const rangeStart = parseISODate(options.fromISO);
+  const rangeEnd = new Date(parseISODate(options.toISO).getTime() + DAY_MS - 1);
+
+  // 수정된 회차(RECURRENCE-ID)는 원본 반복에서 빼고 따로 가져온다
+  const overridden = new Map<string, Set<number>>();
+  for (const event of vevents) {
+    const uid = getIcsProperty(event, "UID")?.value;
+    const rid = getIcsProperty(event, "RECURRENCE-ID");
+    const ridTime = rid && parseIcsDateTime(rid.value, rid.params)?.date.getTime();
+    if (uid && ridTime !== undefined) {
+      if (!overridden.has(uid)) overridden.set(uid, new Set());
+      overridden.get(uid)!.add(ridTime);
+    }
+  }
+
+  const blocks: Block[] = [];
+  let skippedAllDay = 0;
+  let unknownTimeZone = false;
+
+  for (const event of vevents) {
+    const summary = unescapeIcsText(getIcsProperty(event, "SUMMARY")?.value ?? "").trim();
+    const label = summary || "(제목 없음)";
+    if (getIcsProperty(event, "STATUS")?.value.toUpperCase() === "CANCELLED") continue;
+
+    const dtstartProp = getIcsProperty(event, "DTSTART");
+    const dtstart = dtstartProp && parseIcsDateTime(dtstartProp.value, dtstartProp.params);
+    if (!dtstart) {
+      warn(`"${label}": DTSTART를 읽을 수 없어 건너뜁니다`);
+      continue;
+    }
+    if (dtstart.allDay) {
+      skippedAllDay++;
+      continue;
+    }
+    unknownTimeZone ||= !!dtstart.unknownTimeZone;
+
+    const dtendProp = getIcsProperty(event, "DTEND");
+    const durationProp = getIcsProperty(event, "DURATION");
+    const dtend = dtendProp && parseIcsDateTime(dtendProp.value, dtendProp.params);
+    const durationMs = dtend
+      ? dtend.date.getTime() - dtstart.date.getTime()
+      : durationProp
+        ? parseIcsDuration(durationProp.value)
+        : 0;
+    const durationMin = Math.round((durationMs ?? 0) / 60000);
+    if (durationMin <= 0) {
+      warn(`"${label}": 길이가 0분 이하라 건너뜁니다`);
+      continue;
+    }
+
+    const rawUid = getIcsProperty(event, "UID")?.value;
+    const uid = rawUid ?? `${dtstartProp.value}|${summary}`;
+    const ridProp = getIcsProperty(event, "RECURRENCE-ID");
+    const rid = ridProp && parseIcsDateTime(ridProp.value, ridProp.params);
+    const rruleProp = getIcsProperty(event, "RRULE");
+    const rule = !rid && rruleProp ? parseRRule(rruleProp.value, warn, label) : null;
+
+    const exdates = new Set([...parseDateList(event, "EXDATE"), ...(overridden.get(uid) ?? [])]);
+    const occurrences = rule
+      ? [...expandRRule(dtstart.date, rule, rangeEnd)].filter((d) => !exdates.has(d.getTime()))
+      : [dtstart.date];
+
+    const exportedActivityId = getIcsProperty(event, "X-LIFELOG-ACTIVITY-ID")?.value;
+    const activityId =
+      exportedActivityId && knownActivityIds.has(unescapeIcsText(exportedActivityId))
+        ? unescapeIcsText(exportedActivityId)
+        : matchActivityByKeyword(summary, options.rules, options.defaultActivityId);
+
+    let clipped = false;
+    for (const start of occurrences) {
+      if (start < rangeStart || start > rangeEnd) continue;
+      const wallStart = options.zoneForDate ? wallTimeInDayZone(start, options.zoneForDate) : wallTimeOf(start);
+      const { dateISO, minutes: startMin } = wallStart;
+      // 자정을 넘는 일정은 시작 날짜에 한 블록으로 (endMin > 1440, 시작 날짜 시간대의 벽시계)
+      const wallEnd = wallTimeOf(new Date(start.getTime() + durationMin * 60000), options.zoneForDate?.(dateISO));
+      const wallEndMin = daysBetweenISO(dateISO, wallEnd.dateISO) * DAY_MINUTES + wallEnd.minutes;
+      const endMin = Math.min(MAX_BLOCK_END_MIN, wallEndMin);
+      clipped ||= wallEndMin > MAX_BLOCK_END_MIN;
+
+      const block = createBlock({
+        dateISO,
+        startMin,
+        endMin,
+        activityId,
+        layer: "plan",
+        source: "import",
+        title: summary || undefined,
+      });
+      block.importRef = {
+        uid,
+        recurrenceId: rule ? dateISO : rid ? toISODate(rid.date) : undefined,
+      };
+      blocks.push(block);
+    }
+    if (clipped) warn(`"${label}": ${MAX_BLOCK_SPAN_DAYS}일을 넘는 부분은 잘랐습니다`);
+  }
+
+  if (unknownTimeZone) warn("알 수 없는 시간대(TZID)가 있어 해당 일정은 기기 시간대로 해석했습니다");
+  if (hiddenWarnings > 0) warnings.push(`외 ${hiddenWarnings}건`);
+
+  return { blocks, eventCount: vevents.length, skippedAllDay, warnings };
+}
@@ -4,13 +4,95 @@ export function makeCellId(dateISO: string, hour: number, col: number): string {
   return `${dateISO}|${pad2(hour)}|${col}`;
 }
 
-let idCounter = 0;
+/**
+ * 고유 ID: `<기기 ID 6자>-<ULID 26자>` (Crockford base32)
+ * ULID = 48비트 ms 타임스탬프 10자 + 80비트 랜덤 16자라 같은 기기 안에서는 문자열 순서가 생성 순서다.
+ * 같은 ms 안에서는 랜덤 부분을 1씩 올려 순서를 지킨다. 기기 ID가 달라 기기끼리 합쳐도 겹치지 않는다.
+ */
+
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+const DEVICE_ID_LENGTH = 6;
+const DEVICE_ID_KEY = "life-log-planner-device-id";
+const DEVICE_ID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{6}$/;
+
+let deviceId: string | null = null;
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+function randomDigits(count: number): number[] {
+  const bytes = new Uint8Array(count);
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < count; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.from(bytes, (b) => b % 32);
+}
+
+function encodeDigits(digits: number[]): string {
+  return digits.map((d) => CROCKFORD[d]).join("");
+}
+
+function encodeTime(time: number): string {
+  const digits: number[] = [];
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    digits.unshift(time % 32);
+    time = Math.floor(time / 32);
+  }
+  return encodeDigits(digits);
+}
+
+/** 랜덤 부분 +1 (자리올림이 끝까지 가면 false) */
+function incrementRandom(): boolean {
+  for (let i = lastRandom.length - 1; i >= 0; i--) {
+    if (lastRandom[i] < 31) {
+      lastRandom[i]++;
+      return true;
+    }
+    lastRandom[i] = 0;
+  }
+  return false;
+}
+
+/**
+ * 이 기기의 ID (처음 호출 시 만들어 localStorage에 보관, 저장할 수 없으면 이번 실행 동안만 유지)
+ */
+export function getDeviceId(): string {
+  if (deviceId) return deviceId;
+  try {
+    const stored = localStorage.getItem(DEVICE_ID_KEY);
+    if (stored && DEVICE_ID_PATTERN.test(stored)) {
+      deviceId = stored;
+      return deviceId;
+    }
+  } catch {
+    // localStorage 없음 (테스트/비공개 모드)
+  }
+  deviceId = encodeDigits(randomDigits(DEVICE_ID_LENGTH));
+  try {
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  } catch {
+    // 이번 실행 동안만 유지
+  }
+  return deviceId;
+}
+
+/**
+ * ULID (단조 증가)
+ */
+export function ulid(now = Date.now()): string {
+  if (now > lastTime || !incrementRandom()) {
+    lastTime = Math.max(now, lastTime + 1);
+    lastRandom = randomDigits(RANDOM_LENGTH);
+  }
+  return encodeTime(lastTime) + encodeDigits(lastRandom);
+}
 
 /**
- * 고유 ID 생성
- * timestamp + counter로 충돌 방지
+ * 고유 ID 생성 (기기 ID + ULID)
  */
 export function generateId(): string {
-  idCounter = (idCounter + 1) % 1000;
-  return `${Date.now().toString(36)}-${idCounter.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  return `${getDeviceId()}-${ulid()}`;
 }
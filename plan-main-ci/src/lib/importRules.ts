@@ -0,0 +1,85 @@
+import type { ActivityId, Block, BlockImportRef, ImportKeywordRule } from "./types";
+import { ICS_UID_DOMAIN } from "./icsExport";
+import { shiftBlockToDate, sliceBlocksForWindow } from "./daySpans";
+
+/**
+ * 가져오기(.ics / 타임트래커 CSV) 공통: 키워드 → activity 매핑, importRef 기준 중복 제거,
+ * 덮어쓸 기존 블록 미리보기
+ */
+
+export interface OverwrittenBlock {
+  block: Block;
+  lostMin: number;
+  removed: boolean;
+}
+
+export function matchActivityByKeyword(
+  text: string,
+  rules: ImportKeywordRule[],
+  fallback: ActivityId
+): ActivityId {
+  const haystack = text.toLowerCase();
+  const rule = rules.find((r) => r.keyword.trim() && haystack.includes(r.keyword.trim().toLowerCase()));
+  return rule?.activityId ?? fallback;
+}
+
+export function importRefKey(ref: BlockImportRef): string {
+  return ref.recurrenceId ? `${ref.uid}#${ref.recurrenceId}` : ref.uid;
+}
+
+/**
+ * 이미 가져온 항목(같은 importRef)과 이 앱에서 .ics로 내보낸 일정(UID = 블록 id)을 걸러낸다
+ */
+export function partitionDuplicateImports(
+  existing: Block[],
+  candidates: Block[]
+): { fresh: Block[]; duplicates: Block[] } {
+  const seenKeys = new Set(existing.flatMap((b) => (b.importRef ? [importRefKey(b.importRef)] : [])));
+  const existingIds = new Set(existing.map((b) => b.id));
+  const ownSuffix = `@${ICS_UID_DOMAIN}`;
+
+  const fresh: Block[] = [];
+  const duplicates: Block[] = [];
+  for (const block of candidates) {
+    const ref = block.importRef;
+    const key = ref ? importRefKey(ref) : undefined;
+    const ownId = ref?.uid.endsWith(ownSuffix) ? ref.uid.slice(0, -ownSuffix.length) : undefined;
+    if ((key && seenKeys.has(key)) || (ownId && existingIds.has(ownId))) {
+      duplicates.push(block);
+      continue;
+    }
+    if (key) seenKeys.add(key);
+    fresh.push(block);
+  }
+  return { fresh, duplicates };
+}
+
+/**
+ * 가져올 블록이 덮어쓸 기존 블록 (같은 레이어에서 겹치는 분, 자정을 넘는 블록 포함)
+ */
+export function previewOverwrites(
+  blocksByDate: Record<string, Block[]>,
+  incoming: Block[]
+): OverwrittenBlock[] {
+  // 기존 블록마다 1분 단위로 덮이는 분을 센다 (가져오는 블록끼리 겹쳐도 두 번 세지 않도록)
+  const coveredById = new Map<string, { block: Block; covered: Set<number> }>();
+  for (const other of incoming) {
+    for (const { block } of sliceBlocksForWindow(blocksByDate, other.dateISO, other.startMin, other.endMin)) {
+      if (block.layer !== other.layer) continue;
+      const span = shiftBlockToDate(other, block.dateISO);
+      if (!coveredById.has(block.id)) coveredById.set(block.id, { block, covered: new Set() });
+      const { covered } = coveredById.get(block.id)!;
+      for (let m = Math.max(block.startMin, span.startMin); m < Math.min(block.endMin, span.endMin); m++) {
+        covered.add(m);
+      }
+    }
+  }
+
+  const out: OverwrittenBlock[] = [];
+  for (const { block, covered } of coveredById.values()) {
+    if (covered.size > 0) {
+      out.push({ block, lostMin: covered.size, removed: covered.size >= block.endMin - block.startMin });
+    }
+  }
+  return out.sort((a, b) => a.block.dateISO.localeCompare(b.block.dateISO) || a.block.startMin - b.block.startMin);
+}
@@ -0,0 +1,218 @@
+import type { Block, PersistedStateV2 } from "./types";
+import type { StorageAdapter } from "./storageAdapter";
+import { loadState, saveMigrationReport, StorageError, toStorageError } from "./storage";
+import { CURRENT_SCHEMA_VERSION, MigrationError, migrateToCurrent } from "./migrations";
+
+const DB_NAME = "life-log-planner";
+const DB_VERSION = 1;
+
+// meta: 블록을 제외한 PersistedStateV2 (key = "state") + 마이그레이션 기록
+// blocks: dateISO -> Block[]
+const META_STORE = "meta";
+const BLOCKS_STORE = "blocks";
+const META_STATE_KEY = "state";
+const META_MIGRATED_KEY = "migratedFromLocalStorage";
+// 스키마 마이그레이션 직전 원본 (`${META_BACKUP_KEY_PREFIX}${fromVersion}`)
+const META_BACKUP_KEY_PREFIX = "backup.v";
+
+export function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof indexedDB !== "undefined" && indexedDB !== null;
+  } catch {
+    return false;
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, DB_VERSION);
+    } catch (err) {
+      reject(new StorageError("unavailable", "IndexedDB를 열 수 없습니다", { cause: err }));
+      return;
+    }
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (!db.objectStoreNames.contains(BLOCKS_STORE)) db.createObjectStore(BLOCKS_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(new StorageError("unavailable", "IndexedDB를 열 수 없습니다", { cause: request.error }));
+    request.onblocked = () =>
+      reject(new StorageError("unavailable", "다른 탭이 IndexedDB 업그레이드를 막고 있습니다"));
+  });
+}
+
+function stripBlocks(state: PersistedStateV2): PersistedStateV2 {
+  return { ...state, blocksByDate: {} };
+}
+
+/**
+ * IndexedDB 어댑터
+ * 블록은 날짜별 레코드로 저장해서 보이는 날짜/주만 lazy 로드한다.
+ * 최초 실행 시 localStorage(v2, 없으면 v1)의 데이터를 옮겨온다.
+ */
+export function createIndexedDBAdapter(): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((err) => {
+        dbPromise = null;
+        throw err;
+      });
+    }
+    return dbPromise;
+  };
+
+  async function migrateFromLocalStorage(db: IDBDatabase): Promise<PersistedStateV2 | null> {
+    const legacy = loadState();
+    if (!legacy) return null;
+
+    const tx = db.transaction([META_STORE, BLOCKS_STORE], "readwrite");
+    const meta = tx.objectStore(META_STORE);
+    const blocks = tx.objectStore(BLOCKS_STORE);
+    meta.put(stripBlocks(legacy), META_STATE_KEY);
+    meta.put(Date.now(), META_MIGRATED_KEY);
+    for (const [dateISO, list] of Object.entries(legacy.blocksByDate || {})) {
+      if (list.length > 0) blocks.put(list, dateISO);
+    }
+    await transactionDone(tx);
+    // localStorage 원본은 백업으로 남겨둔다
+    return stripBlocks(legacy);
+  }
+
+  /**
+   * 구버전 스키마로 저장된 IndexedDB 데이터를 현재 버전으로 올린다
+   * 블록까지 합친 원본을 meta에 백업한 뒤 전체를 다시 기록한다
+   */
+  async function migrateStored(db: IDBDatabase, stored: PersistedStateV2): Promise<PersistedStateV2> {
+    const readTx = db.transaction(BLOCKS_STORE, "readonly");
+    const store = readTx.objectStore(BLOCKS_STORE);
+    const [keys, values] = await Promise.all([
+      promisifyRequest(store.getAllKeys()),
+      promisifyRequest<Block[][]>(store.getAll()),
+    ]);
+    const blocksByDate: Record<string, Block[]> = {};
+    keys.forEach((key, i) => {
+      blocksByDate[String(key)] = values[i];
+    });
+
+    const payload = { ...stored, blocksByDate };
+    const { state, fromVersion, report } = migrateToCurrent(payload);
+
+    const tx = db.transaction([META_STORE, BLOCKS_STORE], "readwrite");
+    const meta = tx.objectStore(META_STORE);
+    const blocks = tx.objectStore(BLOCKS_STORE);
+    meta.put(payload, `${META_BACKUP_KEY_PREFIX}${fromVersion}`);
+    meta.put(stripBlocks(state), META_STATE_KEY);
+    blocks.clear();
+    for (const [dateISO, list] of Object.entries(state.blocksByDate || {})) {
+      if (list.length > 0) blocks.put(list, dateISO);
+    }
+    await transactionDone(tx);
+    saveMigrationReport(report);
+    return stripBlocks(state);
+  }
+
+  return {
+    backend: "indexedDB",
+    lazyBlocks: true,
+
+    async load() {
+      try {
+        const db = await getDb();
+        const tx = db.transaction(META_STORE, "readonly");
+        const stored = await promisifyRequest<PersistedStateV2 | undefined>(
+          tx.objectStore(META_STORE).get(META_STATE_KEY)
+        );
+        if (stored) {
+          if (stored.schemaVersion === CURRENT_SCHEMA_VERSION) return stripBlocks(stored);
+          return await migrateStored(db, stored);
+        }
+        return await migrateFromLocalStorage(db);
+      } catch (err) {
+        if (err instanceof MigrationError) throw err;
+        throw toStorageError(err, "IndexedDB 로드 실패");
+      }
+    },
+
+    async loadBlocks(dateISOs) {
+      try {
+        const db = await getDb();
+        const tx = db.transaction(BLOCKS_STORE, "readonly");
+        const store = tx.objectStore(BLOCKS_STORE);
+        const result: Record<string, Block[]> = {};
+
+        if (!dateISOs) {
+          const [keys, values] = await Promise.all([
+            promisifyRequest(store.getAllKeys()),
+            promisifyRequest<Block[][]>(store.getAll()),
+          ]);
+          keys.forEach((key, i) => {
+            result[String(key)] = values[i];
+          });
+          return result;
+        }
+
+        const lists = await Promise.all(
+          dateISOs.map((dateISO) => promisifyRequest<Block[] | undefined>(store.get(dateISO)))
+        );
+        dateISOs.forEach((dateISO, i) => {
+          const list = lists[i];
+          if (list) result[dateISO] = list;
+        });
+        return result;
+      } catch (err) {
+        throw toStorageError(err, "IndexedDB 블록 로드 실패");
+      }
+    },
+
+    async save(state, dirtyDates) {
+      try {
+        const db = await getDb();
+        const tx = db.transaction([META_STORE, BLOCKS_STORE], "readwrite");
+        tx.objectStore(META_STORE).put(stripBlocks(state), META_STATE_KEY);
+        const blocks = tx.objectStore(BLOCKS_STORE);
+        for (const dateISO of dirtyDates) {
+          const list = state.blocksByDate[dateISO];
+          if (list && list.length > 0) {
+            blocks.put(list, dateISO);
+          } else {
+            blocks.delete(dateISO);
+          }
+        }
+        await transactionDone(tx);
+      } catch (err) {
+        throw toStorageError(err, "IndexedDB 저장 실패");
+      }
+    },
+
+    async estimateUsage() {
+      if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+      try {
+        const { usage, quota } = await navigator.storage.estimate();
+        if (usage === undefined || quota === undefined) return null;
+        return { usedBytes: usage, quotaBytes: quota };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
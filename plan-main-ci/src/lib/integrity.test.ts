@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { checkIntegrity, repairIntegrity } from "./integrity";
+import type { Activity, Block } from "./types";
+
+const DAY = "2026-03-02";
+const NEXT = "2026-03-03";
+const activities: Activity[] = [
+  { id: "work", name: "업무", color: "#3b82f6" },
+  { id: "rest", name: "휴식", color: "#22c55e" },
+];
+
+function block(id: string, startMin: number, endMin: number, extra: Partial<Block> = {}): Block {
+  return {
+    id,
+    dateISO: DAY,
+    startMin,
+    endMin,
+    activityId: "work",
+    layer: "execute",
+    source: "manual",
+    createdAt: 1,
+    updatedAt: 1,
+    ...extra,
+  };
+}
+
+const kinds = (blocksByDate: Record<string, Block[]>) =>
+  checkIntegrity(blocksByDate, activities).issues.map((i) => [i.kind, i.blockId, i.otherBlockId]);
+
+const ranges = (list: Block[] | undefined) => (list ?? []).map((b) => [b.id, b.startMin, b.endMin]);
+
+describe("checkIntegrity", () => {
+  it("범위, 날짜 키, 활동 위반을 블록마다 보고한다", () => {
+    const report = checkIntegrity(
+      {
+        [DAY]: [
+          block("nan", Number.NaN, 60),
+          block("zero", 60, 60),
+          block("inverted", 120, 90),
+          block("late", 1440, 1500),
+          block("moved", 600, 660, { dateISO: NEXT }),
+          block("orphan", 700, 720, { activityId: "gone" }),
+        ],
+      },
+      activities
+    );
+
+    expect(report.blockCount).toBe(6);
+    expect(report.issues.map((i) => [i.kind, i.blockId])).toEqual([
+      ["invalidRange", "nan"],
+      ["zeroLength", "zero"],
+      ["invertedRange", "inverted"],
+      ["invalidRange", "late"],
+      ["dateMismatch", "moved"],
+      ["orphanActivity", "orphan"],
+    ]);
+    expect(report.counts.invalidRange).toBe(2);
+  });
+
+  it("같은 레이어의 중복과 겹침을 보고하고, 다른 레이어는 겹쳐도 된다", () => {
+    expect(
+      kinds({
+        [DAY]: [
+          block("a", 540, 600),
+          block("a2", 540, 600),
+          block("b", 570, 630, { activityId: "rest" }),
+          block("plan", 540, 600, { layer: "plan" }),
+        ],
+      })
+    ).toEqual([
+      ["duplicate", "a2", "a"],
+      ["overlap", "b", "a"],
+      ["overlap", "b", "a2"],
+    ]);
+  });
+
+  it("자정을 넘어온 전날 블록과의 겹침도 다음 날짜에서 보고한다", () => {
+    expect(
+      kinds({
+        [DAY]: [block("night", 1380, 1500)],
+        [NEXT]: [block("early", 30, 90, { dateISO: NEXT, activityId: "rest" })],
+      })
+    ).toEqual([["overlap", "early", "night"]]);
+  });
+});
+
+describe("repairIntegrity", () => {
+  const options = { fallbackActivityId: "rest", now: 99 };
+
+  it("범위를 보정하고 제 날짜로 옮기고 활동을 다시 지정한다", () => {
+    const result = repairIntegrity(
+      {
+        [DAY]: [
+          block("nan", Number.NaN, 60),
+          block("zero", 60, 60),
+          block("inverted", 120, 90),
+          block("late", 1440, 1500),
+          block("moved", 600, 660, { dateISO: NEXT }),
+          block("orphan", 700, 720, { activityId: "gone" }),
+        ],
+      },
+      activities,
+      options
+    );
+
+    expect(ranges(result.blocksByDate[DAY])).toEqual([
+      ["inverted", 90, 120],
+      ["orphan", 700, 720],
+    ]);
+    expect(ranges(result.blocksByDate[NEXT])).toEqual([
+      ["late", 0, 60],
+      ["moved", 600, 660],
+    ]);
+    expect(result.blocksByDate[DAY].find((b) => b.id === "orphan")).toMatchObject({ activityId: "rest", updatedAt: 99 });
+    expect(result).toMatchObject({ removed: 2, adjusted: 2, moved: 2, reassigned: 1 });
+    expect(checkIntegrity(result.blocksByDate, activities).issues).toEqual([]);
+  });
+
+  it("중복은 하나만 남기고, 겹치면 나중에 쓴 블록이 자리를 차지한다", () => {
+    const result = repairIntegrity(
+      {
+        [DAY]: [
+          block("a", 540, 600),
+          block("a2", 540, 600, { updatedAt: 2 }),
+          block("b", 570, 630, { activityId: "rest", updatedAt: 3 }),
+          block("night", 1380, 1500, { updatedAt: 2 }),
+        ],
+        [NEXT]: [block("early", 30, 90, { dateISO: NEXT, activityId: "rest", updatedAt: 1 })],
+      },
+      activities,
+      options
+    );
+
+    expect(ranges(result.blocksByDate[DAY])).toEqual([
+      ["a2", 540, 570],
+      ["b", 570, 630],
+      ["night", 1380, 1500],
+    ]);
+    expect(ranges(result.blocksByDate[NEXT])).toEqual([["early", 60, 90]]);
+    expect(result.removed).toBe(1);
+    expect(checkIntegrity(result.blocksByDate, activities).issues).toEqual([]);
+  });
+
+  it("손댈 것이 없는 날짜는 배열을 그대로 돌려준다", () => {
+    const clean = [block("a", 540, 600)];
+    const result = repairIntegrity({ [DAY]: clean }, activities, options);
+
+    expect(result.blocksByDate[DAY]).toBe(clean);
+    expect(result).toMatchObject({ removed: 0, adjusted: 0, moved: 0, reassigned: 0 });
+  });
+});
@@ -0,0 +1,308 @@
+import type { Activity, ActivityId, Block } from "./types";
+import { DAY_MINUTES, MAX_BLOCK_END_MIN, eraseSpanAcrossDays, rehomeBlock, sliceBlocksForWindow } from "./daySpans";
+
+/**
+ * 블록 저장소 무결성 검사 / 복구
+ * 칠하기는 셀마다 블록을 겹쳐 쌓을 수 있고, 활동 삭제·가져오기·구버전 데이터로
+ * 잘못된 블록이 남는다. checkIntegrity는 위반을 모두 보고하고,
+ * repairIntegrity는 한 번에 정리한다 (범위 보정 → 날짜 이동 → 활동 재지정 → 중복 제거 → 겹침 자르기).
+ */
+
+export type IntegrityIssueKind =
+  | "invalidRange" // 숫자가 아니거나 startMin이 0~1439, endMin이 최대 길이를 벗어남
+  | "zeroLength" // startMin === endMin
+  | "invertedRange" // startMin > endMin
+  | "dateMismatch" // blocksByDate 키 ≠ block.dateISO
+  | "orphanActivity" // 존재하지 않는 activityId
+  | "duplicate" // 같은 날짜·레이어·활동·시간의 블록이 여러 개
+  | "overlap"; // 같은 레이어에서 시간이 겹침 (자정을 넘어온 블록 포함)
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  /** blocksByDate 키 */
+  dateKey: string;
+  blockId: string;
+  /** duplicate / overlap의 상대 블록 */
+  otherBlockId?: string;
+  message: string;
+}
+
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  counts: Record<IntegrityIssueKind, number>;
+  blockCount: number;
+}
+
+export interface IntegrityRepairOptions {
+  /** 없는 활동을 가리키는 블록을 옮길 활동 */
+  fallbackActivityId: ActivityId;
+  now?: number;
+}
+
+export interface IntegrityRepairResult {
+  blocksByDate: Record<string, Block[]>;
+  /** 삭제된 블록 수 (길이 0, 중복, 완전히 덮인 겹침) */
+  removed: number;
+  /** 시간 범위가 바뀐 블록 수 (보정, 겹침 자르기로 생긴 조각 포함) */
+  adjusted: number;
+  moved: number;
+  reassigned: number;
+}
+
+export const INTEGRITY_ISSUE_LABELS: Record<IntegrityIssueKind, string> = {
+  invalidRange: "범위를 벗어난 시간",
+  zeroLength: "길이 0 블록",
+  invertedRange: "시작 ≥ 종료",
+  dateMismatch: "날짜 키 불일치",
+  orphanActivity: "없는 활동",
+  duplicate: "중복 블록",
+  overlap: "같은 레이어 겹침",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function emptyCounts(): Record<IntegrityIssueKind, number> {
+  return {
+    invalidRange: 0,
+    zeroLength: 0,
+    invertedRange: 0,
+    dateMismatch: 0,
+    orphanActivity: 0,
+    duplicate: 0,
+    overlap: 0,
+  };
+}
+
+function isMinute(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function rangeIssue(block: Block): IntegrityIssueKind | null {
+  if (!isMinute(block.startMin) || !isMinute(block.endMin)) return "invalidRange";
+  if (block.startMin === block.endMin) return "zeroLength";
+  if (block.startMin > block.endMin) return "invertedRange";
+  if (block.startMin < 0 || block.startMin >= DAY_MINUTES || block.endMin > MAX_BLOCK_END_MIN) return "invalidRange";
+  return null;
+}
+
+function duplicateKey(block: Block): string {
+  return `${block.layer}|${block.activityId}|${block.startMin}|${block.endMin}`;
+}
+
+/** 나중에 쓰인 블록이 이긴다 (칠하기에서 마지막 셀이 보이는 것과 같게) */
+function byWriteOrder(a: Block, b: Block): number {
+  return (a.updatedAt ?? 0) - (b.updatedAt ?? 0) || (a.createdAt ?? 0) - (b.createdAt ?? 0);
+}
+
+function formatRange(block: Block): string {
+  return `${block.startMin}~${block.endMin}분`;
+}
+
+export function checkIntegrity(
+  blocksByDate: Record<string, Block[]>,
+  activities: Activity[]
+): IntegrityReport {
+  const knownActivityIds = new Set(activities.map((a) => a.id));
+  const issues: IntegrityIssue[] = [];
+  const counts = emptyCounts();
+  let blockCount = 0;
+  const report = (issue: IntegrityIssue) => {
+    issues.push(issue);
+    counts[issue.kind]++;
+  };
+
+  for (const [dateKey, list] of Object.entries(blocksByDate)) {
+    blockCount += list.length;
+    const valid: Block[] = [];
+
+    for (const block of list) {
+      const kind = rangeIssue(block);
+      if (kind) {
+        report({ kind, dateKey, blockId: block.id, message: `${dateKey} 블록 ${block.id}: ${formatRange(block)}` });
+      } else if (block.dateISO === dateKey) {
+        // 날짜가 어긋난 블록은 이 날짜의 겹침 검사에서 뺀다 (복구 시 제 날짜로 옮겨진다)
+        valid.push(block);
+      }
+      if (block.dateISO !== dateKey) {
+        report({
+          kind: "dateMismatch",
+          dateKey,
+          blockId: block.id,
+          message: `${dateKey} 블록 ${block.id}: dateISO가 ${block.dateISO}입니다`,
+        });
+      }
+      if (!knownActivityIds.has(block.activityId)) {
+        report({
+          kind: "orphanActivity",
+          dateKey,
+          blockId: block.id,
+          message: `${dateKey} 블록 ${block.id}: 활동 "${block.activityId}"이(가) 없습니다`,
+        });
+      }
+    }
+
+    // 앞 날짜에서 자정을 넘어온 블록 (이 날짜 좌표로 옮김) — 둘 다 넘어온 블록인 쌍은 원래 날짜에서 보고된다
+    const spilled = sliceBlocksForWindow(blocksByDate, dateKey)
+      .filter((slice) => slice.block.dateISO !== dateKey && slice.continuesBefore && rangeIssue(slice.block) === null)
+      .map((slice) => ({ ...slice.block, startMin: slice.startMin, endMin: slice.endMin }));
+    const spilledIds = new Set(spilled.map((b) => b.id));
+
+    // 겹침: 시작 순으로 훑으며 아직 끝나지 않은 같은 레이어 블록과 비교
+    const sorted = [...valid, ...spilled].sort((a, b) => a.startMin - b.startMin);
+    const seen = new Map<string, Block>();
+    const active: Block[] = [];
+    for (const block of sorted) {
+      const key = duplicateKey(block);
+      const twin = spilledIds.has(block.id) ? undefined : seen.get(key);
+      if (twin) {
+        report({
+          kind: "duplicate",
+          dateKey,
+          blockId: block.id,
+          otherBlockId: twin.id,
+          message: `${dateKey} 블록 ${block.id}: ${twin.id}와 같은 ${block.layer} 블록 (${formatRange(block)})`,
+        });
+      } else if (!spilledIds.has(block.id)) {
+        seen.set(key, block);
+      }
+
+      for (let i = active.length - 1; i >= 0; i--) {
+        if (active[i].endMin <= block.startMin) active.splice(i, 1);
+      }
+      for (const other of active) {
+        if (other.layer !== block.layer || duplicateKey(other) === key) continue;
+        if (spilledIds.has(other.id) && spilledIds.has(block.id)) continue;
+        report({
+          kind: "overlap",
+          dateKey,
+          blockId: block.id,
+          otherBlockId: other.id,
+          message: `${dateKey} ${block.layer}: ${other.id} (${formatRange(other)})와 ${block.id} (${formatRange(block)})가 겹칩니다`,
+        });
+      }
+      active.push(block);
+    }
+  }
+
+  return { issues, counts, blockCount };
+}
+
+export function repairIntegrity(
+  blocksByDate: Record<string, Block[]>,
+  activities: Activity[],
+  options: IntegrityRepairOptions
+): IntegrityRepairResult {
+  const now = options.now ?? Date.now();
+  const knownActivityIds = new Set(activities.map((a) => a.id));
+  let removed = 0;
+  let moved = 0;
+  let reassigned = 0;
+  const adjustedIds = new Set<string>();
+
+  // 1) 날짜 키 정리, 2) 범위 보정, 3) 활동 재지정 — 블록 단위로 처리해 날짜별로 다시 모은다
+  const regrouped: Record<string, Block[]> = {};
+  const touched = new Set<string>();
+  for (const [dateKey, list] of Object.entries(blocksByDate)) {
+    for (const original of list) {
+      let block = original;
+
+      if (block.dateISO !== dateKey) {
+        // dateISO가 올바른 날짜면 그 날짜로 옮기고, 아니면 키를 따른다
+        if (typeof block.dateISO !== "string" || !ISO_DATE.test(block.dateISO)) {
+          block = { ...block, dateISO: dateKey, updatedAt: now };
+        }
+        moved++;
+      }
+
+      if (rangeIssue(block)) {
+        if (!isMinute(block.startMin) || !isMinute(block.endMin)) {
+          removed++;
+          touched.add(dateKey);
+          continue;
+        }
+        // 뒤집힌 범위는 맞바꾸고, 0~1439를 벗어난 시작은 해당 날짜로 옮긴 뒤 최대 길이로 자른다
+        const swapped = rehomeBlock({
+          ...block,
+          startMin: Math.min(block.startMin, block.endMin),
+          endMin: Math.max(block.startMin, block.endMin),
+        });
+        const endMin = Math.min(MAX_BLOCK_END_MIN, swapped.endMin);
+        if (endMin <= swapped.startMin) {
+          removed++;
+          touched.add(dateKey);
+          continue;
+        }
+        if (swapped.dateISO !== block.dateISO) moved++;
+        block = { ...swapped, endMin, updatedAt: now };
+        adjustedIds.add(block.id);
+      }
+
+      if (!knownActivityIds.has(block.activityId)) {
+        block = { ...block, activityId: options.fallbackActivityId, updatedAt: now };
+        reassigned++;
+      }
+
+      const targetKey = block.dateISO;
+      if (block !== original || targetKey !== dateKey) {
+        touched.add(dateKey);
+        touched.add(targetKey);
+      }
+      if (!regrouped[targetKey]) regrouped[targetKey] = [];
+      regrouped[targetKey].push(block);
+    }
+  }
+
+  // 4) 중복 제거
+  const deduped: Block[] = [];
+  for (const list of Object.values(regrouped)) {
+    const newestByKey = new Map<string, Block>();
+    for (const block of [...list].sort(byWriteOrder)) newestByKey.set(duplicateKey(block), block);
+    const kept = list.filter((b) => newestByKey.get(duplicateKey(b)) === b);
+    removed += list.length - kept.length;
+    deduped.push(...kept);
+  }
+
+  // 5) 겹침 자르기 — 나중에 쓰인 블록이 (자정을 넘는 부분까지) 자리를 차지한다
+  const resolved: Record<string, Block[]> = {};
+  for (const block of [...deduped].sort(byWriteOrder)) {
+    Object.assign(resolved, eraseSpanAcrossDays(resolved, block.dateISO, block));
+    if (!resolved[block.dateISO]) resolved[block.dateISO] = [];
+    resolved[block.dateISO].push(block);
+  }
+
+  const before = new Map(deduped.map((b) => [b.id, b]));
+  const survivingIds = new Set<string>();
+  const result: Record<string, Block[]> = {};
+  for (const [dateKey, list] of Object.entries(resolved)) {
+    const next = list.map((block) => {
+      const prev = before.get(block.id);
+      if (
+        prev &&
+        !survivingIds.has(block.id) &&
+        prev.dateISO === block.dateISO &&
+        prev.startMin === block.startMin &&
+        prev.endMin === block.endMin
+      ) {
+        survivingIds.add(block.id);
+        return prev;
+      }
+      // 잘렸거나 가운데가 잘려 새로 생긴 조각
+      survivingIds.add(block.id);
+      adjustedIds.add(block.id);
+      return { ...block, updatedAt: now };
+    });
+
+    const original = blocksByDate[dateKey];
+    const unchanged =
+      !touched.has(dateKey) &&
+      original !== undefined &&
+      next.length === original.length &&
+      next.every((b) => original.includes(b));
+    // 바뀌지 않은 날짜는 배열 identity를 유지한다 (저장 시 dirty 판단)
+    if (unchanged) result[dateKey] = original;
+    else if (next.length > 0) result[dateKey] = next.sort((a, b) => a.startMin - b.startMin);
+  }
+  removed += deduped.filter((b) => !survivingIds.has(b.id)).length;
+
+  return { blocksByDate: result, removed, adjusted: adjustedIds.size, moved, reassigned };
+}
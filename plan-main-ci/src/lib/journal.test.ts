@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  JOURNAL_KEY,
+  clearJournal,
+  emptyDataChanges,
+  isEmptyDataChanges,
+  mergeDataChanges,
+  readJournal,
+  writeJournal,
+  type DataChanges,
+} from "./journal";
+import type { Block } from "./types";
+
+const store = new Map<string, string>();
+let quotaFull = false;
+vi.stubGlobal("localStorage", {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    if (quotaFull) throw new DOMException("full", "QuotaExceededError");
+    store.set(key, value);
+  },
+  removeItem: (key: string) => void store.delete(key),
+});
+
+const block = (id: string): Block => ({
+  id,
+  dateISO: "2026-03-02",
+  startMin: 540,
+  endMin: 600,
+  activityId: "work",
+  layer: "execute",
+  source: "drag",
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+function changes(extra: Partial<DataChanges>): DataChanges {
+  return { ...emptyDataChanges(), ...extra };
+}
+
+beforeEach(() => {
+  store.clear();
+  quotaFull = false;
+});
+
+describe("journal 기록", () => {
+  it("적은 변경과 실행 취소 기록을 그대로 읽는다", () => {
+    const written = changes({ slices: { theme: "dark" }, blocks: { "2026-03-02": [block("a")] }, completeDates: ["2026-03-02"] });
+    const history = { past: [], future: [] };
+
+    expect(writeJournal(written, history, 42)).toBe(true);
+    expect(readJournal()).toEqual({ version: 1, updatedAt: 42, ...written, history });
+  });
+
+  it("지우면 남지 않는다", () => {
+    writeJournal(changes({ slices: { theme: "dark" } }));
+    clearJournal();
+
+    expect(readJournal()).toBeNull();
+  });
+
+  it("저장 공간이 없으면 false를 돌려주고 던지지 않는다", () => {
+    quotaFull = true;
+
+    expect(writeJournal(changes({ slices: { theme: "dark" } }))).toBe(false);
+  });
+
+  it("손상되었거나 버전이 다른 journal은 무시한다", () => {
+    store.set(JOURNAL_KEY, "{");
+    expect(readJournal()).toBeNull();
+
+    store.set(JOURNAL_KEY, JSON.stringify({ version: 2, slices: {}, blocks: {} }));
+    expect(readJournal()).toBeNull();
+  });
+});
+
+describe("mergeDataChanges", () => {
+  it("같은 슬라이스/날짜는 뒤 변경이 이기고, 다시 바뀐 날짜의 completeDates는 뒤 변경을 따른다", () => {
+    const merged = mergeDataChanges(
+      changes({
+        slices: { theme: "dark", startHour: 6 },
+        blocks: { "2026-03-02": [block("a")], "2026-03-03": [block("b")] },
+        completeDates: ["2026-03-02", "2026-03-03"],
+      }),
+      changes({ slices: { theme: "light" }, blocks: { "2026-03-02": null } })
+    );
+
+    expect(merged.slices).toEqual({ theme: "light", startHour: 6 });
+    expect(merged.blocks).toEqual({ "2026-03-02": null, "2026-03-03": [block("b")] });
+    expect(merged.completeDates).toEqual(["2026-03-03"]);
+  });
+
+  it("슬라이스와 블록이 모두 없으면 빈 변경이다", () => {
+    expect(isEmptyDataChanges(emptyDataChanges())).toBe(true);
+    expect(isEmptyDataChanges(changes({ blocks: { "2026-03-02": null } }))).toBe(false);
+  });
+});
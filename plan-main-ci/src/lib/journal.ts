@@ -0,0 +1,82 @@
+import type { Block, PersistedHistory } from "./types";
+
+/**
+ * 쓰기 전 기록 (write-ahead journal)
+ * 디바운스 저장 전에 앱이 닫혀도 마지막 편집을 잃지 않도록, 저장되지 않은 변경을
+ * 동기 API인 localStorage에 바로 적어 둔다. 저장이 끝나면 지우고, 다음 실행 때 남아 있으면
+ * 로드한 상태 위에 다시 적용한다. 변경은 슬라이스/날짜 단위의 최신 값이라 여러 번 적용해도 결과가 같다.
+ * 실행 취소 기록도 함께 적어서, 저장 전에 닫혀도 마지막 편집을 되돌릴 수 있게 한다.
+ */
+
+export const JOURNAL_KEY = "life-log-planner-journal";
+
+/** 스토어 데이터 변경 묶음 (탭 간 전달과 journal이 같은 형태를 쓴다) */
+export interface DataChanges {
+  /** 바뀐 스토어 슬라이스 (통째로) */
+  slices: Record<string, unknown>;
+  /** 바뀐 날짜의 블록 목록 (null = 날짜 삭제) */
+  blocks: Record<string, Block[] | null>;
+  /** blocks 중 저장소에서 모두 불러온 상태였던 날짜 (아니면 저장된 블록과 합쳐야 한다) */
+  completeDates: string[];
+}
+
+export interface SaveJournal extends DataChanges {
+  version: 1;
+  updatedAt: number;
+  /** 변경을 적용한 상태 기준의 실행 취소 기록 */
+  history?: PersistedHistory;
+}
+
+export function emptyDataChanges(): DataChanges {
+  return { slices: {}, blocks: {}, completeDates: [] };
+}
+
+/**
+ * 뒤 변경을 앞 변경 위에 겹친다 (같은 슬라이스/날짜는 뒤 값)
+ */
+export function mergeDataChanges(base: DataChanges, next: DataChanges): DataChanges {
+  const completeDates = new Set(base.completeDates);
+  for (const dateISO of Object.keys(next.blocks)) completeDates.delete(dateISO);
+  for (const dateISO of next.completeDates) completeDates.add(dateISO);
+  return {
+    slices: { ...base.slices, ...next.slices },
+    blocks: { ...base.blocks, ...next.blocks },
+    completeDates: [...completeDates],
+  };
+}
+
+export function isEmptyDataChanges(changes: DataChanges): boolean {
+  return Object.keys(changes.slices).length === 0 && Object.keys(changes.blocks).length === 0;
+}
+
+export function readJournal(): SaveJournal | null {
+  try {
+    const raw = localStorage.getItem(JOURNAL_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as SaveJournal;
+    return parsed?.version === 1 && parsed.slices && parsed.blocks ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * journal 기록 — 용량 부족 등으로 실패하면 false (저장 자체는 계속 시도된다)
+ */
+export function writeJournal(changes: DataChanges, history?: PersistedHistory, now = Date.now()): boolean {
+  try {
+    const journal: SaveJournal = { version: 1, updatedAt: now, ...changes, history };
+    localStorage.setItem(JOURNAL_KEY, JSON.stringify(journal));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function clearJournal(): void {
+  try {
+    localStorage.removeItem(JOURNAL_KEY);
+  } catch {
+    // localStorage를 쓸 수 없으면 journal도 없다
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  logicalDateISO,
+  logicalDatesToLoad,
+  logicalDayWindow,
+  logicalWallTimeOf,
+  projectBlocksOntoLogicalDay,
+} from "./logicalDay";
+import type { Block } from "./types";
+
+const seoul = () => "Asia/Seoul";
+// 서울 벽시계 시각 (UTC+9)
+const seoulTime = (dateISO: string, hour: number, minute = 0) =>
+  new Date(Date.parse(`${dateISO}T00:00:00Z`) + ((hour - 9) * 60 + minute) * 60_000);
+
+describe("logicalWallTimeOf", () => {
+  it("startHour 전의 새벽은 전날 좌표(1440 이상)로 본다", () => {
+    expect(logicalWallTimeOf(seoulTime("2026-03-02", 5, 59), 6, seoul)).toEqual({
+      dateISO: "2026-03-01",
+      minutes: 1799,
+    });
+    expect(logicalWallTimeOf(seoulTime("2026-03-02", 6), 6, seoul)).toEqual({ dateISO: "2026-03-02", minutes: 360 });
+  });
+
+  it("startHour가 0이면 달력 날짜와 같다", () => {
+    expect(logicalDateISO(seoulTime("2026-03-02", 0, 30), 0, seoul)).toBe("2026-03-02");
+    expect(logicalDateISO(seoulTime("2026-03-02", 0, 30), 1, seoul)).toBe("2026-03-01");
+  });
+
+  it("기기 시간대가 아니라 그날 시간대의 벽시계를 따른다", () => {
+    // 같은 시점이 서울에서는 3/2 07:00, 뉴욕에서는 3/1 17:00
+    const instant = seoulTime("2026-03-02", 7);
+
+    expect(logicalWallTimeOf(instant, 6, seoul)).toEqual({ dateISO: "2026-03-02", minutes: 420 });
+    expect(logicalWallTimeOf(instant, 6, () => "America/New_York")).toEqual({ dateISO: "2026-03-01", minutes: 1020 });
+  });
+});
+
+describe("논리적 하루 구간", () => {
+  it("startHour:00부터 다음 날 startHour:00까지", () => {
+    expect(logicalDayWindow(6)).toEqual({ startMin: 360, endMin: 1800 });
+  });
+
+  it("다음 날 새벽에 저장된 블록까지 불러와 그날 좌표로 옮긴다", () => {
+    const block = (id: string, dateISO: string, startMin: number, endMin: number): Block => ({
+      id,
+      dateISO,
+      startMin,
+      endMin,
+      activityId: "work",
+      layer: "execute",
+      source: "manual",
+      createdAt: 1,
+      updatedAt: 1,
+    });
+    const blocksByDate = {
+      "2026-03-02": [block("early", "2026-03-02", 120, 180), block("day", "2026-03-02", 540, 600)],
+      "2026-03-03": [block("dawn", "2026-03-03", 60, 420)],
+    };
+
+    expect(logicalDatesToLoad("2026-03-02", "2026-03-02", 6)).toContain("2026-03-03");
+    expect(logicalDatesToLoad("2026-03-02", "2026-03-02", 0)).not.toContain("2026-03-03");
+    expect(
+      projectBlocksOntoLogicalDay(blocksByDate, "2026-03-02", 6).map((b) => [b.id, b.startMin, b.endMin])
+    ).toEqual([
+      ["day", 540, 600],
+      ["dawn", 1500, 1800],
+    ]);
+  });
+});
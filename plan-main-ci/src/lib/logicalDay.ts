@@ -0,0 +1,61 @@
+import type { Block } from "./types";
+import { DAY_MINUTES, datesToLoadFor, projectBlocksOntoDay } from "./daySpans";
+import { addDaysISO, wallTimeInDayZone, wallTimeOf, type DayTimeZoneResolver } from "./time";
+
+/**
+ * 논리적 하루 (startHour 기준)
+ * 하루는 dateISO의 startHour:00부터 다음 날 startHour:00까지다 (startHour=6이면 새벽 0~6시는 전날에 속한다).
+ * 블록 저장은 그대로 시작 달력 날짜 기준이고, 화면·주간 보기·요약·내보내기는 이 구간으로 잘라 쓴다.
+ * 논리적 하루 좌표는 dateISO 00:00 기준 분이라 startHour*60 ~ startHour*60+1440 (새벽은 1440 이상)이다.
+ */
+
+export function dayStartMin(startHour: number): number {
+  return startHour * 60;
+}
+
+/**
+ * 논리적 하루 구간 [startMin, endMin) (dateISO 00:00 기준 분)
+ */
+export function logicalDayWindow(startHour: number): { startMin: number; endMin: number } {
+  const startMin = dayStartMin(startHour);
+  return { startMin, endMin: startMin + DAY_MINUTES };
+}
+
+/**
+ * 시점 → 논리적 날짜 + 그 날짜 좌표 (그날 시간대의 벽시계 기준, zoneForDate가 없으면 기기 시간대)
+ */
+export function logicalWallTimeOf(
+  date: Date,
+  startHour: number,
+  zoneForDate?: DayTimeZoneResolver
+): { dateISO: string; minutes: number } {
+  const wall = zoneForDate ? wallTimeInDayZone(date, zoneForDate) : wallTimeOf(date);
+  return wall.minutes < dayStartMin(startHour)
+    ? { dateISO: addDaysISO(wall.dateISO, -1), minutes: wall.minutes + DAY_MINUTES }
+    : wall;
+}
+
+/**
+ * 시각이 속한 논리적 날짜 (startHour 이전이면 전날)
+ */
+export function logicalDateISO(date: Date, startHour: number, zoneForDate?: DayTimeZoneResolver): string {
+  return logicalWallTimeOf(date, startHour, zoneForDate).dateISO;
+}
+
+/**
+ * 논리적 날짜 fromISO ~ toISO를 보거나 고칠 때 불러와야 하는 저장 날짜 (다음 날 새벽까지)
+ */
+export function logicalDatesToLoad(fromISO: string, toISO: string, startHour: number): string[] {
+  return datesToLoadFor(fromISO, startHour > 0 ? addDaysISO(toISO, 1) : toISO);
+}
+
+/**
+ * 렌더링용: 논리적 하루에 걸친 블록을 dateISO 좌표로 잘라낸 복사본
+ */
+export function projectBlocksOntoLogicalDay(
+  blocksByDate: Record<string, Block[]>,
+  dateISO: string,
+  startHour: number
+): Block[] {
+  return projectBlocksOntoDay(blocksByDate, dateISO, dayStartMin(startHour));
+}
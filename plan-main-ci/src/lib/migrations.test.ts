@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { getDeviceId } from "./id";
+import { CURRENT_SCHEMA_VERSION, MigrationError, createEmptyStateV2, migrateToCurrent } from "./migrations";
+import type { Block, PersistedStateV2 } from "./types";
+
+const activities = [{ id: "work", name: "업무", color: "#3b82f6" }];
+
+function legacyState() {
+  return {
+    activities,
+    day: {
+      "2026-01-15": {
+        "2026-01-15|09|0": { execute: "work" },
+        "2026-01-15|09|1": { execute: "work" },
+        "2026-01-15|09|2": { execute: "work" },
+        "2026-01-15|10|0": { overlay: "work" },
+      },
+    },
+    week: {},
+    checklist: {},
+    checklistBlocks: {},
+    startHour: 6,
+    theme: "light",
+  };
+}
+
+function block(id: string, startMin: number, endMin: number): Block {
+  return {
+    id,
+    dateISO: "2026-01-15",
+    startMin,
+    endMin,
+    activityId: "work",
+    layer: "execute",
+    source: "manual",
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+function failureReason(raw: unknown): string | undefined {
+  try {
+    migrateToCurrent(raw);
+  } catch (err) {
+    if (err instanceof MigrationError) return err.reason;
+    throw err;
+  }
+  return undefined;
+}
+
+function stateV2(blocks: Block[], extra: Partial<PersistedStateV2> = {}): PersistedStateV2 {
+  return { ...createEmptyStateV2(), activities, blocksByDate: { "2026-01-15": blocks }, ...extra };
+}
+
+describe("migrateToCurrent", () => {
+  it("v1 셀 그리드를 레이어별 블록으로 합친 뒤 현재 버전까지 올린다", () => {
+    const { state, fromVersion, applied } = migrateToCurrent(legacyState());
+
+    expect(fromVersion).toBe(1);
+    expect(applied.map((step) => step.to)).toEqual([2, 3]);
+    expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    const blocks = state.blocksByDate["2026-01-15"];
+    expect(blocks.map((b) => [b.layer, b.startMin, b.endMin])).toEqual([
+      ["execute", 540, 570],
+      ["overlay", 600, 610],
+    ]);
+  });
+
+  it("v2 → v3: 구버전 ID는 이 기기 ID + ULID로 다시 발급하고 참조도 따라간다", () => {
+    const legacyId = "migrated_exec_2026-01-15_540";
+    const linkedBlock: Block = { ...block("linked", 600, 660), planRef: { planBlockId: legacyId, matchRule: "userPinned" } };
+    const { state } = migrateToCurrent(
+      stateV2([block(legacyId, 540, 600), linkedBlock], {
+        completionEventsByDate: {
+          "2026-01-15": [{ id: "c1", dateISO: "2026-01-15", blockId: legacyId, atMin: 600, perceivedDone: true, createdAt: 1 }],
+        },
+        memosByDate: {
+          "2026-01-15": [{ id: "migrated_memo_1", dateISO: "2026-01-15", content: "메모", pinnedToBlockId: legacyId, createdAt: 1 }],
+        },
+      })
+    );
+
+    const [migrated, linked] = state.blocksByDate["2026-01-15"];
+    expect(migrated.id).toMatch(new RegExp(`^${getDeviceId()}-[0-9A-HJKMNP-TV-Z]{26}$`));
+    expect(linked.planRef?.planBlockId).toBe(migrated.id);
+    expect(state.completionEventsByDate?.["2026-01-15"][0].blockId).toBe(migrated.id);
+    const [memo] = state.memosByDate?.["2026-01-15"] ?? [];
+    expect(memo.id).not.toMatch(/^migrated_/);
+    expect(memo.pinnedToBlockId).toBe(migrated.id);
+  });
+
+  it("v2 → v3: 같은 구버전 ID도 옮길 때마다 다른 새 ID가 된다", () => {
+    const migrateOnce = () => migrateToCurrent(stateV2([block("migrated_exec_2026-01-15_540", 540, 600)])).state;
+
+    expect(migrateOnce().blocksByDate["2026-01-15"][0].id).not.toBe(migrateOnce().blocksByDate["2026-01-15"][0].id);
+  });
+
+  it("v2 → v3: 중복 ID는 첫 블록만 유지하고 경고를 남긴다", () => {
+    const { state, report } = migrateToCurrent(stateV2([block("dup", 540, 600), block("dup", 600, 660)]));
+
+    const ids = state.blocksByDate["2026-01-15"].map((b) => b.id);
+    expect(ids[0]).toBe("dup");
+    expect(ids[1]).not.toBe("dup");
+    expect(report.steps[0].warnings).toHaveLength(1);
+  });
+
+  it("현재 버전 저장본은 그대로 통과한다", () => {
+    const current = { ...stateV2([block("a", 540, 600)]), schemaVersion: CURRENT_SCHEMA_VERSION };
+    const { state, applied } = migrateToCurrent(current);
+
+    expect(applied).toEqual([]);
+    expect(state.blocksByDate).toEqual(current.blocksByDate);
+  });
+
+  it("버전을 알 수 없거나 더 새로운 저장본은 MigrationError로 막는다", () => {
+    expect(failureReason({ foo: 1 })).toBe("corrupt");
+    expect(failureReason({ ...createEmptyStateV2(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toBe(
+      "unsupported_version"
+    );
+  });
+
+  it("단계 결과가 검증을 통과하지 못하면 validation_failed", () => {
+    const broken = { ...createEmptyStateV2(), blocksByDate: { "2026-01-15": [{ id: "x" }] } };
+
+    expect(failureReason(broken)).toBe("validation_failed");
+  });
+});
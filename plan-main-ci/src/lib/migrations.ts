@@ -0,0 +1,999 @@
+import type {
+  Activity,
+  ActivityId,
+  Block,
+  ChecklistItem,
+  ChecklistBlock,
+  DayMoodLog,
+  IndicatorEvent,
+  Layer,
+  MemoItem,
+  MoodRating,
+  PersistedStateV2,
+  SegmentMoodLog,
+  SleepLog,
+  WeekPlan,
+  // Legacy types for migration
+  DayGrid,
+  MemoBlock,
+  WeekGrid,
+} from "./types";
+import { generateId } from "./id";
+
+/**
+ * 현재 앱이 읽고 쓰는 스키마 버전
+ * 새 버전을 추가할 때는 MIGRATIONS에 (CURRENT → CURRENT+1) 단계를 등록하고 이 값을 올린다.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Legacy v1 state for migration
+export interface LegacyPersistedState {
+  activities: Activity[];
+  day: Record<string, DayGrid>;
+  week: Record<string, WeekGrid>;
+  checklist: Record<string, ChecklistItem[]>;
+  checklistBlocks: Record<string, ChecklistBlock[]>;
+  startHour: number;
+  theme: "light" | "dark";
+
+  // App.old 전용 필드 (segment key = `${dateISO}|${hour}|${layer}|${activityId}|${startCol}-${endCol}`)
+  activityEmoji?: Record<ActivityId, string>;
+  segmentEmoji?: Record<string, string>;
+  sleep?: Record<string, { sleepStartMin: number; wakeMin: number; updatedAt: number }>;
+  dayMood?: Record<string, { mood: MoodRating; updatedAt: number }>;
+  segmentMood?: Record<string, { mood: MoodRating; updatedAt: number }>;
+  fineBounds?: Record<string, { startMinute: number; endMinute: number }>;
+  memoBlocks?: Record<string, MemoBlock[]>;
+}
+
+// ===== Migration report =====
+
+export interface MigrationStepReport {
+  from: number;
+  to: number;
+  description: string;
+  converted: { label: string; count: number }[];
+  warnings: string[];
+  /** MAX_REPORTED_WARNINGS를 넘어 생략된 경고 수 */
+  droppedWarnings: number;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  createdAt: number;
+  steps: MigrationStepReport[];
+  /** 마이그레이션 결과를 저장하지 못한 이유 (원본 백업 실패 등) — 원본은 그대로 남아 있다 */
+  saveError?: string;
+}
+
+/** 단계별 변환 내역 기록기 (migrate 함수에 전달됨) */
+export interface MigrationRecorder {
+  converted(label: string, count: number): void;
+  warn(message: string): void;
+}
+
+const MAX_REPORTED_WARNINGS = 50;
+
+function createRecorder(report: MigrationStepReport): MigrationRecorder {
+  return {
+    converted(label, count) {
+      if (count > 0) report.converted.push({ label, count });
+    },
+    warn(message) {
+      if (report.warnings.length < MAX_REPORTED_WARNINGS) {
+        report.warnings.push(message);
+      } else {
+        report.droppedWarnings++;
+      }
+    },
+  };
+}
+
+export function createEmptyStateV2(): PersistedStateV2 {
+  return {
+    version: 2,
+    schemaVersion: 2,
+    activities: [],
+    blocksByDate: {},
+    weekPlans: {},
+    fixedSchedule: [],
+    fixedSchedules: [],
+    templateAppliesByDate: {},
+    dailyStateByDate: {},
+    completionEventsByDate: {},
+    indicatorsByDate: {},
+    checklistByDate: {},
+    checklistBlocksByDate: {},
+    memosByDate: {},
+    voiceCommandLogsByDate: {},
+    startHour: 6,
+    theme: "light",
+  };
+}
+
+// v1 cellId ("2026-01-15|06|3") → 분
+function cellIdToMin(cellId: string): number | null {
+  const [, hh, cc] = cellId.split("|");
+  const hour = Number(hh);
+  const col = Number(cc);
+  if (!Number.isInteger(hour) || !Number.isInteger(col) || hour < 0 || hour > 23 || col < 0 || col > 5) {
+    return null;
+  }
+  return hour * 60 + col * 10;
+}
+
+interface CellRun {
+  startMin: number;
+  endMin: number;
+  activityId: ActivityId;
+}
+
+/**
+ * 10분 셀 목록(분 오름차순)을 같은 activity가 연속된 구간으로 병합
+ * 빈 셀(희소 그리드에서 누락된 셀 포함)이나 다른 activity를 만나면 끊는다
+ */
+function buildCellRuns(cells: { min: number; activityId?: ActivityId }[]): CellRun[] {
+  const runs: CellRun[] = [];
+  let current: CellRun | null = null;
+
+  for (const cell of cells) {
+    if (!cell.activityId) continue;
+    if (current && current.activityId === cell.activityId && current.endMin === cell.min) {
+      current.endMin = cell.min + 10;
+      continue;
+    }
+    if (current) runs.push(current);
+    current = { startMin: cell.min, endMin: cell.min + 10, activityId: cell.activityId };
+  }
+  if (current) runs.push(current);
+
+  return runs;
+}
+
+function sortedCells<T>(grid: Record<string, T>): { min: number; cell: T }[] {
+  const cells: { min: number; cell: T }[] = [];
+  for (const [cellId, cell] of Object.entries(grid)) {
+    const min = cellIdToMin(cellId);
+    if (min !== null && cell) cells.push({ min, cell });
+  }
+  return cells.sort((a, b) => a.min - b.min);
+}
+
+// Migrate v1 DayGrid cells to v2 Blocks
+function migrateDayGridToBlocks(
+  dayGrids: Record<string, DayGrid>
+): Record<string, Block[]> {
+  const blocksByDate: Record<string, Block[]> = {};
+  const now = Date.now();
+
+  for (const [dateISO, grid] of Object.entries(dayGrids)) {
+    const cells = sortedCells(grid);
+    const blocks: Block[] = [];
+
+    const layers = [
+      { layer: "execute", prefix: "migrated_exec", pick: (c: DayGrid[string]) => c.execute },
+      { layer: "overlay", prefix: "migrated_overlay", pick: (c: DayGrid[string]) => c.overlay },
+    ] as const;
+
+    for (const { layer, prefix, pick } of layers) {
+      const runs = buildCellRuns(cells.map(({ min, cell }) => ({ min, activityId: pick(cell) })));
+      for (const run of runs) {
+        blocks.push({
+          id: `${prefix}_${dateISO}_${run.startMin}`,
+          dateISO,
+          startMin: run.startMin,
+          endMin: run.endMin,
+          activityId: run.activityId,
+          layer,
+          source: "manual",
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    }
+
+    if (blocks.length > 0) {
+      blocksByDate[dateISO] = blocks;
+    }
+  }
+
+  return blocksByDate;
+}
+
+// Migrate v1 indicators to v2 IndicatorEvents
+function migrateIndicators(
+  dayGrids: Record<string, DayGrid>
+): Record<string, IndicatorEvent[]> {
+  const indicatorsByDate: Record<string, IndicatorEvent[]> = {};
+  const now = Date.now();
+
+  for (const [dateISO, grid] of Object.entries(dayGrids)) {
+    const indicators: IndicatorEvent[] = [];
+
+    for (const [cellId, cell] of Object.entries(grid)) {
+      if (cell.indicator) {
+        const [, hh, cc] = cellId.split("|");
+        const atMin = Number(hh) * 60 + Number(cc) * 10;
+        indicators.push({
+          id: `migrated_ind_${cellId}`,
+          dateISO,
+          atMin,
+          label: cell.indicator.label,
+          timeText: cell.indicator.timeText,
+          createdAt: now,
+        });
+      }
+    }
+
+    if (indicators.length > 0) {
+      indicatorsByDate[dateISO] = indicators;
+    }
+  }
+
+  return indicatorsByDate;
+}
+
+// Migrate v1 checklist blocks
+function migrateChecklistBlocks(
+  blocks: Record<string, ChecklistBlock[]>
+): Record<string, ChecklistBlock[]> {
+  const result: Record<string, ChecklistBlock[]> = {};
+  const now = Date.now();
+
+  for (const [dateISO, list] of Object.entries(blocks)) {
+    result[dateISO] = list.map((b) => ({
+      ...b,
+      dateISO,
+      createdAt: now,
+      updatedAt: now,
+    }));
+  }
+
+  return result;
+}
+
+// Migrate v1 checklists
+function migrateChecklists(
+  checklists: Record<string, ChecklistItem[]>
+): Record<string, ChecklistItem[]> {
+  const result: Record<string, ChecklistItem[]> = {};
+  const now = Date.now();
+
+  for (const [dateISO, items] of Object.entries(checklists)) {
+    result[dateISO] = items.map((item) => ({
+      ...item,
+      createdAt: now,
+      updatedAt: now,
+    }));
+  }
+
+  return result;
+}
+
+// ===== App.old 전용 필드 =====
+
+interface LegacySegmentRef {
+  dateISO: string;
+  hour: number;
+  layer: "execute" | "overlay";
+  activityId: ActivityId;
+  startMin: number;
+  endMin: number;
+}
+
+// segment key: `${dateISO}|${hour}|${layer}|${activityId}|${startCol}-${endCol}`
+function parseSegmentKey(key: string): LegacySegmentRef | null {
+  const parts = key.split("|");
+  if (parts.length < 5) return null;
+  const [dateISO, hh, layer] = parts;
+  const cols = parts[parts.length - 1];
+  const activityId = parts.slice(3, -1).join("|");
+  const [c1, c2] = cols.split("-").map(Number);
+  const hour = Number(hh);
+  if (
+    (layer !== "execute" && layer !== "overlay") ||
+    !activityId ||
+    !Number.isInteger(hour) ||
+    !Number.isInteger(c1) ||
+    !Number.isInteger(c2) ||
+    c1 < 0 ||
+    c2 > 5 ||
+    c1 > c2
+  ) {
+    return null;
+  }
+  return {
+    dateISO,
+    hour,
+    layer,
+    activityId,
+    startMin: hour * 60 + c1 * 10,
+    endMin: hour * 60 + (c2 + 1) * 10,
+  };
+}
+
+function isMoodRating(value: unknown): value is MoodRating {
+  return value === 1 || value === 2 || value === 3 || value === 4 || value === 5;
+}
+
+function isMinuteOfDay(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 24 * 60;
+}
+
+function findCoveringBlock(
+  blocks: Block[] | undefined,
+  layer: Layer,
+  activityId: ActivityId | undefined,
+  startMin: number,
+  endMin: number
+): Block | undefined {
+  return blocks?.find(
+    (b) =>
+      b.layer === layer &&
+      (activityId === undefined || b.activityId === activityId) &&
+      b.startMin <= startMin &&
+      b.endMin >= endMin
+  );
+}
+
+/**
+ * 블록에서 [from, to) 구간을 잘라낸다 (필요하면 두 블록으로 분할)
+ */
+function carveBlock(blocks: Block[], block: Block, from: number, to: number): void {
+  if (from >= to || to <= block.startMin || from >= block.endMin) return;
+  const index = blocks.indexOf(block);
+  if (from <= block.startMin && to >= block.endMin) {
+    blocks.splice(index, 1);
+  } else if (from <= block.startMin) {
+    block.startMin = to;
+  } else if (to >= block.endMin) {
+    block.endMin = from;
+  } else {
+    blocks.splice(index + 1, 0, { ...block, id: `${block.id}_${to}`, startMin: to });
+    block.endMin = from;
+  }
+}
+
+/**
+ * fineBounds(구간별 분 단위 경계) → Block startMin/endMin
+ * 레거시 UI는 10분 구간 안에서만 경계를 줄였으므로 잘린 부분을 블록에서 제거한다
+ */
+function applyFineBounds(
+  blocksByDate: Record<string, Block[]>,
+  fineBounds: NonNullable<LegacyPersistedState["fineBounds"]>,
+  recorder: MigrationRecorder
+): Record<string, { startMin: number; endMin: number }> {
+  const applied: Record<string, { startMin: number; endMin: number }> = {};
+
+  for (const [key, bounds] of Object.entries(fineBounds)) {
+    const seg = parseSegmentKey(key);
+    if (!seg || !bounds) {
+      recorder.warn(`분 단위 경계: 해석할 수 없는 구간 키 "${key}"`);
+      continue;
+    }
+    const fineStart = seg.hour * 60 + bounds.startMinute;
+    const fineEnd = seg.hour * 60 + bounds.endMinute;
+    if (!(seg.startMin <= fineStart && fineStart < fineEnd && fineEnd <= seg.endMin)) {
+      recorder.warn(`분 단위 경계: ${seg.dateISO} ${key}의 범위가 구간을 벗어남`);
+      continue;
+    }
+
+    const blocks = blocksByDate[seg.dateISO];
+    const block = findCoveringBlock(blocks, seg.layer, seg.activityId, seg.startMin, seg.endMin);
+    if (!blocks || !block) {
+      recorder.warn(`분 단위 경계: ${seg.dateISO}에 해당 구간(${key})이 더 이상 없음`);
+      continue;
+    }
+
+    carveBlock(blocks, block, fineEnd, seg.endMin);
+    carveBlock(blocks, block, seg.startMin, fineStart);
+    applied[key] = { startMin: fineStart, endMin: fineEnd };
+  }
+
+  recorder.converted("분 단위 블록 경계", Object.keys(applied).length);
+  return applied;
+}
+
+function migrateSegmentMoods(
+  segmentMood: NonNullable<LegacyPersistedState["segmentMood"]>,
+  fineBounds: Record<string, { startMin: number; endMin: number }>,
+  recorder: MigrationRecorder
+): Record<string, SegmentMoodLog[]> {
+  const result: Record<string, SegmentMoodLog[]> = {};
+  let count = 0;
+
+  for (const [key, entry] of Object.entries(segmentMood)) {
+    const seg = parseSegmentKey(key);
+    if (!seg || !entry || !isMoodRating(entry.mood)) {
+      recorder.warn(`구간 기분: 잘못된 항목 "${key}"`);
+      continue;
+    }
+    const bounds = fineBounds[key] ?? seg;
+    (result[seg.dateISO] ??= []).push({
+      dateISO: seg.dateISO,
+      layer: seg.layer,
+      activityId: seg.activityId,
+      startMin: bounds.startMin,
+      endMin: bounds.endMin,
+      mood: entry.mood,
+      updatedAt: entry.updatedAt || Date.now(),
+    });
+    count++;
+  }
+
+  recorder.converted("구간 기분 (SegmentMoodLog)", count);
+  return result;
+}
+
+function applySegmentEmojis(
+  blocksByDate: Record<string, Block[]>,
+  segmentEmoji: NonNullable<LegacyPersistedState["segmentEmoji"]>,
+  fineBounds: Record<string, { startMin: number; endMin: number }>,
+  recorder: MigrationRecorder
+): void {
+  let count = 0;
+
+  for (const [key, emoji] of Object.entries(segmentEmoji)) {
+    const seg = parseSegmentKey(key);
+    if (!seg || !emoji) {
+      recorder.warn(`구간 이모지: 잘못된 항목 "${key}"`);
+      continue;
+    }
+    const bounds = fineBounds[key] ?? seg;
+    const block = findCoveringBlock(blocksByDate[seg.dateISO], seg.layer, seg.activityId, bounds.startMin, bounds.endMin);
+    if (!block) {
+      recorder.warn(`구간 이모지: ${seg.dateISO}에 해당 구간(${key})이 더 이상 없음`);
+      continue;
+    }
+    if (block.emoji && block.emoji !== emoji) {
+      recorder.warn(`구간 이모지: ${seg.dateISO} 블록 하나에 여러 이모지 — "${emoji}" 사용`);
+    }
+    block.emoji = emoji;
+    count++;
+  }
+
+  recorder.converted("구간 이모지", count);
+}
+
+function migrateSleep(
+  sleep: NonNullable<LegacyPersistedState["sleep"]>,
+  recorder: MigrationRecorder
+): Record<string, SleepLog> {
+  const result: Record<string, SleepLog> = {};
+
+  for (const [dateISO, entry] of Object.entries(sleep)) {
+    if (!entry || !isMinuteOfDay(entry.sleepStartMin) || !isMinuteOfDay(entry.wakeMin)) {
+      recorder.warn(`수면 기록: ${dateISO}의 시간이 올바르지 않음`);
+      continue;
+    }
+    result[dateISO] = {
+      dateISO,
+      sleepStartMin: entry.sleepStartMin,
+      wakeMin: entry.wakeMin,
+      updatedAt: entry.updatedAt || Date.now(),
+    };
+  }
+
+  recorder.converted("수면 기록 (SleepLog)", Object.keys(result).length);
+  return result;
+}
+
+function migrateDayMoods(
+  dayMood: NonNullable<LegacyPersistedState["dayMood"]>,
+  recorder: MigrationRecorder
+): Record<string, DayMoodLog> {
+  const result: Record<string, DayMoodLog> = {};
+
+  for (const [dateISO, entry] of Object.entries(dayMood)) {
+    if (!entry || !isMoodRating(entry.mood)) {
+      recorder.warn(`하루 기분: ${dateISO}의 값이 1~5가 아님`);
+      continue;
+    }
+    result[dateISO] = { dateISO, mood: entry.mood, updatedAt: entry.updatedAt || Date.now() };
+  }
+
+  recorder.converted("하루 기분 (DayMoodLog)", Object.keys(result).length);
+  return result;
+}
+
+/**
+ * memoBlocks(시간 단위 메모) → MemoItem
+ * 해당 시간의 블록이 있으면 pinnedToBlockId로 연결
+ */
+function migrateMemoBlocks(
+  memoBlocks: NonNullable<LegacyPersistedState["memoBlocks"]>,
+  blocksByDate: Record<string, Block[]>,
+  recorder: MigrationRecorder
+): Record<string, MemoItem[]> {
+  const result: Record<string, MemoItem[]> = {};
+  let count = 0;
+  let skippedEmpty = 0;
+
+  for (const [dateISO, list] of Object.entries(memoBlocks)) {
+    for (const memo of list || []) {
+      const text = memo?.text?.trim();
+      if (!text) {
+        skippedEmpty++;
+        continue;
+      }
+      const hour = Number.isInteger(memo.hour) ? memo.hour : null;
+      const pinnedToMin = hour !== null && hour >= 0 && hour < 24 ? hour * 60 : undefined;
+      const pinnedBlock =
+        pinnedToMin !== undefined
+          ? findCoveringBlock(blocksByDate[dateISO], memo.layer, memo.activityId, pinnedToMin, pinnedToMin + 1) ??
+            blocksByDate[dateISO]?.find(
+              (b) =>
+                b.layer === memo.layer &&
+                (!memo.activityId || b.activityId === memo.activityId) &&
+                b.startMin < pinnedToMin + 60 &&
+                b.endMin > pinnedToMin
+            )
+          : undefined;
+
+      (result[dateISO] ??= []).push({
+        id: `migrated_memo_${memo.id}`,
+        dateISO,
+        content: memo.text,
+        pinnedToBlockId: pinnedBlock?.id,
+        pinnedToMin,
+        createdAt: memo.updatedAt || Date.now(),
+        updatedAt: memo.updatedAt,
+      });
+      count++;
+    }
+  }
+
+  recorder.converted("메모 (MemoItem)", count);
+  if (skippedEmpty > 0) recorder.warn(`메모: 내용이 빈 메모 ${skippedEmpty}개는 건너뜀`);
+  return result;
+}
+
+/**
+ * week 그리드(주간 계획 셀) → WeekPlan 블록
+ * activityId → plan 레이어, overlayActivityId(중첩 계획) → overlay 레이어
+ */
+function migrateWeekGrids(
+  week: Record<string, WeekGrid>,
+  recorder: MigrationRecorder
+): Record<string, WeekPlan> {
+  const result: Record<string, WeekPlan> = {};
+  const now = Date.now();
+  let count = 0;
+
+  for (const [weekKey, grid] of Object.entries(week)) {
+    // 셀 키에 날짜가 들어 있으므로 날짜별로 나눈 뒤 병합
+    const gridsByDate: Record<string, WeekGrid> = {};
+    for (const [cellId, cell] of Object.entries(grid || {})) {
+      const dateISO = cellId.split("|")[0];
+      (gridsByDate[dateISO] ??= {})[cellId] = cell;
+    }
+
+    const blocks: Block[] = [];
+    for (const [dateISO, dateGrid] of Object.entries(gridsByDate)) {
+      const cells = sortedCells(dateGrid);
+      const layers = [
+        { layer: "plan", pick: (c: WeekGrid[string]) => c.activityId },
+        { layer: "overlay", pick: (c: WeekGrid[string]) => c.overlayActivityId },
+      ] as const;
+
+      for (const { layer, pick } of layers) {
+        for (const run of buildCellRuns(cells.map(({ min, cell }) => ({ min, activityId: pick(cell) })))) {
+          blocks.push({
+            id: `migrated_week_${dateISO}_${layer}_${run.startMin}`,
+            dateISO,
+            startMin: run.startMin,
+            endMin: run.endMin,
+            activityId: run.activityId,
+            layer,
+            source: "week_plan",
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+      }
+    }
+
+    if (blocks.length > 0) {
+      result[weekKey] = { weekKey, blocks };
+      count += blocks.length;
+    }
+  }
+
+  recorder.converted("주간 계획 블록 (WeekPlan)", count);
+  return result;
+}
+
+function countAll(byDate: Record<string, unknown[]> | undefined): number {
+  return Object.values(byDate || {}).reduce((sum, list) => sum + list.length, 0);
+}
+
+function migrateV1toV2(legacy: LegacyPersistedState, recorder: MigrationRecorder): PersistedStateV2 {
+  const state = createEmptyStateV2();
+
+  state.activities = (legacy.activities || []).map((a) => {
+    const emoji = legacy.activityEmoji?.[a.id];
+    return emoji ? { ...a, emoji } : a;
+  });
+  state.startHour = legacy.startHour ?? 6;
+  state.theme = legacy.theme || "light";
+
+  if (legacy.activityEmoji) {
+    const known = new Set(state.activities.map((a) => a.id));
+    const unknown = Object.keys(legacy.activityEmoji).filter((id) => !known.has(id));
+    recorder.converted("활동 이모지", Object.keys(legacy.activityEmoji).length - unknown.length);
+    for (const id of unknown) recorder.warn(`활동 이모지: 알 수 없는 activity "${id}"`);
+  }
+
+  if (legacy.day) {
+    state.blocksByDate = migrateDayGridToBlocks(legacy.day);
+    state.indicatorsByDate = migrateIndicators(legacy.day);
+  }
+
+  const fineBounds = legacy.fineBounds ? applyFineBounds(state.blocksByDate, legacy.fineBounds, recorder) : {};
+  recorder.converted("실행/중첩 블록", countAll(state.blocksByDate));
+  recorder.converted("지표", countAll(state.indicatorsByDate));
+
+  if (legacy.segmentEmoji) {
+    applySegmentEmojis(state.blocksByDate, legacy.segmentEmoji, fineBounds, recorder);
+  }
+
+  if (legacy.segmentMood) {
+    state.segmentMoodsByDate = migrateSegmentMoods(legacy.segmentMood, fineBounds, recorder);
+  }
+
+  if (legacy.sleep) {
+    state.sleepByDate = migrateSleep(legacy.sleep, recorder);
+  }
+
+  if (legacy.dayMood) {
+    state.dayMoodByDate = migrateDayMoods(legacy.dayMood, recorder);
+  }
+
+  if (legacy.memoBlocks) {
+    state.memosByDate = migrateMemoBlocks(legacy.memoBlocks, state.blocksByDate, recorder);
+  }
+
+  if (legacy.week) {
+    state.weekPlans = migrateWeekGrids(legacy.week, recorder);
+  }
+
+  if (legacy.checklist) {
+    state.checklistByDate = migrateChecklists(legacy.checklist);
+    recorder.converted("체크리스트 항목", countAll(state.checklistByDate));
+  }
+
+  if (legacy.checklistBlocks) {
+    state.checklistBlocksByDate = migrateChecklistBlocks(legacy.checklistBlocks);
+    recorder.converted("체크리스트 블록", countAll(state.checklistBlocksByDate));
+  }
+
+  return state;
+}
+
+// ===== v2 → v3: 충돌하는 ID 재발급 =====
+
+/** v1 변환에서 날짜·시각으로 만든 ID — 기기마다 같은 값이 나와 동기화 때 서로 덮어쓴다 */
+const LEGACY_DETERMINISTIC_ID = /^migrated_/;
+
+/**
+ * 같은 종류의 엔티티 ID를 훑으며 migrated_* ID와 중복 ID에 이 기기의 새 ID(generateId)를 준다 (중복은 첫 번째가 ID를 유지)
+ * renamed에는 migrated_* ID의 첫 번째 새 ID를 기록한다 (참조 갱신용)
+ */
+function createIdRewriter(renamed?: Map<string, string>) {
+  const seen = new Set<string>();
+  const stats = { legacy: 0, duplicates: [] as string[] };
+  const next = (id: string): string => {
+    const legacy = LEGACY_DETERMINISTIC_ID.test(id);
+    const duplicate = seen.has(id);
+    seen.add(id);
+    if (!legacy && !duplicate) return id;
+
+    const fresh = generateId();
+    seen.add(fresh);
+    if (legacy) stats.legacy++;
+    else stats.duplicates.push(id);
+    if (legacy && renamed && !renamed.has(id)) renamed.set(id, fresh);
+    return fresh;
+  };
+  return { next, stats };
+}
+
+function mapDateLists<T>(byDate: Record<string, T[]> | undefined, fn: (item: T) => T): Record<string, T[]> {
+  const result: Record<string, T[]> = {};
+  for (const [dateISO, list] of Object.entries(byDate || {})) result[dateISO] = (list || []).map(fn);
+  return result;
+}
+
+function migrateV2toV3(input: PersistedStateV2, recorder: MigrationRecorder): PersistedStateV2 {
+  const renamed = new Map<string, string>();
+  const blockIds = createIdRewriter(renamed);
+  let references = 0;
+  const ref = <T extends string | undefined>(id: T): T => {
+    const next = id === undefined ? undefined : renamed.get(id);
+    if (next === undefined) return id;
+    references++;
+    return next as T;
+  };
+
+  // 블록과 주간 계획 블록은 같은 Block ID 공간이다
+  const blocksByDate = mapDateLists(input.blocksByDate, (b) => ({ ...b, id: blockIds.next(b.id) }));
+  const weekPlans: PersistedStateV2["weekPlans"] = {};
+  for (const [weekKey, plan] of Object.entries(input.weekPlans || {})) {
+    weekPlans[weekKey] = { ...plan, blocks: (plan.blocks || []).map((b) => ({ ...b, id: blockIds.next(b.id) })) };
+  }
+
+  const indicatorIds = createIdRewriter();
+  const memoIds = createIdRewriter();
+  const state: PersistedStateV2 = {
+    ...input,
+    schemaVersion: 3,
+    blocksByDate: mapDateLists(blocksByDate, (b) =>
+      b.planRef ? { ...b, planRef: { ...b.planRef, planBlockId: ref(b.planRef.planBlockId) } } : b
+    ),
+    weekPlans,
+    completionEventsByDate: mapDateLists(input.completionEventsByDate, (e) => ({ ...e, blockId: ref(e.blockId) })),
+    indicatorsByDate: mapDateLists(input.indicatorsByDate, (i) => ({ ...i, id: indicatorIds.next(i.id) })),
+    memosByDate: mapDateLists(input.memosByDate, (m) => ({
+      ...m,
+      id: memoIds.next(m.id),
+      pinnedToBlockId: ref(m.pinnedToBlockId),
+    })),
+    voiceCommandLogsByDate: mapDateLists(input.voiceCommandLogsByDate, (v) => ({
+      ...v,
+      createdPlanBlockId: ref(v.createdPlanBlockId),
+    })),
+  };
+
+  recorder.converted("블록 ID 재발급", blockIds.stats.legacy + blockIds.stats.duplicates.length);
+  recorder.converted("지표/메모 ID 재발급", indicatorIds.stats.legacy + memoIds.stats.legacy);
+  recorder.converted("블록 참조 갱신", references);
+  for (const id of blockIds.stats.duplicates) recorder.warn(`블록 ID "${id}"가 중복되어 뒤의 블록에 새 ID를 줬습니다`);
+  return state;
+}
+
+// ===== Validation =====
+
+const MAX_REPORTED_PROBLEMS = 20;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * PersistedStateV2 구조 검증 (타입/형태만 확인, 값의 의미는 보지 않음)
+ * @returns 문제 목록 (비어 있으면 통과)
+ */
+export function validateStateV2(state: unknown): string[] {
+  const problems: string[] = [];
+  const report = (msg: string) => {
+    if (problems.length < MAX_REPORTED_PROBLEMS) problems.push(msg);
+  };
+
+  if (!isRecord(state)) {
+    return ["상태가 객체가 아닙니다"];
+  }
+
+  if (!Array.isArray(state.activities)) {
+    report("activities가 배열이 아닙니다");
+  } else {
+    state.activities.forEach((a, i) => {
+      if (!isRecord(a) || typeof a.id !== "string") report(`activities[${i}]에 id가 없습니다`);
+    });
+  }
+
+  if (!isRecord(state.blocksByDate)) {
+    report("blocksByDate가 객체가 아닙니다");
+  } else {
+    for (const [dateISO, list] of Object.entries(state.blocksByDate)) {
+      if (!Array.isArray(list)) {
+        report(`blocksByDate[${dateISO}]가 배열이 아닙니다`);
+        continue;
+      }
+      list.forEach((b, i) => {
+        if (
+          !isRecord(b) ||
+          typeof b.id !== "string" ||
+          typeof b.startMin !== "number" ||
+          typeof b.endMin !== "number" ||
+          typeof b.activityId !== "string"
+        ) {
+          report(`blocksByDate[${dateISO}][${i}]의 형식이 올바르지 않습니다`);
+        }
+      });
+    }
+  }
+
+  const recordFields = [
+    "weekPlans",
+    "dailyStateByDate",
+    "completionEventsByDate",
+    "indicatorsByDate",
+    "checklistByDate",
+    "checklistBlocksByDate",
+    "memosByDate",
+    "voiceCommandLogsByDate",
+    "sleepByDate",
+    "dayMoodByDate",
+    "segmentMoodsByDate",
+  ] as const;
+  for (const field of recordFields) {
+    if (state[field] !== undefined && !isRecord(state[field])) {
+      report(`${field}가 객체가 아닙니다`);
+    }
+  }
+
+  return problems;
+}
+
+// ===== Migration pipeline =====
+
+/**
+ * 단계 입력을 좁힌다 — detectSchemaVersion을 통과한 객체만 들어오지만, 아니면 step_failed로 보고된다
+ */
+function expectStepInput<T>(input: unknown, version: number): T {
+  if (!isRecord(input)) {
+    throw new Error(`v${version} 데이터가 객체가 아닙니다`);
+  }
+  return input as T;
+}
+
+export interface MigrationStep {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (input: unknown, recorder: MigrationRecorder) => unknown;
+  /** 변환 결과 검증 — 문제 목록을 반환 (비어 있으면 통과) */
+  validate: (output: unknown) => string[];
+}
+
+/**
+ * 순서대로 적용되는 마이그레이션 레지스트리 (v1 → v2 → v3 → ...)
+ */
+export const MIGRATIONS: MigrationStep[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "Cell 그리드(v1) → Block(v2)",
+    migrate: (input, recorder) => migrateV1toV2(expectStepInput<LegacyPersistedState>(input, 1), recorder),
+    validate: validateStateV2,
+  },
+  {
+    from: 2,
+    to: 3,
+    description: "기기마다 겹치는 구버전 ID와 중복 ID → 새 ID (기기 ID + ULID)",
+    migrate: (input, recorder) => migrateV2toV3(expectStepInput<PersistedStateV2>(input, 2), recorder),
+    validate: validateStateV2,
+  },
+];
+
+export type MigrationErrorReason =
+  | "corrupt"
+  | "unsupported_version"
+  | "missing_step"
+  | "step_failed"
+  | "validation_failed";
+
+/**
+ * 마이그레이션 실패
+ * 빈 플래너로 조용히 시작하지 않도록 로드 단계에서 그대로 던진다
+ */
+export class MigrationError extends Error {
+  readonly reason: MigrationErrorReason;
+  readonly fromVersion: number | null;
+  readonly toVersion: number | null;
+  readonly problems: string[];
+
+  constructor(
+    reason: MigrationErrorReason,
+    message: string,
+    details: { fromVersion?: number | null; toVersion?: number | null; problems?: string[]; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "MigrationError";
+    this.reason = reason;
+    this.fromVersion = details.fromVersion ?? null;
+    this.toVersion = details.toVersion ?? null;
+    this.problems = details.problems ?? [];
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+}
+
+/**
+ * 저장된 payload의 스키마 버전 판별
+ * schemaVersion이 없는 초기 v2 저장본과 v1(Cell 그리드) 저장본도 구분한다
+ */
+export function detectSchemaVersion(raw: unknown): number | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.schemaVersion === "number") return raw.schemaVersion;
+  if (raw.version === 2 || "blocksByDate" in raw) return 2;
+  if ("day" in raw || "week" in raw || "checklistBlocks" in raw) return 1;
+  return null;
+}
+
+export interface MigrationResult {
+  state: PersistedStateV2;
+  fromVersion: number;
+  applied: MigrationStep[];
+  report: MigrationReport;
+}
+
+/**
+ * payload를 CURRENT_SCHEMA_VERSION까지 단계별로 마이그레이션
+ * @throws MigrationError 버전 판별 실패, 미래 버전, 단계 누락/실패, 검증 실패 시
+ */
+export function migrateToCurrent(raw: unknown): MigrationResult {
+  const fromVersion = detectSchemaVersion(raw);
+  if (fromVersion === null) {
+    throw new MigrationError("corrupt", "저장된 데이터의 스키마 버전을 알 수 없습니다");
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(
+      "unsupported_version",
+      `이 데이터는 더 새로운 앱 버전(v${fromVersion})에서 저장되었습니다. 앱을 업데이트하세요.`,
+      { fromVersion, toVersion: CURRENT_SCHEMA_VERSION }
+    );
+  }
+
+  let current: unknown = raw;
+  let version = fromVersion;
+  const applied: MigrationStep[] = [];
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: Date.now(),
+    steps: [],
+  };
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((m) => m.from === version);
+    if (!step) {
+      throw new MigrationError("missing_step", `v${version}에서 시작하는 마이그레이션이 없습니다`, {
+        fromVersion: version,
+      });
+    }
+
+    const stepReport: MigrationStepReport = {
+      from: step.from,
+      to: step.to,
+      description: step.description,
+      converted: [],
+      warnings: [],
+      droppedWarnings: 0,
+    };
+    let output: unknown;
+    try {
+      output = step.migrate(current, createRecorder(stepReport));
+    } catch (err) {
+      throw new MigrationError("step_failed", `마이그레이션 v${step.from} → v${step.to} 실패`, {
+        fromVersion: step.from,
+        toVersion: step.to,
+        cause: err,
+      });
+    }
+
+    const problems = step.validate(output);
+    if (problems.length > 0) {
+      throw new MigrationError("validation_failed", `마이그레이션 v${step.from} → v${step.to} 결과 검증 실패`, {
+        fromVersion: step.from,
+        toVersion: step.to,
+        problems,
+      });
+    }
+
+    current = output;
+    version = step.to;
+    applied.push(step);
+    report.steps.push(stepReport);
+  }
+
+  const state = current as PersistedStateV2;
+  return {
+    state: { ...state, version: 2, schemaVersion: CURRENT_SCHEMA_VERSION },
+    fromVersion,
+    applied,
+    report,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+import { PAIR_COLUMNS, collectPairRows, pairsFilename, pairsToCsv, pairsToNdjson, type PairExportOptions } from "./pairExport";
+import type { Activity, Block } from "./types";
+
+const DAY = "2026-03-02";
+const activities: Activity[] = [
+  { id: "work", name: "업무, 집중", color: "#3b82f6" },
+  { id: "rest", name: "휴식", color: "#22c55e" },
+];
+
+function block(id: string, layer: Block["layer"], startMin: number, endMin: number, activityId = "work"): Block {
+  return { id, dateISO: DAY, startMin, endMin, activityId, layer, source: "manual", createdAt: 1, updatedAt: 1 };
+}
+
+const options: PairExportOptions = { fromISO: DAY, toISO: DAY, zoneForDate: () => "Asia/Seoul" };
+
+const rows = collectPairRows(
+  {
+    [DAY]: [
+      block("p1", "plan", 540, 600),
+      block("e1", "execute", 545, 600),
+      block("p2", "plan", 1380, 1500),
+      block("e2", "execute", 1380, 1420, "rest"),
+    ],
+  },
+  activities,
+  {},
+  options
+);
+
+describe("pairsToCsv", () => {
+  it("컬럼 순서대로 쓰고, 미매칭 pair의 빈 값은 빈 칸으로 둔다", () => {
+    const [header, matched, unmatched] = parseCsv(pairsToCsv(rows, options));
+    const field = (record: string[], name: string) => record[header.indexOf(name)];
+
+    expect(header).toEqual(PAIR_COLUMNS.map((c) => c.name));
+    expect(field(matched, "activityName")).toBe("업무, 집중");
+    expect(field(matched, "planStartAt")).toBe("2026-03-02T09:00:00+09:00");
+    expect(field(matched, "execStartAt")).toBe("2026-03-02T09:05:00+09:00");
+    expect(field(matched, "completionRatio")).toBe("0.917");
+    expect(field(matched, "matchRule")).toBe("timeOverlap");
+
+    expect(field(unmatched, "planEndAt")).toBe("2026-03-03T01:00:00+09:00");
+    expect(field(unmatched, "execBlockId")).toBe("");
+    expect(field(unmatched, "execStartAt")).toBe("");
+    expect(field(unmatched, "matchRule")).toBe("");
+    expect(field(unmatched, "matchScore")).toBe("");
+    expect(field(unmatched, "displacedByActivityName")).toBe("휴식");
+  });
+
+  it("dictionary는 따옴표 없는 '#' 주석 줄로, bom은 맨 앞에 붙인다", () => {
+    const csv = pairsToCsv(rows, { ...options, dictionary: true, bom: true });
+
+    expect(csv.startsWith("\uFEFF# PlanExecutionPair export (schema v1, 2026-03-02 ~ 2026-03-02)\r\n")).toBe(true);
+    expect(csv).toContain("\r\n# matchScore (number): 매칭 점수 0~1 (미매칭이면 빈 값)\r\n");
+  });
+});
+
+describe("pairsToNdjson", () => {
+  it("한 줄에 pair 하나, 빈 값은 null로 쓴다", () => {
+    const lines = pairsToNdjson(rows, { ...options, dictionary: true }).trimEnd().split("\n");
+    const [dictionary, , unmatched] = lines.map((line) => JSON.parse(line));
+
+    expect(lines).toHaveLength(3);
+    expect(dictionary.$dictionary.columns.map((c: { name: string }) => c.name)).toEqual(PAIR_COLUMNS.map((c) => c.name));
+    expect(Object.keys(unmatched)).toEqual(PAIR_COLUMNS.map((c) => c.name));
+    expect(unmatched).toMatchObject({ planBlockId: "p2", execBlockId: null, matchRule: null, matchScore: null });
+  });
+});
+
+describe("pairsFilename", () => {
+  it("하루면 날짜 하나, 범위면 시작_끝", () => {
+    expect(pairsFilename(DAY, DAY, "csv")).toBe("pairs_2026-03-02.csv");
+    expect(pairsFilename(DAY, "2026-03-08", "ndjson")).toBe("pairs_2026-03-02_2026-03-08.ndjson");
+  });
+});
@@ -0,0 +1,156 @@
+import type { Activity, Block, PlanExecutionPair } from "./types";
+import { toCsv, type CsvValue } from "./csv";
+import { derivePairs, findPairPlanBlock, type PairDerivationContext, type PairDerivationOptions } from "./pairs";
+import { eachDateInRange, toLocalISODateTime, type DayTimeZoneResolver } from "./time";
+
+/**
+ * PlanExecutionPair Export (README §8.2, §9.1)
+ * 컬럼 순서는 PAIR_COLUMNS 순서로 고정한다. 컬럼을 추가할 때는 맨 뒤에만 붙이고
+ * PAIR_EXPORT_SCHEMA_VERSION을 올린다.
+ */
+
+export const PAIR_EXPORT_SCHEMA_VERSION = 1;
+
+export type PairExportFormat = "csv" | "ndjson";
+
+export interface PairExportRow {
+  pair: PlanExecutionPair;
+  plan: Block;
+  activity?: Activity;
+  displacedBy?: Activity;
+  /** pair 날짜의 시간대 (없으면 기기 시간대) */
+  timeZone?: string;
+}
+
+export interface PairColumn {
+  name: string;
+  type: "string" | "integer" | "number" | "datetime";
+  description: string;
+  value: (row: PairExportRow) => CsvValue;
+}
+
+/** 비율/점수는 소수 셋째 자리까지 */
+function round3(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(value * 1000) / 1000;
+}
+
+export const PAIR_COLUMNS: PairColumn[] = [
+  { name: "pairId", type: "string", description: "pair 식별자 (pair_ + 계획 블록 id)", value: (r) => r.pair.id },
+  { name: "dateISO", type: "string", description: "계획 날짜 (YYYY-MM-DD, 하루 시작 시각 기준 논리적 날짜)", value: (r) => r.pair.dateISO },
+  { name: "planBlockId", type: "string", description: "계획 블록 id", value: (r) => r.pair.planBlockId },
+  { name: "execBlockId", type: "string", description: "매칭된 실행 블록 중 가장 이른 블록 id (없으면 빈 값)", value: (r) => r.pair.execBlockId },
+  { name: "activityId", type: "string", description: "계획한 활동 id", value: (r) => r.plan.activityId },
+  { name: "activityName", type: "string", description: "계획한 활동 이름", value: (r) => r.activity?.name },
+  { name: "planStartAt", type: "datetime", description: "계획 시작 시각 (그날 시간대 오프셋 포함 ISO 8601)", value: (r) => toLocalISODateTime(r.pair.dateISO, r.pair.planStartMin, r.timeZone) },
+  { name: "planEndAt", type: "datetime", description: "계획 종료 시각 (그날 시간대 오프셋 포함 ISO 8601)", value: (r) => toLocalISODateTime(r.pair.dateISO, r.plan.endMin, r.timeZone) },
+  {
+    name: "execStartAt",
+    type: "datetime",
+    description: "실행 시작 시각 (그날 시간대 오프셋 포함 ISO 8601)",
+    value: (r) =>
+      r.pair.execStartMin === undefined ? undefined : toLocalISODateTime(r.pair.dateISO, r.pair.execStartMin, r.timeZone),
+  },
+  { name: "planStartMin", type: "integer", description: "계획 시작 (계획 날짜 자정 기준 분, 다음 날 새벽은 1440 이상)", value: (r) => r.pair.planStartMin },
+  { name: "execStartMin", type: "integer", description: "실행 시작 (계획 날짜 자정 기준 분)", value: (r) => r.pair.execStartMin },
+  { name: "startDelayMin", type: "integer", description: "실행 시작 - 계획 시작 (분, 음수면 일찍 시작)", value: (r) => r.pair.startDelayMin },
+  { name: "plannedMin", type: "integer", description: "계획 길이 (분)", value: (r) => r.pair.plannedMin },
+  { name: "executedMin", type: "integer", description: "매칭된 실행 블록 길이 합 (분)", value: (r) => r.pair.executedMin },
+  { name: "completionRatio", type: "number", description: "executedMin / plannedMin", value: (r) => round3(r.pair.completionRatio) },
+  { name: "planResistanceLevel", type: "string", description: "계획 저항감 (low|medium|high|uncertain)", value: (r) => r.pair.planResistanceLevel },
+  { name: "dailyEnergyLevel", type: "string", description: "그날 에너지 (low|medium|high)", value: (r) => r.pair.dailyEnergyLevel },
+  { name: "energyAtCompletion", type: "string", description: "완료 시점 에너지 (low|medium|high)", value: (r) => r.pair.energyAtCompletion },
+  { name: "extensionMin", type: "integer", description: "계획/실행 블록의 연장 시간 합 (분)", value: (r) => r.pair.extensionMin },
+  { name: "displacedByActivityId", type: "string", description: "계획 시간대를 가장 많이 차지한 다른 활동 id", value: (r) => r.pair.displacedByActivityId },
+  { name: "displacedByActivityName", type: "string", description: "계획 시간대를 가장 많이 차지한 다른 활동 이름", value: (r) => r.displacedBy?.name },
+  { name: "displacedMin", type: "integer", description: "다른 활동이 차지한 시간 (분)", value: (r) => r.pair.displacedMin },
+  { name: "matchRule", type: "string", description: "매칭 규칙 (userPinned|timeOverlap|autoNearest, 미매칭이면 빈 값)", value: (r) => r.pair.match?.rule },
+  { name: "matchScore", type: "number", description: "매칭 점수 0~1 (미매칭이면 빈 값)", value: (r) => round3(r.pair.match?.score) },
+];
+
+export interface PairExportOptions extends PairDerivationOptions {
+  fromISO: string;
+  toISO: string;
+  /** true면 CSV 앞에 '#' 주석으로, NDJSON 첫 줄에 데이터 사전을 넣는다 */
+  dictionary?: boolean;
+  bom?: boolean;
+  /** 날짜별 시간대 (없으면 기기 시간대) */
+  zoneForDate?: DayTimeZoneResolver;
+}
+
+/**
+ * 날짜 범위(양 끝 포함)의 pair를 파생하고 활동 이름까지 붙여서 반환
+ */
+export function collectPairRows(
+  blocksByDate: Record<string, Block[]>,
+  activities: Activity[],
+  context: PairDerivationContext,
+  options: PairExportOptions
+): PairExportRow[] {
+  const activityMap = new Map(activities.map((a) => [a.id, a]));
+  const pairs = derivePairs(blocksByDate, context, {
+    ...options,
+    dateISOs: eachDateInRange(options.fromISO, options.toISO),
+  });
+
+  return pairs.map((pair) => {
+    const plan = findPairPlanBlock(blocksByDate, pair)!;
+    return {
+      pair,
+      plan,
+      activity: activityMap.get(plan.activityId),
+      displacedBy: pair.displacedByActivityId ? activityMap.get(pair.displacedByActivityId) : undefined,
+      timeZone: options.zoneForDate?.(pair.dateISO),
+    };
+  });
+}
+
+function dictionaryLines(options: PairExportOptions): string[] {
+  return [
+    `# PlanExecutionPair export (schema v${PAIR_EXPORT_SCHEMA_VERSION}, ${options.fromISO} ~ ${options.toISO})`,
+    ...PAIR_COLUMNS.map((c) => `# ${c.name} (${c.type}): ${c.description}`),
+  ];
+}
+
+export function pairsToCsv(rows: PairExportRow[], options: PairExportOptions): string {
+  const csv = toCsv(
+    PAIR_COLUMNS.map((c) => c.name),
+    rows.map((row) => PAIR_COLUMNS.map((c) => c.value(row)))
+  );
+  // 주석 줄은 따옴표로 감싸지 않는다 (pandas read_csv(comment="#") 등에서 그대로 건너뛸 수 있도록)
+  const header = options.dictionary ? dictionaryLines(options).map((line) => `${line}\r\n`).join("") : "";
+  return (options.bom ? "\uFEFF" : "") + header + csv;
+}
+
+/**
+ * NDJSON: 한 줄에 pair 하나. 키 순서는 CSV 컬럼 순서와 같고 빈 값은 null.
+ * dictionary가 켜져 있으면 첫 줄은 { "$dictionary": ... } 메타 레코드다.
+ */
+export function pairsToNdjson(rows: PairExportRow[], options: PairExportOptions): string {
+  const lines: string[] = [];
+  if (options.dictionary) {
+    lines.push(
+      JSON.stringify({
+        $dictionary: {
+          schema: "PlanExecutionPair",
+          version: PAIR_EXPORT_SCHEMA_VERSION,
+          fromISO: options.fromISO,
+          toISO: options.toISO,
+          columns: PAIR_COLUMNS.map(({ name, type, description }) => ({ name, type, description })),
+        },
+      })
+    );
+  }
+  for (const row of rows) {
+    const record: Record<string, CsvValue> = {};
+    for (const column of PAIR_COLUMNS) {
+      record[column.name] = column.value(row) ?? null;
+    }
+    lines.push(JSON.stringify(record));
+  }
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+export function pairsFilename(fromISO: string, toISO: string, format: PairExportFormat): string {
+  const range = fromISO === toISO ? fromISO : `${fromISO}_${toISO}`;
+  return `pairs_${range}.${format}`;
+}
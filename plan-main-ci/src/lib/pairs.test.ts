@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { derivePairs, derivePairsForDate, matchExecutionBlocks } from "./pairs";
+import type { Block } from "./types";
+
+const DAY = "2026-03-02";
+
+function block(
+  id: string,
+  layer: Block["layer"],
+  startMin: number,
+  endMin: number,
+  extra: Partial<Block> = {}
+): Block {
+  return {
+    id,
+    dateISO: DAY,
+    startMin,
+    endMin,
+    activityId: "work",
+    layer,
+    source: "manual",
+    createdAt: 1,
+    updatedAt: 1,
+    ...extra,
+  };
+}
+
+const matchedIds = (assignments: ReturnType<typeof matchExecutionBlocks>, planId: string) =>
+  assignments.get(planId)!.map((a) => [a.exec.id, a.rule]);
+
+describe("matchExecutionBlocks", () => {
+  it("userPinned → timeOverlap → autoNearest 순서로 배정한다", () => {
+    const plans = [block("p1", "plan", 540, 600), block("p2", "plan", 660, 720), block("p3", "plan", 900, 960)];
+    const execs = [
+      // p1과 겹치지만 사용자가 p3에 고정
+      block("e1", "execute", 540, 600, { planRef: { planBlockId: "p3", matchRule: "userPinned" } }),
+      block("e2", "execute", 670, 720),
+      block("e3", "execute", 610, 630),
+    ];
+    const assignments = matchExecutionBlocks(plans, execs);
+
+    expect(matchedIds(assignments, "p3")).toEqual([["e1", "userPinned"]]);
+    expect(matchedIds(assignments, "p2")).toEqual([["e2", "timeOverlap"]]);
+    expect(matchedIds(assignments, "p1")).toEqual([["e3", "autoNearest"]]);
+  });
+
+  it("실행 블록 하나는 계획 하나에만 배정되고, 점수가 낮은 쪽은 밀려난다", () => {
+    const plans = [block("wide", "plan", 480, 720), block("tight", "plan", 540, 600)];
+    const execs = [block("e1", "execute", 540, 600)];
+    const assignments = matchExecutionBlocks(plans, execs);
+
+    expect(matchedIds(assignments, "tight")).toEqual([["e1", "timeOverlap"]]);
+    expect(assignments.get("wide")).toEqual([]);
+  });
+
+  it("다른 activity나 nearestWindowMin 밖의 실행 블록은 매칭하지 않는다", () => {
+    const plans = [block("p1", "plan", 540, 600)];
+    const execs = [block("other", "execute", 540, 600, { activityId: "rest" }), block("far", "execute", 700, 720)];
+
+    expect(matchExecutionBlocks(plans, execs, { nearestWindowMin: 60 }).get("p1")).toEqual([]);
+  });
+});
+
+describe("derivePairsForDate", () => {
+  it("매칭이 없는 계획은 match: null과 이탈 activity를 기록한다", () => {
+    const [pair] = derivePairsForDate(DAY, [
+      block("p1", "plan", 540, 600),
+      block("e1", "execute", 540, 580, { activityId: "rest" }),
+    ]);
+
+    expect(pair.match).toBeNull();
+    expect(pair.execBlockId).toBeUndefined();
+    expect(pair.executedMin).toBe(0);
+    expect(pair.completionRatio).toBe(0);
+    expect(pair.displacedByActivityId).toBe("rest");
+    expect(pair.displacedMin).toBe(40);
+  });
+
+  it("겹친 실행 블록으로 지연, 실행 시간, 점수를 계산한다", () => {
+    const [pair] = derivePairsForDate(DAY, [block("p1", "plan", 540, 600), block("e1", "execute", 555, 600)]);
+
+    expect(pair).toMatchObject({
+      planBlockId: "p1",
+      execBlockId: "e1",
+      startDelayMin: 15,
+      plannedMin: 60,
+      executedMin: 45,
+      completionRatio: 0.75,
+      match: { rule: "timeOverlap", score: 0.75 },
+    });
+  });
+});
+
+describe("derivePairs", () => {
+  it("자정을 넘긴 실행 블록도 계획 날짜 좌표로 옮겨 매칭한다", () => {
+    const next = "2026-03-03";
+    const pairs = derivePairs(
+      {
+        [DAY]: [block("p1", "plan", 1380, 1500)],
+        [next]: [block("e1", "execute", 0, 60, { dateISO: next })],
+      },
+      {},
+      { dateISOs: [DAY] }
+    );
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ execBlockId: "e1", execStartMin: 1440, startDelayMin: 60, executedMin: 60 });
+  });
+});
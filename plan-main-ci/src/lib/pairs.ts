@@ -0,0 +1,272 @@
+import type {
+  ActivityId,
+  Block,
+  BlockPlanRef,
+  CompletionEvent,
+  DailyState,
+  PlanExecutionPair,
+} from "./types";
+import { DAY_MINUTES, shiftBlockToDate, sliceBlocksForWindow } from "./daySpans";
+import { addDaysISO } from "./time";
+
+/**
+ * PlanExecutionPair 파생 엔진 (README §8.2)
+ *
+ * 계획(plan) 블록마다 같은 날짜의 실행(execute) 블록을 다음 순서로 매칭한다.
+ * (derivePairs는 자정을 넘어 앞/뒤 날짜에 저장된 실행 블록도 계획 날짜 좌표로 옮겨 후보에 넣는다.
+ *  dayStartMin이 있으면 날짜는 논리적 하루이고, 다음 날 새벽에 시작한 계획도 그날 좌표로 옮겨 포함한다)
+ * 1. userPinned  — 실행 블록의 planRef가 사용자가 고정한 계획을 가리킴 (score 1)
+ * 2. timeOverlap — 같은 activity이고 시간이 겹침 (score = 겹친 분 / 합집합 분)
+ * 3. autoNearest — 아직 매칭이 없는 계획에 한해, 같은 activity의 가장 가까운 실행 블록
+ *                  (score = 1 - 간격 / nearestWindowMin)
+ * 실행 블록 하나는 최대 하나의 계획에만 배정되고, 점수가 높은 쌍부터 배정한다.
+ */
+
+export type PairMatchRule = BlockPlanRef["matchRule"];
+
+export interface PairDerivationOptions {
+  /** autoNearest 후보로 인정할 최대 간격 (분) */
+  nearestWindowMin?: number;
+  /** 논리적 하루 시작 (분, 기본 0 = 자정) */
+  dayStartMin?: number;
+}
+
+export interface PairDerivationContext {
+  dailyStateByDate?: Record<string, DailyState>;
+  completionEventsByDate?: Record<string, CompletionEvent[]>;
+}
+
+const DEFAULT_NEAREST_WINDOW_MIN = 120;
+
+interface Assignment {
+  exec: Block;
+  rule: PairMatchRule;
+  score: number;
+}
+
+function durationMin(block: { startMin: number; endMin: number }): number {
+  return Math.max(0, block.endMin - block.startMin);
+}
+
+function overlapMin(a: { startMin: number; endMin: number }, b: { startMin: number; endMin: number }): number {
+  return Math.max(0, Math.min(a.endMin, b.endMin) - Math.max(a.startMin, b.startMin));
+}
+
+/** 두 구간 사이의 빈 시간 (겹치면 0) */
+function gapMin(a: { startMin: number; endMin: number }, b: { startMin: number; endMin: number }): number {
+  return Math.max(0, Math.max(a.startMin, b.startMin) - Math.min(a.endMin, b.endMin));
+}
+
+function overlapScore(plan: Block, exec: Block): number {
+  const overlap = overlapMin(plan, exec);
+  const union = Math.max(plan.endMin, exec.endMin) - Math.min(plan.startMin, exec.startMin);
+  return union > 0 ? overlap / union : 0;
+}
+
+/**
+ * 계획 → 실행 블록 배정 (한 날짜 단위)
+ */
+export function matchExecutionBlocks(
+  planBlocks: Block[],
+  executeBlocks: Block[],
+  options: PairDerivationOptions = {}
+): Map<string, Assignment[]> {
+  const nearestWindowMin = options.nearestWindowMin ?? DEFAULT_NEAREST_WINDOW_MIN;
+  const assignments = new Map<string, Assignment[]>(planBlocks.map((p) => [p.id, []]));
+  const planById = new Map(planBlocks.map((p) => [p.id, p]));
+  const claimed = new Set<string>();
+
+  const assign = (planId: string, exec: Block, rule: PairMatchRule, score: number) => {
+    assignments.get(planId)!.push({ exec, rule, score });
+    claimed.add(exec.id);
+  };
+
+  // 1. userPinned
+  for (const exec of executeBlocks) {
+    const ref = exec.planRef;
+    if (ref?.matchRule === "userPinned" && planById.has(ref.planBlockId)) {
+      assign(ref.planBlockId, exec, "userPinned", 1);
+    }
+  }
+
+  // 2. timeOverlap (점수 높은 쌍부터)
+  const overlapCandidates: { plan: Block; exec: Block; score: number }[] = [];
+  for (const plan of planBlocks) {
+    for (const exec of executeBlocks) {
+      if (claimed.has(exec.id) || exec.activityId !== plan.activityId) continue;
+      if (overlapMin(plan, exec) > 0) {
+        overlapCandidates.push({ plan, exec, score: overlapScore(plan, exec) });
+      }
+    }
+  }
+  overlapCandidates.sort((a, b) => b.score - a.score);
+  for (const { plan, exec, score } of overlapCandidates) {
+    if (!claimed.has(exec.id)) assign(plan.id, exec, "timeOverlap", score);
+  }
+
+  // 3. autoNearest (아직 매칭이 없는 계획만)
+  const nearestCandidates: { plan: Block; exec: Block; score: number }[] = [];
+  for (const plan of planBlocks) {
+    if (assignments.get(plan.id)!.length > 0) continue;
+    for (const exec of executeBlocks) {
+      if (claimed.has(exec.id) || exec.activityId !== plan.activityId) continue;
+      const gap = gapMin(plan, exec);
+      if (gap <= nearestWindowMin) {
+        nearestCandidates.push({ plan, exec, score: 1 - gap / nearestWindowMin });
+      }
+    }
+  }
+  nearestCandidates.sort((a, b) => b.score - a.score);
+  for (const { plan, exec, score } of nearestCandidates) {
+    if (claimed.has(exec.id) || assignments.get(plan.id)!.length > 0) continue;
+    assign(plan.id, exec, "autoNearest", score);
+  }
+
+  return assignments;
+}
+
+/**
+ * 계획 시간대에 다른 activity를 실행한 시간이 가장 긴 activity (이탈)
+ */
+function findDisplacement(
+  plan: Block,
+  executeBlocks: Block[]
+): { activityId: ActivityId; minutes: number } | undefined {
+  const byActivity = new Map<ActivityId, number>();
+  for (const exec of executeBlocks) {
+    if (exec.activityId === plan.activityId) continue;
+    const overlap = overlapMin(plan, exec);
+    if (overlap > 0) {
+      byActivity.set(exec.activityId, (byActivity.get(exec.activityId) ?? 0) + overlap);
+    }
+  }
+  let best: { activityId: ActivityId; minutes: number } | undefined;
+  for (const [activityId, minutes] of byActivity) {
+    if (!best || minutes > best.minutes) best = { activityId, minutes };
+  }
+  return best;
+}
+
+function latestCompletionEnergy(
+  blockIds: Set<string>,
+  events: CompletionEvent[] | undefined
+): CompletionEvent["energyLevel"] {
+  let latest: CompletionEvent | undefined;
+  for (const event of events ?? []) {
+    if (!blockIds.has(event.blockId) || event.energyLevel === undefined) continue;
+    if (!latest || event.createdAt > latest.createdAt) latest = event;
+  }
+  return latest?.energyLevel;
+}
+
+/**
+ * 한 날짜의 블록으로 PlanExecutionPair 목록 생성 (계획 시작 시각 순)
+ */
+export function derivePairsForDate(
+  dateISO: string,
+  blocks: Block[],
+  context: PairDerivationContext = {},
+  options: PairDerivationOptions = {}
+): PlanExecutionPair[] {
+  const planBlocks = blocks
+    .filter((b) => b.layer === "plan" && b.dateISO === dateISO)
+    .sort((a, b) => a.startMin - b.startMin);
+  if (planBlocks.length === 0) return [];
+  const executeBlocks = blocks.filter((b) => b.layer === "execute" && b.dateISO === dateISO);
+
+  const assignments = matchExecutionBlocks(planBlocks, executeBlocks, options);
+  const dailyEnergyLevel = context.dailyStateByDate?.[dateISO]?.energyLevel;
+  const events = context.completionEventsByDate?.[dateISO];
+
+  return planBlocks.map((plan) => {
+    const matched = [...assignments.get(plan.id)!].sort((a, b) => a.exec.startMin - b.exec.startMin);
+    const primary = matched[0];
+    const plannedMin = durationMin(plan);
+    const executedMin = matched.reduce((sum, m) => sum + durationMin(m.exec), 0);
+
+    const extensions = [plan, ...matched.map((m) => m.exec)]
+      .map((b) => b.extension?.extendedByMin)
+      .filter((v): v is number => typeof v === "number");
+    const displacement = findDisplacement(plan, executeBlocks);
+
+    return {
+      id: `pair_${plan.id}`,
+      dateISO,
+      planBlockId: plan.id,
+      execBlockId: primary?.exec.id,
+      planStartMin: plan.startMin,
+      execStartMin: primary?.exec.startMin,
+      startDelayMin: primary ? primary.exec.startMin - plan.startMin : undefined,
+      plannedMin,
+      executedMin,
+      completionRatio: plannedMin > 0 ? executedMin / plannedMin : 0,
+      planResistanceLevel: plan.resistance,
+      dailyEnergyLevel,
+      energyAtCompletion: latestCompletionEnergy(
+        new Set([plan.id, ...matched.map((m) => m.exec.id)]),
+        events
+      ),
+      extensionMin: extensions.length > 0 ? extensions.reduce((a, b) => a + b, 0) : undefined,
+      displacedByActivityId: displacement?.activityId,
+      displacedMin: displacement?.minutes,
+      match: primary ? { rule: primary.rule, score: primary.score } : null,
+    };
+  });
+}
+
+/** 블록을 dateISO 좌표로 옮긴 복사본 (같은 날짜면 그대로) */
+function toDateCoords(block: Block, dateISO: string): Block {
+  return block.dateISO === dateISO ? block : { ...block, dateISO, ...shiftBlockToDate(block, dateISO) };
+}
+
+/**
+ * dateISO(논리적 하루)에 시작한 계획 + 그 하루와 계획 시간대 근처에 걸친 실행 블록 (dateISO 좌표로 옮긴 복사본)
+ */
+function blocksForPairing(
+  blocksByDate: Record<string, Block[]>,
+  dateISO: string,
+  options: PairDerivationOptions
+): Block[] {
+  const dayStart = options.dayStartMin ?? 0;
+  const dayEnd = dayStart + DAY_MINUTES;
+  const plans = sliceBlocksForWindow(blocksByDate, dateISO, dayStart, dayEnd)
+    .filter((slice) => slice.block.layer === "plan" && !slice.continuesBefore)
+    .map((slice) => toDateCoords(slice.block, dateISO));
+  if (plans.length === 0) return [];
+
+  const windowMin = options.nearestWindowMin ?? DEFAULT_NEAREST_WINDOW_MIN;
+  const fromMin = Math.min(dayStart, ...plans.map((p) => p.startMin - windowMin));
+  const toMin = Math.max(dayEnd, ...plans.map((p) => p.endMin + windowMin));
+  const executes = sliceBlocksForWindow(blocksByDate, dateISO, fromMin, toMin)
+    .filter((slice) => slice.block.layer === "execute")
+    .map((slice) => toDateCoords(slice.block, dateISO));
+  return [...plans, ...executes];
+}
+
+/**
+ * pair의 계획 블록 (pair 날짜 좌표, 다음 날 새벽에 저장된 계획 포함)
+ */
+export function findPairPlanBlock(
+  blocksByDate: Record<string, Block[]>,
+  pair: PlanExecutionPair
+): Block | undefined {
+  for (const key of [pair.dateISO, addDaysISO(pair.dateISO, 1)]) {
+    const plan = blocksByDate[key]?.find((b) => b.id === pair.planBlockId);
+    if (plan) return toDateCoords(plan, pair.dateISO);
+  }
+  return undefined;
+}
+
+/**
+ * 전체(또는 지정한 날짜들)의 PlanExecutionPair 생성 (날짜 오름차순)
+ */
+export function derivePairs(
+  blocksByDate: Record<string, Block[]>,
+  context: PairDerivationContext = {},
+  options: PairDerivationOptions & { dateISOs?: string[] } = {}
+): PlanExecutionPair[] {
+  const dates = (options.dateISOs ?? Object.keys(blocksByDate)).slice().sort();
+  return dates.flatMap((dateISO) =>
+    derivePairsForDate(dateISO, blocksForPairing(blocksByDate, dateISO, options), context, options)
+  );
+}
@@ -113,6 +113,7 @@ export function buildSegmentsForDay(
 
 /**
  * Block을 DayGrid 형식으로 변환 (렌더링용)
+ * 자정 이후 부분은 다음 날 grid에 속하므로 24:00에서 멈춘다 (날짜 구간 조각은 projectBlocksOntoDay)
  */
 export function blocksToGrid(blocks: Block[], dateISO: string): DayGrid {
   const grid: DayGrid = {};
@@ -121,7 +122,8 @@ export function blocksToGrid(blocks: Block[], dateISO: string): DayGrid {
     if (block.dateISO !== dateISO) continue;
 
     let currentMin = block.startMin;
-    while (currentMin < block.endMin) {
+    const endMin = Math.min(block.endMin, 24 * 60);
+    while (currentMin < endMin) {
       const hour = Math.floor(currentMin / 60);
       const col = Math.floor((currentMin % 60) / 10);
       const cellId = makeCellId(dateISO, hour, col);
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BACKUP_KEY_PREFIX,
+  LEGACY_STORAGE_KEY,
+  STORAGE_KEY,
+  StorageError,
+  loadState,
+  saveState,
+  takeMigrationReport,
+} from "./storage";
+
+const store = new Map<string, string>();
+let backupQuotaFull = false;
+vi.stubGlobal("localStorage", {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    if (backupQuotaFull && key.startsWith(BACKUP_KEY_PREFIX)) {
+      throw new DOMException("full", "QuotaExceededError");
+    }
+    store.set(key, value);
+  },
+  removeItem: (key: string) => void store.delete(key),
+});
+
+const legacy = JSON.stringify({
+  activities: [{ id: "work", name: "업무", color: "#3b82f6" }],
+  day: { "2026-01-15": { "2026-01-15|09|0": { execute: "work" } } },
+  week: {},
+  checklist: {},
+  checklistBlocks: {},
+  startHour: 6,
+  theme: "light",
+});
+
+beforeEach(() => {
+  store.clear();
+  backupQuotaFull = false;
+});
+
+describe("loadState 마이그레이션 저장", () => {
+  it("원본을 백업한 뒤 마이그레이션 결과를 저장한다", () => {
+    store.set(LEGACY_STORAGE_KEY, legacy);
+    loadState();
+
+    expect(store.get(`${BACKUP_KEY_PREFIX}1`)).toBe(legacy);
+    expect(store.has(STORAGE_KEY)).toBe(true);
+    expect(takeMigrationReport()?.saveError).toBeUndefined();
+  });
+
+  it("원본을 백업하지 못하면 백업될 때까지 저장하지 않고 리포트로 알린다", () => {
+    store.set(LEGACY_STORAGE_KEY, legacy);
+    backupQuotaFull = true;
+    const state = loadState()!;
+
+    expect(store.has(STORAGE_KEY)).toBe(false);
+    expect(takeMigrationReport()?.saveError).toMatch("백업하지 못해");
+    // 스토어의 다음 저장도 막혀서 storageStatus.error로 드러난다
+    expect(() => saveState(state)).toThrow(StorageError);
+    expect(store.has(STORAGE_KEY)).toBe(false);
+
+    backupQuotaFull = false;
+    saveState(state);
+    expect(store.get(`${BACKUP_KEY_PREFIX}1`)).toBe(legacy);
+    expect(store.has(STORAGE_KEY)).toBe(true);
+  });
+});
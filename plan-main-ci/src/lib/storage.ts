@@ -1,34 +1,56 @@
 import type {
   Activity,
   Block,
-  WeekPlan,
-  FixedSchedule,
-  TemplateApply,
-  DailyState,
-  CompletionEvent,
-  IndicatorEvent,
   ChecklistItem,
-  ChecklistBlock,
-  MemosByCell,
-  VoiceCommandLog,
   PersistedStateV2,
-  // Legacy types for migration
-  DayGrid,
-  WeekGrid,
 } from "./types";
+import { MigrationError, migrateToCurrent, type MigrationReport } from "./migrations";
+
+export type { LegacyPersistedState } from "./migrations";
+
+export const STORAGE_KEY = "life-log-planner-state-v2";
+export const LEGACY_STORAGE_KEY = "life-log-planner-state";
+// 마이그레이션 직전 원본 payload 백업 (`${BACKUP_KEY_PREFIX}${fromVersion}`)
+export const BACKUP_KEY_PREFIX = "life-log-planner-backup-v";
+// 마지막 마이그레이션 리포트 (사용자에게 한 번 보여준 뒤 삭제)
+export const MIGRATION_REPORT_KEY = "life-log-planner-migration-report";
+
+export type StorageErrorReason = "quota" | "unavailable" | "unknown";
+
+/**
+ * 저장 실패 (quota 초과 등)
+ * 호출부에서 UI로 노출할 수 있도록 원인을 분류해서 던진다
+ */
+export class StorageError extends Error {
+  readonly reason: StorageErrorReason;
+
+  constructor(reason: StorageErrorReason, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "StorageError";
+    this.reason = reason;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
 
-const STORAGE_KEY = "life-log-planner-state-v2";
-const LEGACY_STORAGE_KEY = "life-log-planner-state";
+function isQuotaError(err: unknown): boolean {
+  return (
+    err instanceof DOMException &&
+    (err.name === "QuotaExceededError" || err.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
 
-// Legacy v1 state for migration
-export interface LegacyPersistedState {
-  activities: Activity[];
-  day: Record<string, DayGrid>;
-  week: Record<string, WeekGrid>;
-  checklist: Record<string, ChecklistItem[]>;
-  checklistBlocks: Record<string, ChecklistBlock[]>;
-  startHour: number;
-  theme: "light" | "dark";
+/**
+ * 임의의 예외를 StorageError로 정규화
+ */
+export function toStorageError(err: unknown, context: string): StorageError {
+  if (err instanceof StorageError) return err;
+  if (isQuotaError(err)) {
+    return new StorageError("quota", `${context}: 저장 공간이 부족합니다`, { cause: err });
+  }
+  const detail = err instanceof Error ? err.message : String(err);
+  return new StorageError("unknown", `${context}: ${detail}`, { cause: err });
 }
 
 // Alias for backward compatibility
@@ -42,285 +64,99 @@ export interface SimplifiedPersistedState {
   theme: 'light' | 'dark';
 }
 
-function createEmptyStateV2(): PersistedStateV2 {
-  return {
-    version: 2,
-    schemaVersion: 2,
-    activities: [],
-    blocksByDate: {},
-    weekPlans: {},
-    fixedSchedule: [],
-    fixedSchedules: [],
-    templateAppliesByDate: {},
-    dailyStateByDate: {},
-    completionEventsByDate: {},
-    indicatorsByDate: {},
-    checklistByDate: {},
-    checklistBlocksByDate: {},
-    memosByDate: {},
-    voiceCommandLogsByDate: {},
-    startHour: 6,
-    theme: "light",
-  };
-}
-
-// Migrate v1 DayGrid cells to v2 Blocks
-function migrateDayGridToBlocks(
-  dayGrids: Record<string, DayGrid>
-): Record<string, Block[]> {
-  const blocksByDate: Record<string, Block[]> = {};
-  const now = Date.now();
-
-  for (const [dateISO, grid] of Object.entries(dayGrids)) {
-    const blocks: Block[] = [];
-    const cellIds = Object.keys(grid).sort();
-
-    // Group consecutive cells with same activity
-    type CellInfo = { hour: number; col: number; execute?: string; overlay?: string };
-    const cells: CellInfo[] = cellIds.map((cellId) => {
-      const [, hh, cc] = cellId.split("|");
-      return {
-        hour: Number(hh),
-        col: Number(cc),
-        execute: grid[cellId].execute,
-        overlay: grid[cellId].overlay,
-      };
-    });
-
-    // Build execute blocks
-    const executeSegments: { startMin: number; endMin: number; activityId: string }[] = [];
-    let currentExec: { startMin: number; activityId: string } | null = null;
-
-    for (const cell of cells) {
-      const min = cell.hour * 60 + cell.col * 10;
-      if (cell.execute) {
-        if (currentExec && currentExec.activityId === cell.execute) {
-          // Continue segment
-        } else {
-          if (currentExec) {
-            executeSegments.push({
-              startMin: currentExec.startMin,
-              endMin: min,
-              activityId: currentExec.activityId,
-            });
-          }
-          currentExec = { startMin: min, activityId: cell.execute };
-        }
-      } else if (currentExec) {
-        executeSegments.push({
-          startMin: currentExec.startMin,
-          endMin: min,
-          activityId: currentExec.activityId,
-        });
-        currentExec = null;
-      }
-    }
-    if (currentExec) {
-      const lastCell = cells[cells.length - 1];
-      executeSegments.push({
-        startMin: currentExec.startMin,
-        endMin: lastCell.hour * 60 + (lastCell.col + 1) * 10,
-        activityId: currentExec.activityId,
-      });
-    }
-
-    for (const seg of executeSegments) {
-      blocks.push({
-        id: `migrated_exec_${dateISO}_${seg.startMin}`,
-        dateISO,
-        startMin: seg.startMin,
-        endMin: seg.endMin,
-        activityId: seg.activityId,
-        layer: "execute",
-        source: "manual",
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
 
-    // Build overlay blocks (similar logic)
-    const overlaySegments: { startMin: number; endMin: number; activityId: string }[] = [];
-    let currentOverlay: { startMin: number; activityId: string } | null = null;
-
-    for (const cell of cells) {
-      const min = cell.hour * 60 + cell.col * 10;
-      if (cell.overlay) {
-        if (currentOverlay && currentOverlay.activityId === cell.overlay) {
-          // Continue
-        } else {
-          if (currentOverlay) {
-            overlaySegments.push({
-              startMin: currentOverlay.startMin,
-              endMin: min,
-              activityId: currentOverlay.activityId,
-            });
-          }
-          currentOverlay = { startMin: min, activityId: cell.overlay };
-        }
-      } else if (currentOverlay) {
-        overlaySegments.push({
-          startMin: currentOverlay.startMin,
-          endMin: min,
-          activityId: currentOverlay.activityId,
-        });
-        currentOverlay = null;
-      }
-    }
-    if (currentOverlay) {
-      const lastCell = cells[cells.length - 1];
-      overlaySegments.push({
-        startMin: currentOverlay.startMin,
-        endMin: lastCell.hour * 60 + (lastCell.col + 1) * 10,
-        activityId: currentOverlay.activityId,
-      });
-    }
-
-    for (const seg of overlaySegments) {
-      blocks.push({
-        id: `migrated_overlay_${dateISO}_${seg.startMin}`,
-        dateISO,
-        startMin: seg.startMin,
-        endMin: seg.endMin,
-        activityId: seg.activityId,
-        layer: "overlay",
-        source: "manual",
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
-
-    if (blocks.length > 0) {
-      blocksByDate[dateISO] = blocks;
-    }
+function readItem(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch (err) {
+    throw new StorageError("unavailable", "localStorage를 읽을 수 없습니다", { cause: err });
   }
-
-  return blocksByDate;
 }
 
-// Migrate v1 indicators to v2 IndicatorEvents
-function migrateIndicators(
-  dayGrids: Record<string, DayGrid>
-): Record<string, IndicatorEvent[]> {
-  const indicatorsByDate: Record<string, IndicatorEvent[]> = {};
-  const now = Date.now();
-
-  for (const [dateISO, grid] of Object.entries(dayGrids)) {
-    const indicators: IndicatorEvent[] = [];
-
-    for (const [cellId, cell] of Object.entries(grid)) {
-      if (cell.indicator) {
-        const [, hh, cc] = cellId.split("|");
-        const atMin = Number(hh) * 60 + Number(cc) * 10;
-        indicators.push({
-          id: `migrated_ind_${cellId}`,
-          dateISO,
-          atMin,
-          label: cell.indicator.label,
-          timeText: cell.indicator.timeText,
-          createdAt: now,
-        });
-      }
-    }
+// 마이그레이션한 원본을 아직 백업하지 못했다 — 백업될 때까지 STORAGE_KEY를 덮어쓰지 않는다 (saveState)
+let pendingBackup: { raw: string; fromVersion: number } | null = null;
 
-    if (indicators.length > 0) {
-      indicatorsByDate[dateISO] = indicators;
-    }
+function backupPayload(raw: string, fromVersion: number): boolean {
+  try {
+    localStorage.setItem(`${BACKUP_KEY_PREFIX}${fromVersion}`, raw);
+    return true;
+  } catch {
+    return false;
   }
-
-  return indicatorsByDate;
 }
 
-// Migrate v1 checklist blocks
-function migrateChecklistBlocks(
-  blocks: Record<string, ChecklistBlock[]>
-): Record<string, ChecklistBlock[]> {
-  const result: Record<string, ChecklistBlock[]> = {};
-  const now = Date.now();
-
-  for (const [dateISO, list] of Object.entries(blocks)) {
-    result[dateISO] = list.map((b) => ({
-      ...b,
-      dateISO,
-      createdAt: now,
-      updatedAt: now,
-    }));
+export function saveMigrationReport(report: MigrationReport): void {
+  try {
+    localStorage.setItem(MIGRATION_REPORT_KEY, JSON.stringify(report));
+  } catch {
+    // 리포트는 부가 정보 — 저장 실패는 무시
   }
-
-  return result;
 }
 
-// Migrate v1 checklists
-function migrateChecklists(
-  checklists: Record<string, ChecklistItem[]>
-): Record<string, ChecklistItem[]> {
-  const result: Record<string, ChecklistItem[]> = {};
-  const now = Date.now();
-
-  for (const [dateISO, items] of Object.entries(checklists)) {
-    result[dateISO] = items.map((item) => ({
-      ...item,
-      createdAt: now,
-      updatedAt: now,
-    }));
+/**
+ * 저장된 마이그레이션 리포트를 꺼내고 삭제
+ */
+export function takeMigrationReport(): MigrationReport | null {
+  try {
+    const raw = localStorage.getItem(MIGRATION_REPORT_KEY);
+    if (!raw) return null;
+    localStorage.removeItem(MIGRATION_REPORT_KEY);
+    return JSON.parse(raw) as MigrationReport;
+  } catch {
+    return null;
   }
-
-  return result;
 }
 
-function migrateV1toV2(legacy: LegacyPersistedState): PersistedStateV2 {
-  const state = createEmptyStateV2();
-
-  state.activities = legacy.activities || [];
-  state.startHour = legacy.startHour ?? 6;
-  state.theme = legacy.theme || "light";
-
-  if (legacy.day) {
-    state.blocksByDate = migrateDayGridToBlocks(legacy.day);
-    state.indicatorsByDate = migrateIndicators(legacy.day);
-  }
+/**
+ * localStorage에서 상태 로드 (v2 키 우선, 없으면 v1 키)
+ * 구버전이면 현재 스키마로 마이그레이션해서 다시 저장한다. 원본을 백업하기 전에는 다시 저장하지 않는다 (saveState).
+ * @returns 저장된 데이터가 없으면 null
+ * @throws MigrationError 손상되었거나 마이그레이션할 수 없는 데이터
+ * @throws StorageError localStorage 접근 불가
+ */
+export function loadState(): PersistedStateV2 | null {
+  const raw = readItem(STORAGE_KEY) ?? readItem(LEGACY_STORAGE_KEY);
+  if (raw === null) return null;
 
-  if (legacy.checklist) {
-    state.checklistByDate = migrateChecklists(legacy.checklist);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new MigrationError("corrupt", "저장된 데이터를 해석할 수 없습니다 (JSON 손상)", { cause: err });
   }
 
-  if (legacy.checklistBlocks) {
-    state.checklistBlocksByDate = migrateChecklistBlocks(legacy.checklistBlocks);
+  const { state, fromVersion, applied, report } = migrateToCurrent(parsed);
+  if (applied.length > 0) {
+    pendingBackup = { raw, fromVersion };
+    try {
+      saveState(state);
+    } catch (err) {
+      // 원본은 그대로 두고 이번 실행에서는 메모리에서만 마이그레이션한다 — 이유는 리포트로 알린다
+      report.saveError = toStorageError(err, "마이그레이션 결과 저장 실패").message;
+    }
+    saveMigrationReport(report);
   }
-
   return state;
 }
 
-export function loadState(): PersistedStateV2 | null {
-  try {
-    // Try v2 first
-    const rawV2 = localStorage.getItem(STORAGE_KEY);
-    if (rawV2) {
-      const parsed = JSON.parse(rawV2) as PersistedStateV2;
-      if (parsed.schemaVersion === 2) {
-        return parsed;
-      }
-    }
-
-    // Try legacy v1 and migrate
-    const rawV1 = localStorage.getItem(LEGACY_STORAGE_KEY);
-    if (rawV1) {
-      const legacy = JSON.parse(rawV1) as LegacyPersistedState;
-      const migrated = migrateV1toV2(legacy);
-      // Save migrated state
-      saveState(migrated);
-      return migrated;
+/**
+ * localStorage에 전체 상태 저장
+ * 마이그레이션한 원본의 백업이 아직 없으면 먼저 백업하고, 백업할 수 없으면 저장하지 않는다.
+ * @throws StorageError quota 초과나 원본 백업 실패로 저장하지 못했을 때
+ */
+export function saveState(state: PersistedStateV2): void {
+  if (pendingBackup) {
+    if (!backupPayload(pendingBackup.raw, pendingBackup.fromVersion)) {
+      throw new StorageError(
+        "quota",
+        `마이그레이션 전 원본(v${pendingBackup.fromVersion})을 백업하지 못해 저장하지 않았습니다. 저장 공간을 확보하세요.`
+      );
     }
-
-    return null;
-  } catch {
-    return null;
+    pendingBackup = null;
   }
-}
-
-export function saveState(state: PersistedStateV2): void {
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  } catch {
-    // ignore quota errors
+  } catch (err) {
+    throw toStorageError(err, "localStorage 저장 실패");
   }
 }
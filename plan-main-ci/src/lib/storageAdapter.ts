@@ -0,0 +1,90 @@
+import type { Block, PersistedStateV2 } from "./types";
+import { loadState, saveState, STORAGE_KEY, StorageError } from "./storage";
+import { createIndexedDBAdapter, isIndexedDBAvailable } from "./indexedDbStorage";
+import { MigrationError } from "./migrations";
+
+export type StorageBackend = "localStorage" | "indexedDB";
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+/**
+ * 저장소 어댑터
+ * - load: 블록을 제외한 전체 상태 (eager 백엔드는 blocksByDate까지 채워서 반환)
+ * - loadBlocks: 날짜별 블록 lazy 로드 (dateISOs 생략 시 전체)
+ * - save: dirtyDates에 해당하는 날짜의 블록만 기록 (eager 백엔드는 무시하고 전체 기록)
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  /** true면 load()가 blocksByDate를 비워서 반환하고, 블록은 loadBlocks로 가져와야 한다 */
+  readonly lazyBlocks: boolean;
+  load(): Promise<PersistedStateV2 | null>;
+  loadBlocks(dateISOs?: string[]): Promise<Record<string, Block[]>>;
+  save(state: PersistedStateV2, dirtyDates: string[]): Promise<void>;
+  estimateUsage(): Promise<StorageUsage | null>;
+}
+
+// 대부분의 브라우저/WebView에서 origin당 localStorage 한도는 약 5MB
+const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/**
+ * 기존 localStorage 단일 키 저장 방식 (IndexedDB를 쓸 수 없을 때의 fallback)
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  let cachedBlocks: Record<string, Block[]> = {};
+
+  return {
+    backend: "localStorage",
+    lazyBlocks: false,
+
+    async load() {
+      const state = loadState();
+      cachedBlocks = state?.blocksByDate || {};
+      return state;
+    },
+
+    async loadBlocks(dateISOs) {
+      if (!dateISOs) return { ...cachedBlocks };
+      const result: Record<string, Block[]> = {};
+      for (const dateISO of dateISOs) {
+        if (cachedBlocks[dateISO]) result[dateISO] = cachedBlocks[dateISO];
+      }
+      return result;
+    },
+
+    async save(state) {
+      saveState(state);
+      cachedBlocks = state.blocksByDate;
+    },
+
+    async estimateUsage() {
+      try {
+        const raw = localStorage.getItem(STORAGE_KEY) || "";
+        // JS 문자열은 UTF-16 → 문자당 2바이트
+        return { usedBytes: raw.length * 2, quotaBytes: LOCAL_STORAGE_QUOTA_BYTES };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * 사용 가능한 최선의 어댑터 선택 (IndexedDB 우선)
+ */
+export function createStorageAdapter(): StorageAdapter {
+  if (isIndexedDBAvailable()) {
+    return createIndexedDBAdapter();
+  }
+  return createLocalStorageAdapter();
+}
+
+export function describeStorageError(err: unknown): string {
+  if (err instanceof StorageError) return err.message;
+  if (err instanceof MigrationError) {
+    return err.problems.length > 0 ? `${err.message}\n- ${err.problems.join("\n- ")}` : err.message;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  SyncError,
+  TOMBSTONE_RETENTION_DAYS,
+  createSyncSnapshot,
+  mergeSyncSnapshot,
+  parseSyncSnapshot,
+  pruneTombstones,
+  serializeSyncSnapshot,
+  tombstoneKey,
+  trackDeletions,
+} from "./sync";
+import { CURRENT_SCHEMA_VERSION, createEmptyStateV2 } from "./migrations";
+import type { Block, PersistedStateV2 } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_800_000_000_000;
+const daysAgo = (days: number) => NOW - days * DAY_MS;
+
+function block(id: string, startMin: number, endMin: number, updatedAt: number): Block {
+  return {
+    id,
+    dateISO: "2026-03-01",
+    startMin,
+    endMin,
+    // 블록마다 다른 활동 (같은 활동끼리 붙으면 한 블록으로 합쳐진다)
+    activityId: `activity-${id}`,
+    layer: "execute",
+    source: "manual",
+    createdAt: 1,
+    updatedAt,
+  };
+}
+
+function stateWith(blocks: Block[], tombstones: Record<string, number> = {}): PersistedStateV2 {
+  return {
+    ...createEmptyStateV2(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    blocksByDate: blocks.length > 0 ? { "2026-03-01": blocks } : {},
+    tombstones,
+  };
+}
+
+const spans = (state: PersistedStateV2) =>
+  (state.blocksByDate["2026-03-01"] || []).map((b) => [b.id, b.startMin, b.endMin]);
+
+describe("mergeSyncSnapshot", () => {
+  it("양쪽 블록을 합치고 겹침은 더 최근에 고친 블록 기준으로 정리한다", () => {
+    const local = stateWith([block("a", 540, 600, 5)]);
+    const remote = stateWith([block("b", 570, 660, 9)]);
+
+    const { state, receivedBlocks } = mergeSyncSnapshot(local, createSyncSnapshot(remote, "REMOTE", NOW), NOW);
+    expect(spans(state)).toEqual([
+      ["a", 540, 570],
+      ["b", 570, 660],
+    ]);
+    expect(receivedBlocks).toBe(1);
+  });
+
+  it("상대가 지운 블록은 지우고, 지운 뒤에 고친 블록은 되살린다", () => {
+    const local = stateWith([block("a", 540, 600, daysAgo(3)), block("b", 600, 660, daysAgo(1))]);
+    const remote = stateWith([], { [tombstoneKey("block", "a")]: daysAgo(2), [tombstoneKey("block", "b")]: daysAgo(2) });
+
+    const { state, deletedItems } = mergeSyncSnapshot(local, createSyncSnapshot(remote, "REMOTE", NOW), NOW);
+    expect(spans(state)).toEqual([["b", 600, 660]]);
+    expect(deletedItems).toBe(1);
+    expect(state.tombstones).toEqual({ [tombstoneKey("block", "a")]: daysAgo(2) });
+  });
+
+  it("지운 블록이 남은 블록을 자르지 않는다", () => {
+    const local = stateWith([block("a", 540, 660, daysAgo(2))]);
+    const remote = stateWith([block("b", 600, 720, daysAgo(3))], { [tombstoneKey("block", "a")]: daysAgo(1) });
+
+    const { state } = mergeSyncSnapshot(local, createSyncSnapshot(remote, "REMOTE", NOW), NOW);
+    expect(spans(state)).toEqual([["b", 600, 720]]);
+  });
+
+  it("양쪽에서 마지막 동기화 이후 다르게 고친 블록은 충돌로 남긴다", () => {
+    const local = {
+      ...stateWith([block("a", 540, 600, 50)]),
+      syncPeers: { REMOTE: { deviceId: "REMOTE", lastSyncedAt: 10, remoteExportedAt: 10 } },
+    };
+    const remote = stateWith([block("a", 540, 660, 60)]);
+
+    const { conflicts, state } = mergeSyncSnapshot(local, createSyncSnapshot(remote, "REMOTE", NOW), NOW);
+    expect(conflicts.map((c) => [c.blockId, c.kept])).toEqual([["a", "remote"]]);
+    expect(state.syncPeers?.REMOTE.lastSyncedAt).toBe(NOW);
+  });
+
+  it("보관 기간이 지난 tombstone은 병합 결과에 남기지 않는다", () => {
+    const local = stateWith([], { [tombstoneKey("block", "old")]: daysAgo(TOMBSTONE_RETENTION_DAYS + 1) });
+
+    const { state } = mergeSyncSnapshot(local, createSyncSnapshot(stateWith([]), "REMOTE", NOW), NOW);
+    expect(state.tombstones).toEqual({});
+  });
+});
+
+describe("pruneTombstones", () => {
+  it("보관 기간이 지난 것만 빼고, 뺄 게 없으면 같은 객체를 돌려준다", () => {
+    const fresh = { "block:b": daysAgo(1) };
+    const tombstones = { ...fresh, "block:a": daysAgo(TOMBSTONE_RETENTION_DAYS + 1) };
+
+    expect(pruneTombstones(tombstones, NOW)).toEqual(fresh);
+    expect(pruneTombstones(fresh, NOW)).toBe(fresh);
+  });
+});
+
+describe("trackDeletions", () => {
+  it("사라진 id는 tombstone으로 남기고 다시 나타나면 지운다", () => {
+    const before = { "2026-03-01": [block("a", 540, 600, 1), block("b", 600, 660, 1)] };
+    const after = { "2026-03-01": [block("b", 600, 660, 1)] };
+
+    const deleted = trackDeletions({}, "block", before, after, NOW);
+    expect(deleted).toEqual({ [tombstoneKey("block", "a")]: NOW });
+    expect(trackDeletions(deleted, "block", after, before, NOW)).toEqual({});
+  });
+
+  it("날짜만 옮긴 블록은 지운 것으로 보지 않는다", () => {
+    const before = { "2026-03-01": [block("a", 540, 600, 1)] };
+    const after = { "2026-03-02": [{ ...block("a", 540, 600, 2), dateISO: "2026-03-02" }] };
+
+    expect(trackDeletions({}, "block", before, after, NOW)).toEqual({});
+  });
+});
+
+describe("parseSyncSnapshot", () => {
+  it("직렬화한 스냅샷을 되읽는다 (기기 전용 정보는 빠진다)", () => {
+    const state = { ...stateWith([block("a", 540, 600, 5)]), syncEndpoint: "http://localhost:5173/__sync" };
+    const parsed = parseSyncSnapshot(serializeSyncSnapshot(createSyncSnapshot(state, "DEVICE", NOW)));
+
+    expect(parsed.deviceId).toBe("DEVICE");
+    expect(parsed.state.blocksByDate).toEqual(state.blocksByDate);
+    expect(parsed.state.syncEndpoint).toBeUndefined();
+  });
+
+  it("형식이 다르면 SyncError", () => {
+    expect(() => parseSyncSnapshot(JSON.stringify({ format: "other" }))).toThrow(SyncError);
+  });
+});
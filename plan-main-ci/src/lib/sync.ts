@@ -0,0 +1,390 @@
+import type { Block, PersistedStateV2, SyncConflict, SyncEntityKind } from "./types";
+import { CURRENT_SCHEMA_VERSION, MigrationError, migrateToCurrent, validateStateV2 } from "./migrations";
+import { mergeBlocksById, normalizeMergedBlocks, restoreState } from "./backup";
+
+/**
+ * 두 기기 간 오프라인 동기화
+ * 스냅샷을 파일이나 로컬 HTTP 엔드포인트로 주고받아 엔티티별로 합친다 (state 통째로 덮어쓰지 않음).
+ * - 같은 id는 updatedAt이 더 최근인 쪽을 남긴다 (백업 병합과 같은 규칙)
+ * - 삭제는 tombstone(`${kind}:${id}` → 삭제 시각)으로 전달해 다른 기기에서 되살아나지 않게 한다
+ * - 마지막 동기화 이후 양쪽에서 고친 블록은 충돌 목록에 남긴다
+ * 기기 시계가 어긋날 수 있으므로 "마지막 동기화 이후"는 각 기기의 시계로 따로 판단한다 (SyncPeer).
+ */
+
+export const SYNC_FORMAT = "life-log-planner-sync";
+export const SYNC_FORMAT_VERSION = 1;
+/** 이보다 오래된 tombstone은 병합할 때 정리한다 */
+export const TOMBSTONE_RETENTION_DAYS = 90;
+
+export interface SyncSnapshot {
+  format: typeof SYNC_FORMAT;
+  formatVersion: number;
+  deviceId: string;
+  /** 보낸 기기 시계 기준 */
+  exportedAt: number;
+  schemaVersion: number;
+  state: PersistedStateV2;
+}
+
+export interface SyncMergeResult {
+  state: PersistedStateV2;
+  /** 이번 병합에서 찾은 충돌 */
+  conflicts: SyncConflict[];
+  /** 상대 기기에서 새로 받거나 바뀐 블록 수 */
+  receivedBlocks: number;
+  /** 상대 기기의 삭제로 지운 항목 수 */
+  deletedItems: number;
+}
+
+export type SyncErrorReason = "corrupt" | "unsupported_version" | "invalid" | "network";
+
+export class SyncError extends Error {
+  readonly reason: SyncErrorReason;
+  readonly problems: string[];
+
+  constructor(reason: SyncErrorReason, message: string, details: { problems?: string[]; cause?: unknown } = {}) {
+    super(message);
+    this.name = "SyncError";
+    this.reason = reason;
+    this.problems = details.problems ?? [];
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+}
+
+type Identified = { id: string };
+
+export function tombstoneKey(kind: SyncEntityKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/**
+ * 날짜(또는 주)별 목록의 이전/다음 값을 비교해 사라진 id는 tombstone으로 남기고,
+ * 다시 나타난 id(실행 취소 등)는 tombstone을 지운다. 바뀐 게 없으면 같은 객체를 돌려준다.
+ */
+export function trackDeletions(
+  tombstones: Record<string, number>,
+  kind: SyncEntityKind,
+  prev: Record<string, Identified[]>,
+  next: Record<string, Identified[]>,
+  now = Date.now()
+): Record<string, number> {
+  if (prev === next) return tombstones;
+  const removed = new Set<string>();
+  const present = new Set<string>();
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (prev[key] === next[key]) continue;
+    for (const item of prev[key] || []) removed.add(item.id);
+    for (const item of next[key] || []) present.add(item.id);
+  }
+
+  let out = tombstones;
+  const edit = () => (out === tombstones ? (out = { ...tombstones }) : out);
+  for (const id of removed) {
+    const key = tombstoneKey(kind, id);
+    if (!present.has(id) && !(key in out)) edit()[key] = now;
+  }
+  for (const id of present) {
+    const key = tombstoneKey(kind, id);
+    if (key in out) delete edit()[key];
+  }
+  return out;
+}
+
+function tombstoneCutoff(now: number): number {
+  return now - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * 보관 기간이 지난 tombstone을 뺀다 (동기화하지 않는 기기에서도 무한히 쌓이지 않도록 저장·불러오기 때 호출)
+ * 뺄 게 없으면 같은 객체를 돌려준다.
+ */
+export function pruneTombstones(tombstones: Record<string, number>, now = Date.now()): Record<string, number> {
+  const cutoff = tombstoneCutoff(now);
+  const expired = Object.keys(tombstones).filter((key) => tombstones[key] < cutoff);
+  if (expired.length === 0) return tombstones;
+  const out = { ...tombstones };
+  for (const key of expired) delete out[key];
+  return out;
+}
+
+/**
+ * 보낼 스냅샷: 이 기기에만 의미 있는 동기화 정보(상대 목록, 충돌, 엔드포인트)는 뺀다
+ */
+export function createSyncSnapshot(state: PersistedStateV2, deviceId: string, now = Date.now()): SyncSnapshot {
+  const { syncPeers: _peers, syncConflicts: _conflicts, syncEndpoint: _endpoint, ...shared } = state;
+  return {
+    format: SYNC_FORMAT,
+    formatVersion: SYNC_FORMAT_VERSION,
+    deviceId,
+    exportedAt: now,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    state: shared,
+  };
+}
+
+export function serializeSyncSnapshot(snapshot: SyncSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+export function syncSnapshotFilename(dateISO: string): string {
+  return `life-log-sync_${dateISO}.json`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 스냅샷 텍스트 → 현재 스키마로 올린 스냅샷
+ * @throws SyncError JSON 손상, 형식 불일치, 미래 버전, 검증 실패 시
+ */
+export function parseSyncSnapshot(text: string): SyncSnapshot {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new SyncError("corrupt", "동기화 파일을 읽을 수 없습니다", { cause: err });
+  }
+  if (
+    !isRecord(parsed) ||
+    parsed.format !== SYNC_FORMAT ||
+    typeof parsed.deviceId !== "string" ||
+    typeof parsed.exportedAt !== "number"
+  ) {
+    throw new SyncError("corrupt", "동기화 스냅샷 형식이 아닙니다");
+  }
+  if (typeof parsed.formatVersion !== "number" || parsed.formatVersion > SYNC_FORMAT_VERSION) {
+    throw new SyncError("unsupported_version", "더 새로운 앱 버전에서 만든 스냅샷입니다. 앱을 업데이트하세요.");
+  }
+
+  let state: PersistedStateV2;
+  try {
+    state = migrateToCurrent(parsed.state).state;
+  } catch (err) {
+    if (err instanceof MigrationError) {
+      throw new SyncError(
+        err.reason === "unsupported_version" ? "unsupported_version" : "invalid",
+        err.message,
+        { problems: err.problems, cause: err }
+      );
+    }
+    throw err;
+  }
+  const problems = validateStateV2(state);
+  if (problems.length > 0) {
+    throw new SyncError("invalid", "스냅샷 데이터 형식이 올바르지 않습니다", { problems });
+  }
+
+  return {
+    format: SYNC_FORMAT,
+    formatVersion: parsed.formatVersion,
+    deviceId: parsed.deviceId,
+    exportedAt: parsed.exportedAt,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    state,
+  };
+}
+
+// ===== Merge =====
+
+function indexBlocks(blocksByDate: Record<string, Block[]>): Map<string, Block> {
+  const map = new Map<string, Block>();
+  for (const list of Object.values(blocksByDate)) {
+    for (const block of list) map.set(block.id, block);
+  }
+  return map;
+}
+
+/** 사용자가 볼 수 있는 내용이 같은지 (타임스탬프 제외) */
+function sameBlockContent(a: Block, b: Block): boolean {
+  return (
+    a.dateISO === b.dateISO &&
+    a.startMin === b.startMin &&
+    a.endMin === b.endMin &&
+    a.activityId === b.activityId &&
+    a.layer === b.layer &&
+    a.title === b.title &&
+    a.paintStyle === b.paintStyle &&
+    a.resistance === b.resistance &&
+    a.score === b.score &&
+    a.emoji === b.emoji &&
+    a.planRef?.planBlockId === b.planRef?.planBlockId &&
+    JSON.stringify(a.extension) === JSON.stringify(b.extension)
+  );
+}
+
+function mergeTombstones(
+  a: Record<string, number> | undefined,
+  b: Record<string, number> | undefined,
+  cutoff: number
+): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const source of [a || {}, b || {}]) {
+    for (const [key, deletedAt] of Object.entries(source)) {
+      if (deletedAt >= cutoff && deletedAt > (out[key] ?? -Infinity)) out[key] = deletedAt;
+    }
+  }
+  return out;
+}
+
+/**
+ * tombstone보다 늦게 고쳐지지 않은 항목을 지운다
+ * 삭제 뒤에 고친 항목은 남기고 그 tombstone을 없앤다 (삭제보다 수정이 최근)
+ */
+function dropDeleted<T extends Identified>(
+  byDate: Record<string, T[]> | undefined,
+  kind: SyncEntityKind,
+  tombstones: Record<string, number>,
+  stamp: (item: T) => number,
+  onDelete: () => void
+): Record<string, T[]> {
+  const out: Record<string, T[]> = {};
+  for (const [key, list] of Object.entries(byDate || {})) {
+    const kept = list.filter((item) => {
+      const tombKey = tombstoneKey(kind, item.id);
+      const deletedAt = tombstones[tombKey];
+      if (deletedAt === undefined) return true;
+      if (stamp(item) > deletedAt) {
+        delete tombstones[tombKey];
+        return true;
+      }
+      onDelete();
+      return false;
+    });
+    if (kept.length > 0 || list.length === 0) out[key] = kept;
+  }
+  return out;
+}
+
+/**
+ * 이 기기 state에 상대 기기 스냅샷을 합친다
+ * 충돌(마지막 동기화 이후 양쪽에서 고치거나, 한쪽은 고치고 다른 쪽은 지운 블록)은
+ * 일단 더 최근 쪽으로 병합하고 conflicts로 돌려준다.
+ */
+export function mergeSyncSnapshot(
+  local: PersistedStateV2,
+  snapshot: SyncSnapshot,
+  now = Date.now()
+): SyncMergeResult {
+  const remote = snapshot.state;
+  const peer = local.syncPeers?.[snapshot.deviceId];
+  const localBase = peer?.lastSyncedAt ?? 0;
+  const remoteBase = peer?.remoteExportedAt ?? 0;
+
+  const tombstones = mergeTombstones(local.tombstones, remote.tombstones, tombstoneCutoff(now));
+  const merged = restoreState(local, remote, "merge");
+
+  let deletedItems = 0;
+  const countDelete = () => deletedItems++;
+  // 지운 블록을 먼저 빼고 겹침을 정리한다 (지워질 블록이 남은 블록을 자르지 않도록)
+  const blocksByDate = normalizeMergedBlocks(
+    dropDeleted(mergeBlocksById(local.blocksByDate, remote.blocksByDate), "block", tombstones, (b) => b.updatedAt, countDelete)
+  );
+  const weekPlans: PersistedStateV2["weekPlans"] = {};
+  for (const [weekKey, plan] of Object.entries(merged.weekPlans)) {
+    const blocks = dropDeleted({ [weekKey]: plan.blocks }, "weekPlanBlock", tombstones, (b) => b.updatedAt, countDelete);
+    weekPlans[weekKey] = { ...plan, blocks: blocks[weekKey] ?? [] };
+  }
+
+  const state: PersistedStateV2 = {
+    ...merged,
+    blocksByDate,
+    weekPlans,
+    memosByDate: dropDeleted(merged.memosByDate, "memo", tombstones, (m) => m.updatedAt ?? m.createdAt, countDelete),
+    indicatorsByDate: dropDeleted(merged.indicatorsByDate, "indicator", tombstones, (i) => i.createdAt, countDelete),
+    completionEventsByDate: dropDeleted(
+      merged.completionEventsByDate,
+      "completionEvent",
+      tombstones,
+      (e) => e.createdAt,
+      countDelete
+    ),
+    checklistByDate: dropDeleted(merged.checklistByDate, "checklistItem", tombstones, (c) => c.updatedAt, countDelete),
+    checklistBlocksByDate: dropDeleted(
+      merged.checklistBlocksByDate,
+      "checklistBlock",
+      tombstones,
+      (c) => c.updatedAt,
+      countDelete
+    ),
+    tombstones,
+  };
+
+  // 블록 충돌: 각 기기의 마지막 동기화 시점 이후 양쪽 모두 바뀐 블록
+  const localBlocks = indexBlocks(local.blocksByDate);
+  const remoteBlocks = indexBlocks(remote.blocksByDate);
+  const mergedBlocks = indexBlocks(blocksByDate);
+  const conflicts: SyncConflict[] = [];
+  let receivedBlocks = 0;
+  for (const id of new Set([...localBlocks.keys(), ...remoteBlocks.keys()])) {
+    const l = localBlocks.get(id);
+    const r = remoteBlocks.get(id);
+    const kept = mergedBlocks.get(id);
+    if (kept && kept === r && kept !== l) receivedBlocks++;
+
+    const localDeletedAt = local.tombstones?.[tombstoneKey("block", id)];
+    const remoteDeletedAt = remote.tombstones?.[tombstoneKey("block", id)];
+    const localChanged = l ? l.updatedAt > localBase : localDeletedAt !== undefined && localDeletedAt > localBase;
+    const remoteChanged = r ? r.updatedAt > remoteBase : remoteDeletedAt !== undefined && remoteDeletedAt > remoteBase;
+    if (!localChanged || !remoteChanged) continue;
+    if (l && r && sameBlockContent(l, r)) continue;
+    if (!l && !r) continue;
+    // 한쪽에만 있고 상대가 지운 적이 없으면 새로 만든 블록일 뿐이다
+    if (!l && localDeletedAt === undefined) continue;
+    if (!r && remoteDeletedAt === undefined) continue;
+
+    conflicts.push({
+      blockId: id,
+      peerDeviceId: snapshot.deviceId,
+      local: l,
+      remote: r,
+      kept: kept ? (kept === r && kept !== l ? "remote" : "local") : l ? "remote" : "local",
+      detectedAt: now,
+    });
+  }
+
+  const conflictIds = new Set(conflicts.map((c) => c.blockId));
+  state.syncConflicts = [...(local.syncConflicts || []).filter((c) => !conflictIds.has(c.blockId)), ...conflicts];
+  state.syncPeers = {
+    ...local.syncPeers,
+    [snapshot.deviceId]: { deviceId: snapshot.deviceId, lastSyncedAt: now, remoteExportedAt: snapshot.exportedAt },
+  };
+
+  return { state, conflicts, receivedBlocks, deletedItems };
+}
+
+// ===== 로컬 HTTP 엔드포인트 =====
+// 스냅샷 하나를 담는 단순한 저장소: GET은 마지막 스냅샷(없으면 404/204), PUT은 교체.
+// 개발 서버(vite.config.ts)의 /__sync가 같은 규약을 따른다.
+
+export async function pullSyncSnapshot(endpoint: string): Promise<SyncSnapshot | null> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, { method: "GET", cache: "no-store" });
+  } catch (err) {
+    throw new SyncError("network", "동기화 서버에 연결할 수 없습니다", { cause: err });
+  }
+  if (response.status === 404 || response.status === 204) return null;
+  if (!response.ok) {
+    throw new SyncError("network", `동기화 서버 응답 오류 (${response.status})`);
+  }
+  return parseSyncSnapshot(await response.text());
+}
+
+export async function pushSyncSnapshot(endpoint: string, snapshot: SyncSnapshot): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: serializeSyncSnapshot(snapshot),
+    });
+  } catch (err) {
+    throw new SyncError("network", "동기화 서버에 연결할 수 없습니다", { cause: err });
+  }
+  if (!response.ok) {
+    throw new SyncError("network", `동기화 서버 응답 오류 (${response.status})`);
+  }
+}
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { acquireWriterLock, openTabChannel, supportsWriterLock, type TabChannel, type TabMessage } from "./tabSync";
+
+const opened: TabChannel[] = [];
+
+function open(tabId: string, onMessage: (message: TabMessage) => void): TabChannel {
+  const channel = openTabChannel(tabId, onMessage)!;
+  opened.push(channel);
+  return channel;
+}
+
+afterEach(() => {
+  opened.splice(0).forEach((channel) => channel.close());
+  vi.unstubAllGlobals();
+});
+
+describe("openTabChannel", () => {
+  it("다른 탭의 메시지만 받고, 자기 tabId로 보낸 메시지는 무시한다", async () => {
+    const receivedByB: TabMessage[] = [];
+    const receivedByA: TabMessage[] = [];
+    const a = open("tab-a", (message) => receivedByA.push(message));
+    const done = new Promise<void>((resolve) =>
+      open("tab-b", (message) => {
+        receivedByB.push(message);
+        if (message.type === "changes") resolve();
+      })
+    );
+
+    a.post({ type: "hello", tabId: "tab-a" });
+    a.post({ type: "hello", tabId: "tab-b" });
+    a.post({ type: "changes", tabId: "tab-a", slices: {}, blocks: { "2026-03-02": null }, completeDates: [] });
+    await done;
+
+    expect(receivedByB).toEqual([
+      { type: "hello", tabId: "tab-a" },
+      { type: "changes", tabId: "tab-a", slices: {}, blocks: { "2026-03-02": null }, completeDates: [] },
+    ]);
+    expect(receivedByA).toEqual([]);
+  });
+
+  it("BroadcastChannel이 없으면 null", () => {
+    vi.stubGlobal("BroadcastChannel", undefined);
+
+    expect(openTabChannel("tab-a", () => {})).toBeNull();
+  });
+});
+
+describe("writer 잠금", () => {
+  /** 한 번에 한 탭만 잡는 navigator.locks — closeHolder는 잠금을 가진 탭이 닫힌 것처럼 다음 탭에 넘긴다 */
+  function stubLocks() {
+    const names: string[] = [];
+    const waiting: (() => void)[] = [];
+    let held = false;
+    vi.stubGlobal("navigator", {
+      locks: {
+        request: (name: string, callback: () => Promise<never>) => {
+          names.push(name);
+          const run = () => {
+            held = true;
+            void callback();
+          };
+          if (held) waiting.push(run);
+          else run();
+          return new Promise(() => {});
+        },
+      },
+    });
+    return {
+      names,
+      closeHolder: () => {
+        held = false;
+        waiting.shift()?.();
+      },
+    };
+  }
+
+  it("한 탭만 writer가 되고, writer 탭이 닫히면 기다리던 탭이 이어받는다", () => {
+    const locks = stubLocks();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    expect(supportsWriterLock()).toBe(true);
+    acquireWriterLock(first);
+    acquireWriterLock(second);
+    expect(locks.names[0]).toBe(locks.names[1]);
+    expect(first).toHaveBeenCalledOnce();
+    expect(second).not.toHaveBeenCalled();
+
+    locks.closeHolder();
+    expect(second).toHaveBeenCalledOnce();
+  });
+
+  it("Web Locks가 없으면 지원하지 않는다고 본다", () => {
+    vi.stubGlobal("navigator", {});
+
+    expect(supportsWriterLock()).toBe(false);
+  });
+});
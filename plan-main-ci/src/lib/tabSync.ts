@@ -0,0 +1,47 @@
+import type { DataChanges } from "./journal";
+
+/**
+ * 여러 탭 일관성
+ * - BroadcastChannel로 데이터 변경(바뀐 슬라이스, 날짜별 블록 목록)을 다른 탭에 알린다
+ * - Web Locks로 저장하는 탭(writer)을 하나로 정한다. writer 탭이 닫히면 기다리던 탭이 이어받는다.
+ * BroadcastChannel이 없으면 탭 간 동기화를 하지 않고, Web Locks가 없으면 모든 탭이 저장한다.
+ */
+
+const CHANNEL_NAME = "life-log-planner-tabs";
+const WRITER_LOCK_NAME = "life-log-planner-writer";
+
+export type TabMessage =
+  /** 새 탭이 로드를 마쳤다 — writer는 아직 저장하지 않은 변경을 보내 준다 */
+  | { type: "hello"; tabId: string }
+  | ({ type: "changes"; tabId: string } & DataChanges);
+
+export interface TabChannel {
+  post(message: TabMessage): void;
+  close(): void;
+}
+
+export function openTabChannel(tabId: string, onMessage: (message: TabMessage) => void): TabChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    if (event.data?.tabId !== tabId) onMessage(event.data);
+  };
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
+
+export function supportsWriterLock(): boolean {
+  return typeof navigator !== "undefined" && navigator.locks !== undefined;
+}
+
+/**
+ * writer 잠금을 요청한다. 얻으면 onAcquired를 부르고 탭이 닫힐 때까지 놓지 않는다.
+ */
+export function acquireWriterLock(onAcquired: () => void): void {
+  navigator.locks.request(WRITER_LOCK_NAME, () => {
+    onAcquired();
+    return new Promise<never>(() => {});
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  makeDayTimeZoneResolver,
+  timeZoneOffsetMin,
+  toLocalDateTime,
+  toLocalISODateTime,
+  wallTimeInDayZone,
+  wallTimeOf,
+} from "./time";
+
+const NEW_YORK = "America/New_York";
+const utc = (iso: string) => new Date(`${iso}Z`).getTime();
+
+describe("toLocalDateTime", () => {
+  it("그날 시간대의 벽시계를 시점으로 바꾸고, 1440 이상은 다음 날로 넘긴다", () => {
+    expect(toLocalDateTime("2026-03-02", 540, "Asia/Seoul").getTime()).toBe(utc("2026-03-02T00:00:00"));
+    expect(toLocalDateTime("2026-03-02", 1500, "Asia/Seoul").getTime()).toBe(utc("2026-03-02T16:00:00"));
+  });
+
+  it("DST로 건너뛴 시각은 뒤로 민다 (02:30 → 03:30)", () => {
+    // 2026-03-08 02:00 EST → 03:00 EDT
+    const date = toLocalDateTime("2026-03-08", 150, NEW_YORK);
+
+    expect(date.getTime()).toBe(utc("2026-03-08T07:30:00"));
+    expect(wallTimeOf(date, NEW_YORK)).toEqual({ dateISO: "2026-03-08", minutes: 210 });
+  });
+
+  it("DST로 두 번 있는 시각은 앞의 것(서머타임)을 쓴다", () => {
+    // 2026-11-01 02:00 EDT → 01:00 EST
+    const date = toLocalDateTime("2026-11-01", 90, NEW_YORK);
+
+    expect(date.getTime()).toBe(utc("2026-11-01T05:30:00"));
+    expect(timeZoneOffsetMin(date.getTime(), NEW_YORK)).toBe(-240);
+    expect(toLocalDateTime("2026-11-01", 150, NEW_YORK).getTime()).toBe(utc("2026-11-01T07:30:00"));
+  });
+
+  it("시간대가 없으면 기기 시간대로 계산한다", () => {
+    expect(toLocalDateTime("2026-03-02", 570).getTime()).toBe(new Date(2026, 2, 2, 9, 30).getTime());
+  });
+});
+
+describe("toLocalISODateTime", () => {
+  it("DST 전후로 그 시각의 오프셋을 붙인다", () => {
+    expect(toLocalISODateTime("2026-03-08", 60, NEW_YORK)).toBe("2026-03-08T01:00:00-05:00");
+    expect(toLocalISODateTime("2026-03-08", 180, NEW_YORK)).toBe("2026-03-08T03:00:00-04:00");
+    expect(toLocalISODateTime("2026-03-08", 1500, NEW_YORK)).toBe("2026-03-09T01:00:00-04:00");
+  });
+});
+
+describe("날짜별 시간대", () => {
+  it("여행한 날은 그날 시간대를, 나머지와 잘못된 이름은 기본 시간대를 쓴다", () => {
+    const resolve = makeDayTimeZoneResolver("Asia/Seoul", {
+      "2026-03-02": { timeZone: NEW_YORK },
+      "2026-03-03": { timeZone: "Not/AZone" },
+    });
+
+    expect(resolve("2026-03-01")).toBe("Asia/Seoul");
+    expect(resolve("2026-03-02")).toBe(NEW_YORK);
+    expect(resolve("2026-03-03")).toBe("Asia/Seoul");
+    expect(makeDayTimeZoneResolver(undefined)("2026-03-01")).toBeUndefined();
+  });
+
+  it("기기 시간대와 다른 그날 시간대의 벽시계로 본다", () => {
+    const instant = new Date(utc("2026-03-02T14:30:00"));
+
+    expect(wallTimeInDayZone(instant, () => NEW_YORK)).toEqual({ dateISO: "2026-03-02", minutes: 570 });
+    expect(wallTimeInDayZone(instant, () => "Asia/Seoul")).toEqual({ dateISO: "2026-03-02", minutes: 1410 });
+    expect(wallTimeInDayZone(instant, () => "Pacific/Kiritimati")).toEqual({ dateISO: "2026-03-03", minutes: 270 });
+  });
+});
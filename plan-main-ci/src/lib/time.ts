@@ -9,6 +9,178 @@ export function toISODate(date: Date): string {
   return `${y}-${pad2(m)}-${pad2(d)}`;
 }
 
+/**
+ * "YYYY-MM-DD" → 로컬 자정 Date (new Date(iso)는 UTC로 해석되므로 쓰지 않는다)
+ */
+export function parseISODate(dateISO: string): Date {
+  const [y, m, d] = dateISO.split("-").map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+}
+
+/**
+ * fromISO ~ toISO (양 끝 포함) 날짜 목록
+ */
+export function eachDateInRange(fromISO: string, toISO: string): string[] {
+  const out: string[] = [];
+  const cursor = parseISODate(fromISO);
+  const end = parseISODate(toISO);
+  while (cursor <= end) {
+    out.push(toISODate(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return out;
+}
+
+/**
+ * dateISO에서 days일 뒤(음수면 앞)의 날짜
+ */
+export function addDaysISO(dateISO: string, days: number): string {
+  const date = parseISODate(dateISO);
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+}
+
+/**
+ * fromISO → toISO 달력 일수 (DST로 하루가 23/25시간이어도 1일)
+ */
+export function daysBetweenISO(fromISO: string, toISO: string): number {
+  const [fy, fm, fd] = fromISO.split("-").map(Number);
+  const [ty, tm, td] = toISO.split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+}
+
+/**
+ * 시간대 (IANA 이름, 예: "Asia/Seoul")
+ * 블록의 dateISO + 분은 그날 시간대의 벽시계 시각이다. 시점(Date)과 오갈 때만 시간대를 쓰고,
+ * timeZone을 생략하면 기기 시간대로 계산한다. 여행 중인 날은 DailyState.timeZone에 그날 시간대를 둔다.
+ */
+
+/** 날짜 → 그날의 시간대 (undefined면 기기 시간대) */
+export type DayTimeZoneResolver = (dateISO: string) => string | undefined;
+
+const DAY_MS = 86400000;
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** utcMs 시점의 timeZone 벽시계 필드 (월은 1부터) */
+function zonedFields(utcMs: number, timeZone: string): number[] {
+  const parts = zoneFormatter(timeZone).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return [get("year"), get("month"), get("day"), get("hour"), get("minute"), get("second")];
+}
+
+/**
+ * timeZone에서 utcMs 시점의 UTC 오프셋 (분, 동쪽이 +)
+ */
+export function timeZoneOffsetMin(utcMs: number, timeZone?: string): number {
+  if (!timeZone) return -new Date(utcMs).getTimezoneOffset();
+  const [y, mo, d, h, mi, s] = zonedFields(utcMs, timeZone);
+  return Math.round((Date.UTC(y, mo - 1, d, h, mi, s) - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+/**
+ * dateISO + 자정 기준 분(벽시계) → 시점 (분이 1440 이상이면 다음 날로 넘어간다)
+ * DST로 없는 시각은 뒤로 밀리고 (02:30 → 03:30), 두 번 있는 시각은 앞의 것을 쓴다.
+ */
+export function toLocalDateTime(dateISO: string, minutes: number, timeZone?: string): Date {
+  const [y, m, d] = dateISO.split("-").map(Number);
+  if (!timeZone) return new Date(y, m - 1, d, 0, minutes);
+
+  const wallMs = Date.UTC(y, m - 1, d, 0, minutes);
+  const before = timeZoneOffsetMin(wallMs - DAY_MS, timeZone);
+  const after = timeZoneOffsetMin(wallMs + DAY_MS, timeZone);
+  for (const offset of [before, after]) {
+    const utcMs = wallMs - offset * 60000;
+    if (timeZoneOffsetMin(utcMs, timeZone) === offset) return new Date(utcMs);
+  }
+  return new Date(wallMs - before * 60000);
+}
+
+/**
+ * 시점 → timeZone 벽시계 (날짜 + 자정 기준 분)
+ */
+export function wallTimeOf(date: Date, timeZone?: string): { dateISO: string; minutes: number } {
+  if (!timeZone) return { dateISO: toISODate(date), minutes: date.getHours() * 60 + date.getMinutes() };
+  const [y, mo, d, h, mi] = zonedFields(date.getTime(), timeZone);
+  return { dateISO: `${y}-${pad2(mo)}-${pad2(d)}`, minutes: h * 60 + mi };
+}
+
+/**
+ * 시점 → 그 시점이 속한 날짜의 시간대로 본 벽시계
+ * (날짜를 알아야 시간대를 고를 수 있으므로, 기기 날짜의 시간대로 한 번 구한 뒤 그 날짜의 시간대로 다시 구한다)
+ */
+export function wallTimeInDayZone(date: Date, zoneForDate: DayTimeZoneResolver): { dateISO: string; minutes: number } {
+  const firstZone = zoneForDate(toISODate(date));
+  const first = wallTimeOf(date, firstZone);
+  const zone = zoneForDate(first.dateISO);
+  return zone === firstZone ? first : wallTimeOf(date, zone);
+}
+
+/**
+ * 기본 시간대 + 날짜별 기록(여행)으로 날짜 → 시간대 함수를 만든다 (잘못된 이름은 기본 시간대로)
+ */
+export function makeDayTimeZoneResolver(
+  homeTimeZone: string | undefined,
+  dailyStateByDate: Record<string, { timeZone?: string } | undefined> = {}
+): DayTimeZoneResolver {
+  return (dateISO) => {
+    const zone = dailyStateByDate[dateISO]?.timeZone;
+    return zone && isValidTimeZone(zone) ? zone : homeTimeZone;
+  };
+}
+
+/**
+ * 분 단위 UTC 오프셋 → "+09:00"
+ */
+export function formatUtcOffset(offsetMin: number): string {
+  const sign = offsetMin >= 0 ? "+" : "-";
+  const abs = Math.abs(offsetMin);
+  return `${sign}${pad2(Math.floor(abs / 60))}:${pad2(abs % 60)}`;
+}
+
+/**
+ * dateISO + 자정 기준 분 → 그 시간대 오프셋이 붙은 ISO 8601 문자열 (예: 2024-03-01T09:30:00+09:00)
+ */
+export function toLocalISODateTime(dateISO: string, minutes: number, timeZone?: string): string {
+  const date = toLocalDateTime(dateISO, minutes, timeZone);
+  const wall = wallTimeOf(date, timeZone);
+  return (
+    `${wall.dateISO}T${pad2(Math.floor(wall.minutes / 60))}:${pad2(wall.minutes % 60)}:00` +
+    formatUtcOffset(timeZoneOffsetMin(date.getTime(), timeZone))
+  );
+}
+
 export function formatDateKorean(date: Date): string {
   const y = date.getFullYear();
   const m = date.getMonth() + 1;
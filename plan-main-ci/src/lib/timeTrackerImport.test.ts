@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { MAX_BLOCK_END_MIN } from "./daySpans";
+import {
+  guessTimeTrackerMapping,
+  parseTimeTrackerCsv,
+  toBlockSpan,
+  type TimeTrackerImportOptions,
+  type TimeTrackerMapping,
+} from "./timeTrackerImport";
+
+const split: TimeTrackerMapping = { startDate: 0, startTime: 1, endDate: 2, endTime: 3, project: 4, description: 5, dateOrder: "ymd" };
+const combined: TimeTrackerMapping = { startDate: 0, endDate: 1, description: 2, dateOrder: "ymd" };
+
+function parse(mapping: TimeTrackerMapping, body: string[][], extra: Partial<TimeTrackerImportOptions> = {}) {
+  return parseTimeTrackerCsv([["header"], ...body], { mapping, rules: [], defaultActivityId: "misc", ...extra });
+}
+
+const spans = (result: ReturnType<typeof parse>) => result.blocks.map((b) => [b.dateISO, b.startMin, b.endMin]);
+
+describe("guessTimeTrackerMapping", () => {
+  it("Toggl/한글 헤더를 컬럼 번호로 잡는다", () => {
+    expect(
+      guessTimeTrackerMapping(["Project", "Description", "Start date", "Start time", "End date", "End time"])
+    ).toEqual({ project: 0, description: 1, startDate: 2, startTime: 3, endDate: 4, endTime: 5 });
+    expect(guessTimeTrackerMapping(["시작", "종료", "내용"])).toEqual({ startDate: 0, endDate: 1, description: 2 });
+  });
+});
+
+describe("parseTimeTrackerCsv", () => {
+  it("날짜 순서(ymd/mdy/dmy)대로 읽고, 4자리로 시작하면 연-월-일로 본다", () => {
+    const row = (date: string) => [date, "09:00", date, "10:00", "", ""];
+
+    expect(spans(parse(split, [row("2026-03-02")]))).toEqual([["2026-03-02", 540, 600]]);
+    expect(spans(parse({ ...split, dateOrder: "mdy" }, [row("03/02/2026")]))).toEqual([["2026-03-02", 540, 600]]);
+    expect(spans(parse({ ...split, dateOrder: "dmy" }, [row("02.03.26")]))).toEqual([["2026-03-02", 540, 600]]);
+    expect(spans(parse({ ...split, dateOrder: "dmy" }, [row("2026/03/02")]))).toEqual([["2026-03-02", 540, 600]]);
+  });
+
+  it("AM/PM과 '시 분' 표기를 읽는다", () => {
+    const result = parse(split, [
+      ["2026-03-02", "12:30 AM", "2026-03-02", "9:05:30 am", "", ""],
+      ["2026-03-02", "12:00 PM", "2026-03-02", "1:15 PM", "", ""],
+      ["2026-03-02", "21시 5분", "2026-03-02", "22시 0분 30초", "", ""],
+    ]);
+
+    expect(spans(result)).toEqual([
+      ["2026-03-02", 30, 545],
+      ["2026-03-02", 720, 795],
+      ["2026-03-02", 1265, 1320],
+    ]);
+  });
+
+  it("오프셋이 붙은 ISO 8601은 기기 시간대 벽시계로 옮긴다", () => {
+    const start = new Date("2026-03-02T00:00:00Z");
+    const result = parse(combined, [["2026-03-02T00:00:00Z", "2026-03-02T10:30:00+09:00", "회의"]]);
+
+    expect(result.blocks[0].startMin).toBe(start.getHours() * 60 + start.getMinutes());
+    expect(result.blocks[0].endMin - result.blocks[0].startMin).toBe(90);
+    expect(result.blocks[0]).toMatchObject({ layer: "execute", source: "import", title: "회의" });
+  });
+
+  it("자정을 넘는 항목은 시작 날짜에 한 블록으로 두고, 최대 길이를 넘는 부분은 자른다", () => {
+    const result = parse(combined, [
+      ["2026-03-02 23:30", "2026-03-03 01:00", ""],
+      ["2026-03-02 09:00", "2026-03-12 09:00", ""],
+    ]);
+
+    expect(spans(result)).toEqual([
+      ["2026-03-02", 1410, 1500],
+      ["2026-03-02", 540, MAX_BLOCK_END_MIN],
+    ]);
+    expect(result.warnings).toEqual(["3행: 7일을 넘는 부분은 잘랐습니다"]);
+  });
+
+  it("키워드 규칙으로 activity를 고르고 importRef를 남긴다", () => {
+    const result = parse(split, [["2026-03-02", "09:00", "2026-03-02", "10:00", "Deep Work", "보고서"]], {
+      rules: [{ id: "r1", keyword: "deep work", activityId: "focus" }],
+    });
+
+    expect(result.blocks[0].activityId).toBe("focus");
+    expect(result.blocks[0].importRef?.recurrenceId).toBe("2026-03-02");
+  });
+
+  it("읽을 수 없거나 거꾸로 된 행은 건너뛰고, 경고는 30건까지만 보여준다", () => {
+    const bad = Array.from({ length: 33 }, () => ["2026-03-02", "25:00", "2026-03-02", "10:00", "", ""]);
+    const result = parse(split, [["2026-03-02", "10:00", "2026-03-02", "09:00", "", ""], ...bad]);
+
+    expect(result.blocks).toEqual([]);
+    expect(result.entryCount).toBe(34);
+    expect(result.warnings).toHaveLength(31);
+    expect(result.warnings[0]).toBe("2행: 종료가 시작보다 빨라 건너뜁니다");
+    expect(result.warnings[1]).toBe("3행: 시작/종료 시각을 읽을 수 없어 건너뜁니다");
+    expect(result.warnings[30]).toBe("외 4건");
+  });
+});
+
+describe("toBlockSpan", () => {
+  it("끝 날짜까지의 일수만큼 endMin을 늘린다", () => {
+    expect(toBlockSpan(new Date(2026, 2, 2, 22, 0), new Date(2026, 2, 4, 1, 0))).toEqual({
+      dateISO: "2026-03-02",
+      startMin: 1320,
+      endMin: 2 * 1440 + 60,
+    });
+  });
+});
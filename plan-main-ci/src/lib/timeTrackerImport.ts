@@ -0,0 +1,179 @@
+import type { ActivityId, Block, ImportKeywordRule } from "./types";
+import { createBlock } from "./blocks";
+import { matchActivityByKeyword } from "./importRules";
+import { DAY_MINUTES, MAX_BLOCK_END_MIN, MAX_BLOCK_SPAN_DAYS } from "./daySpans";
+import { daysBetweenISO, toISODate } from "./time";
+
+/**
+ * 타임트래커 CSV (Toggl / Clockify 등) → 실행(execute) 블록
+ * - 시작/종료는 "날짜 + 시각" 두 컬럼이거나 날짜·시각이 합쳐진 한 컬럼
+ * - 자정을 넘는 항목은 시작 날짜에 한 블록으로 둔다 (endMin > 1440)
+ * - 같은 시간대의 기존 실행 블록은 스토어 정규화에서 덮어써진다 (미리보기 제공)
+ */
+
+export type CsvDateOrder = "ymd" | "mdy" | "dmy";
+
+export interface TimeTrackerMapping {
+  startDate: number;
+  /** 없으면 startDate 컬럼에 날짜와 시각이 함께 들어 있다 */
+  startTime?: number;
+  endDate: number;
+  endTime?: number;
+  project?: number;
+  description?: number;
+  dateOrder: CsvDateOrder;
+}
+
+export interface TimeTrackerImportOptions {
+  mapping: TimeTrackerMapping;
+  rules: ImportKeywordRule[];
+  defaultActivityId: ActivityId;
+}
+
+export interface TimeTrackerImportResult {
+  blocks: Block[];
+  entryCount: number;
+  warnings: string[];
+}
+
+const MAX_REPORTED_WARNINGS = 30;
+
+const HEADER_PATTERNS: Record<keyof Omit<TimeTrackerMapping, "dateOrder">, RegExp[]> = {
+  startDate: [/^start ?date$/i, /^시작 ?(일|날짜)$/, /^start$/i, /^시작$/],
+  startTime: [/^start ?time$/i, /^시작 ?시각$/, /^시작 ?시간$/],
+  endDate: [/^end ?date$/i, /^종료 ?(일|날짜)$/, /^end$/i, /^(stop|종료)$/i],
+  endTime: [/^end ?time$/i, /^종료 ?시각$/, /^종료 ?시간$/],
+  project: [/^project$/i, /^프로젝트$/],
+  description: [/^description$/i, /^(task|title)$/i, /^설명$/, /^내용$/],
+};
+
+/**
+ * 헤더 이름으로 컬럼 매핑 추정 (Toggl/Clockify 기본 내보내기 형식)
+ */
+export function guessTimeTrackerMapping(header: string[]): Partial<TimeTrackerMapping> {
+  const find = (patterns: RegExp[]) => {
+    const index = header.findIndex((h) => patterns.some((p) => p.test(h.trim())));
+    return index >= 0 ? index : undefined;
+  };
+  const mapping: Partial<TimeTrackerMapping> = {};
+  for (const [key, patterns] of Object.entries(HEADER_PATTERNS)) {
+    const index = find(patterns);
+    if (index !== undefined) mapping[key as keyof typeof HEADER_PATTERNS] = index;
+  }
+  return mapping;
+}
+
+/** "2024-03-01", "03/01/2024", "01.03.2024" 등 → [y, m(0-based), d] */
+function parseDatePart(text: string, order: CsvDateOrder): [number, number, number] | null {
+  const parts = text.trim().split(/[-/.]/).map(Number);
+  if (parts.length !== 3 || parts.some((n) => !Number.isInteger(n))) return null;
+  // 4자리로 시작하면 순서와 관계없이 연-월-일
+  const [y, m, d] =
+    parts[0] > 999 || order === "ymd"
+      ? parts
+      : order === "mdy"
+        ? [parts[2], parts[0], parts[1]]
+        : [parts[2], parts[1], parts[0]];
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return [y < 100 ? 2000 + y : y, m - 1, d];
+}
+
+/** "9:05", "09:05:30", "9:05 PM", "21시 5분" → [h, m, s] */
+function parseTimePart(text: string): [number, number, number] | null {
+  const m = text.trim().match(/^(\d{1,2})[:시]\s*(\d{1,2})(?:[:분]\s*(?:(\d{1,2})\s*초?)?)?\s*([AaPp][Mm])?$/);
+  if (!m) return null;
+  let hour = Number(m[1]);
+  const meridiem = m[4]?.toUpperCase();
+  if (meridiem === "PM" && hour < 12) hour += 12;
+  if (meridiem === "AM" && hour === 12) hour = 0;
+  if (hour > 23 || Number(m[2]) > 59) return null;
+  return [hour, Number(m[2]), Number(m[3] ?? 0)];
+}
+
+function parseDateTime(dateText: string, timeText: string | undefined, order: CsvDateOrder): Date | null {
+  if (timeText === undefined) {
+    // 오프셋이 붙은 ISO 8601은 Date가 정확히 해석한다
+    if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(dateText.trim())) {
+      const date = new Date(dateText.trim());
+      return Number.isNaN(date.getTime()) ? null : date;
+    }
+    const split = dateText.trim().match(/^(\S+)[ T](.+)$/);
+    if (!split) return null;
+    [, dateText, timeText] = split;
+  }
+  const date = parseDatePart(dateText, order);
+  const time = parseTimePart(timeText);
+  if (!date || !time) return null;
+  return new Date(date[0], date[1], date[2], time[0], time[1], time[2]);
+}
+
+/**
+ * start ~ end → 시작 날짜 기준 블록 범위 (자정을 넘으면 endMin이 1440을 넘는다, 벽시계 기준)
+ */
+export function toBlockSpan(start: Date, end: Date): { dateISO: string; startMin: number; endMin: number } {
+  const dateISO = toISODate(start);
+  return {
+    dateISO,
+    startMin: start.getHours() * 60 + start.getMinutes(),
+    endMin: daysBetweenISO(dateISO, toISODate(end)) * DAY_MINUTES + end.getHours() * 60 + end.getMinutes(),
+  };
+}
+
+export function parseTimeTrackerCsv(
+  rows: string[][],
+  options: TimeTrackerImportOptions
+): TimeTrackerImportResult {
+  const { mapping } = options;
+  const warnings: string[] = [];
+  let hiddenWarnings = 0;
+  const warn = (msg: string) => {
+    if (warnings.length < MAX_REPORTED_WARNINGS) warnings.push(msg);
+    else hiddenWarnings++;
+  };
+
+  const blocks: Block[] = [];
+  const body = rows.slice(1);
+  body.forEach((row, i) => {
+    const line = i + 2; // 헤더가 1행
+    const cell = (index: number | undefined) => (index === undefined ? undefined : row[index]?.trim());
+    const startText = cell(mapping.startDate) ?? "";
+    const endText = cell(mapping.endDate) ?? "";
+    const start = parseDateTime(startText, cell(mapping.startTime), mapping.dateOrder);
+    const end = parseDateTime(endText, cell(mapping.endTime), mapping.dateOrder);
+    if (!start || !end) {
+      warn(`${line}행: 시작/종료 시각을 읽을 수 없어 건너뜁니다`);
+      return;
+    }
+    if (end <= start) {
+      warn(`${line}행: 종료가 시작보다 빨라 건너뜁니다`);
+      return;
+    }
+
+    const project = cell(mapping.project) ?? "";
+    const description = cell(mapping.description) ?? "";
+    const activityId = matchActivityByKeyword(`${project} ${description}`, options.rules, options.defaultActivityId);
+    const uid = `csv:${start.getTime()}-${end.getTime()}:${project}:${description}`;
+
+    const span = toBlockSpan(start, end);
+    if (span.endMin <= span.startMin) {
+      warn(`${line}행: 1분 미만이라 건너뜁니다`);
+      return;
+    }
+    if (span.endMin > MAX_BLOCK_END_MIN) {
+      warn(`${line}행: ${MAX_BLOCK_SPAN_DAYS}일을 넘는 부분은 잘랐습니다`);
+      span.endMin = MAX_BLOCK_END_MIN;
+    }
+    const block = createBlock({
+      ...span,
+      activityId,
+      layer: "execute",
+      source: "import",
+      title: description || project || undefined,
+    });
+    block.importRef = { uid, recurrenceId: span.dateISO };
+    blocks.push(block);
+  });
+
+  if (hiddenWarnings > 0) warnings.push(`외 ${hiddenWarnings}건`);
+  return { blocks, entryCount: body.length, warnings };
+}
@@ -84,6 +84,7 @@ export interface Activity {
   name: string;
   color: string;
   isSystem?: boolean;
+  emoji?: string;
 }
 
 // ===== Block v2 (Source of Truth) =====
@@ -95,6 +96,13 @@ export interface BlockPlanRef {
   matchScore?: number;
 }
 
+/** 외부 파일에서 가져온 블록의 원본 식별자 (다시 가져올 때 중복 판단용) */
+export interface BlockImportRef {
+  uid: string;
+  /** 반복 일정이면 해당 회차의 dateISO */
+  recurrenceId?: string;
+}
+
 export interface BlockExtension {
   baseEndMin?: number;
   extendedByMin: number;
@@ -102,9 +110,9 @@ export interface BlockExtension {
 
 export interface Block {
   id: BlockId;
-  dateISO: string;
-  startMin: number;
-  endMin: number;
+  dateISO: string; // 시작 날짜 (자정을 넘는 블록도 여기 한 곳에만 저장)
+  startMin: number; // dateISO 00:00 기준 분 (0~1439)
+  endMin: number; // dateISO 00:00 기준 분 — 1440을 넘으면 다음 날로 이어짐 (lib/daySpans)
   activityId: ActivityId;
 
   // Optional title/label for NEW_EVENT drafts (UI only)
@@ -118,6 +126,8 @@ export interface Block {
   resistance?: PlanResistance;
   extension?: BlockExtension;
   score?: ScoreRating; // 1~5점 만족도/품질 점수
+  emoji?: string;
+  importRef?: BlockImportRef;
 
   createdAt: number;
   updatedAt: number;
@@ -161,6 +171,8 @@ export interface DailyState {
   dateISO: string;
   energyLevel?: EnergyLevel;
   note?: string;
+  /** 이날 지낸 시간대 (IANA, 여행 등으로 기본 시간대와 다를 때만) */
+  timeZone?: string;
   recordedAt: number;
 }
 
@@ -277,6 +289,14 @@ export interface VoiceCommandLog {
   createdPlanBlockId?: BlockId;
 }
 
+// ===== Import =====
+/** 가져온 일정 제목에 keyword가 들어 있으면 activityId로 매핑 (위에서부터 먼저 맞는 규칙) */
+export interface ImportKeywordRule {
+  id: string;
+  keyword: string;
+  activityId: ActivityId;
+}
+
 // ===== Plan-Execute Pair (분석용 파생 데이터) =====
 export interface PlanExecutionPair {
   id: string;
@@ -303,10 +323,42 @@ export interface PlanExecutionPair {
   displacedByActivityId?: ActivityId;
   displacedMin?: number;
 
+  /** 매칭된 실행 블록이 없으면 null */
   match: {
     rule: "autoNearest" | "timeOverlap" | "userPinned";
     score: number;
-  };
+  } | null;
+}
+
+// ===== Sync (기기 간 병합) =====
+/** 삭제 기록을 남기는 엔티티 종류 */
+export type SyncEntityKind =
+  | "block"
+  | "weekPlanBlock"
+  | "memo"
+  | "indicator"
+  | "completionEvent"
+  | "checklistItem"
+  | "checklistBlock";
+
+/** 다른 기기와 마지막으로 주고받은 시점 */
+export interface SyncPeer {
+  deviceId: string;
+  /** 이 기기 시계 기준 병합 시각 */
+  lastSyncedAt: number;
+  /** 상대 기기 시계 기준 스냅샷 생성 시각 */
+  remoteExportedAt: number;
+}
+
+/** 양쪽 기기에서 같은 블록을 고쳤을 때 (병합은 더 최근 쪽으로 해 두고 사용자가 다시 고를 수 있다) */
+export interface SyncConflict {
+  blockId: BlockId;
+  peerDeviceId: string;
+  /** undefined면 그 기기에서 삭제함 */
+  local?: Block;
+  remote?: Block;
+  kept: "local" | "remote";
+  detectedAt: number;
 }
 
 // ===== Persisted State v2 =====
@@ -327,15 +379,52 @@ export interface PersistedStateV2 {
   checklistBlocksByDate?: Record<string, ChecklistBlock[]>;
   memosByDate?: Record<string, MemoItem[]>;
   voiceCommandLogsByDate?: Record<string, VoiceCommandLog[]>;
+  sleepByDate?: Record<string, SleepLog>;
+  dayMoodByDate?: Record<string, DayMoodLog>;
+  segmentMoodsByDate?: Record<string, SegmentMoodLog[]>;
+  importKeywordRules?: ImportKeywordRule[];
+
+  /** 삭제 기록: `${kind}:${id}` → 삭제 시각 */
+  tombstones?: Record<string, number>;
+  syncPeers?: Record<string, SyncPeer>;
+  syncConflicts?: SyncConflict[];
+  /** 로컬 동기화 엔드포인트 URL */
+  syncEndpoint?: string;
+
+  /** 최근 실행 취소 기록 — 앱을 다시 열어도 되돌릴 수 있도록 (백업/동기화에는 넣지 않는다) */
+  history?: PersistedHistory;
 
   memos?: MemoItem[];
   completionEvents?: CompletionEvent[];
 
   startHour?: number;
+  /** 기본 시간대 (IANA) — 날짜별 기록이 없는 날의 블록 시각은 이 시간대 벽시계다 */
+  timeZone?: string;
   theme?: "light" | "dark";
   schemaVersion?: number;
 }
 
+// ===== 실행 취소 기록 (저장용) =====
+/** Immer 패치와 같은 모양 */
+export interface HistoryPatch {
+  op: "replace" | "remove" | "add";
+  path: (string | number)[];
+  value?: unknown;
+}
+
+export interface PersistedHistoryEntry {
+  id: string;
+  label: string;
+  at: number;
+  patches: HistoryPatch[];
+  inversePatches: HistoryPatch[];
+}
+
+export interface PersistedHistory {
+  past: PersistedHistoryEntry[];
+  future: PersistedHistoryEntry[];
+}
+
 // ===== Segment (렌더링용) =====
 export interface Segment {
   row: number;
@@ -0,0 +1,125 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBlock } from '../lib/blocks';
+import { createIndexedDBAdapter } from '../lib/indexedDbStorage';
+import { emptyDataChanges, readJournal, writeJournal } from '../lib/journal';
+import { CURRENT_SCHEMA_VERSION, createEmptyStateV2 } from '../lib/migrations';
+import type { Block } from '../lib/types';
+
+// 스토어는 import 시점에 브라우저 전역(localStorage, 탭 채널, 앱 생명주기)을 잡으므로 먼저 채워 두고 불러온다
+const localStore = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => localStore.get(key) ?? null,
+  setItem: (key: string, value: string) => void localStore.set(key, value),
+  removeItem: (key: string) => void localStore.delete(key),
+});
+vi.stubGlobal('document', { addEventListener() {}, documentElement: { setAttribute() {} } });
+vi.stubGlobal('window', { addEventListener() {} });
+vi.stubGlobal('BroadcastChannel', undefined);
+
+const { usePlannerStore } = await import('./usePlannerStore');
+
+const DAY = '2026-03-02';
+const stored: Block[] = [
+  createBlock({ dateISO: DAY, startMin: 540, endMin: 600, activityId: 'work', layer: 'execute', source: 'drag' }),
+  createBlock({ dateISO: DAY, startMin: 660, endMin: 720, activityId: 'rest', layer: 'execute', source: 'drag' }),
+];
+
+const ids = (blocks: Block[] | undefined) => (blocks || []).map(b => b.id).sort();
+
+beforeAll(async () => {
+  await createIndexedDBAdapter().save(
+    {
+      ...createEmptyStateV2(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      activities: [
+        { id: 'work', name: '업무', color: '#3b82f6' },
+        { id: 'rest', name: '휴식', color: '#22c55e' },
+      ],
+      blocksByDate: { [DAY]: stored },
+    },
+    [DAY]
+  );
+});
+
+// 다시 켠 것처럼 메모리 상태를 비우고 저장소에서 불러온다
+async function reload() {
+  usePlannerStore.setState(state => {
+    state.storageStatus.hydrated = false;
+    state.blocks = {};
+    state.loadedDates = {};
+    state.allBlocksLoaded = false;
+  });
+  await usePlannerStore.getState().loadFromStorage();
+}
+
+beforeEach(reload);
+
+describe('블록 lazy 로드', () => {
+  it('IndexedDB에서는 날짜 블록을 바로 불러오지 않는다', () => {
+    const state = usePlannerStore.getState();
+    expect(state.storageStatus.backend).toBe('indexedDB');
+    expect(state.allBlocksLoaded).toBe(false);
+    expect(state.blocks[DAY]).toBeUndefined();
+  });
+
+  it('같은 날짜를 동시에 불러도 블록이 한 번만 들어간다', async () => {
+    const { ensureBlocksLoaded, loadAllBlocks } = usePlannerStore.getState();
+    await Promise.all([ensureBlocksLoaded([DAY]), ensureBlocksLoaded([DAY, '2026-03-03']), loadAllBlocks()]);
+
+    expect(ids(usePlannerStore.getState().blocks[DAY])).toEqual(ids(stored));
+  });
+
+  it('불러오기 전에 그 날짜에 만든 블록은 저장된 블록과 함께 남는다', async () => {
+    const added = createBlock({ dateISO: DAY, startMin: 900, endMin: 960, activityId: 'work', layer: 'execute', source: 'drag' });
+    usePlannerStore.getState().addBlock(added);
+    await usePlannerStore.getState().ensureBlocksLoaded([DAY]);
+    await usePlannerStore.getState().ensureBlocksLoaded([DAY]);
+
+    expect(ids(usePlannerStore.getState().blocks[DAY])).toEqual(ids([...stored, added]));
+  });
+});
+
+describe('실행 취소', () => {
+  it('되돌려도 그 사이 다른 탭에서 같은 날짜에 들어온 블록은 남는다', async () => {
+    await usePlannerStore.getState().ensureBlocksLoaded([DAY]);
+    const mine = createBlock({ dateISO: DAY, startMin: 780, endMin: 840, activityId: 'work', layer: 'execute', source: 'drag' });
+    usePlannerStore.getState().addBlock(mine);
+    const foreign = createBlock({ dateISO: DAY, startMin: 960, endMin: 1020, activityId: 'rest', layer: 'execute', source: 'drag' });
+    usePlannerStore.setState(state => {
+      state.blocks[DAY].push(foreign);
+    });
+
+    usePlannerStore.getState().undo();
+    expect(ids(usePlannerStore.getState().blocks[DAY])).toEqual(ids([...stored, foreign]));
+    usePlannerStore.getState().redo();
+    expect(ids(usePlannerStore.getState().blocks[DAY])).toEqual(ids([...stored, mine, foreign]));
+  });
+});
+
+describe('journal', () => {
+  it('저장하기 전에 닫혀 남은 변경을 다음 로드 때 다시 적용하고, 저장하면 지운다', async () => {
+    const unsaved = createBlock({ dateISO: DAY, startMin: 1080, endMin: 1140, activityId: 'rest', layer: 'execute', source: 'drag' });
+    writeJournal({ ...emptyDataChanges(), blocks: { [DAY]: [unsaved] } });
+    await reload();
+
+    const blockIds = ids(usePlannerStore.getState().blocks[DAY]);
+    expect(blockIds).toContain(unsaved.id);
+    expect(blockIds).toEqual(expect.arrayContaining(ids(stored)));
+
+    await usePlannerStore.getState().saveToStorage();
+    expect(readJournal()).toBeNull();
+  });
+
+  it('칠하는 셀마다 쓰지 않고 잠깐 모았다가 한 번에 쓴다', async () => {
+    const cells = [1200, 1210, 1220].map(startMin =>
+      createBlock({ dateISO: DAY, startMin, endMin: startMin + 10, activityId: 'work', layer: 'execute', source: 'drag' })
+    );
+    for (const cell of cells) usePlannerStore.getState().addBlock(cell);
+    expect(readJournal()).toBeNull();
+
+    await new Promise(resolve => setTimeout(resolve, 400));
+    const journaled = readJournal()?.blocks[DAY] ?? [];
+    expect(journaled.map(b => [b.startMin, b.endMin])).toContainEqual([1200, 1230]);
+  });
+});
@@ -1,8 +1,101 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import type { Activity, Block, ChecklistItem, Tool, ViewMode } from '../lib/types';
-import { loadState, saveState } from '../lib/storage';
+import { applyPatches, enablePatches, produceWithPatches, type Draft, type Patch } from 'immer';
+import type {
+  Activity,
+  Block,
+  ChecklistItem,
+  ChecklistBlock,
+  CompletionEvent,
+  DailyState,
+  DayMoodLog,
+  FixedScheduleBlock,
+  ImportKeywordRule,
+  IndicatorEvent,
+  Layer,
+  MemoItem,
+  MoodRating,
+  PersistedStateV2,
+  SegmentMoodLog,
+  SleepLog,
+  SyncConflict,
+  SyncPeer,
+  TemplateApply,
+  Tool,
+  ViewMode,
+  VoiceCommandLog,
+  WeekPlan,
+} from '../lib/types';
+import {
+  createLocalStorageAdapter,
+  createStorageAdapter,
+  describeStorageError,
+  type StorageAdapter,
+  type StorageBackend,
+  type StorageUsage,
+} from '../lib/storageAdapter';
+import { StorageError, takeMigrationReport } from '../lib/storage';
+import { CURRENT_SCHEMA_VERSION, type MigrationReport } from '../lib/migrations';
+import { restoreState, type RestoreStrategy } from '../lib/backup';
 import { createBlock } from '../lib/blocks';
+import { datesToLoadForBlocks, eraseSpanAcrossDays, shiftBlockToDate, writeBlocksAcrossDays } from '../lib/daySpans';
+import { repairIntegrity, type IntegrityRepairResult } from '../lib/integrity';
+import { deviceTimeZone, isValidTimeZone } from '../lib/time';
+import { getDeviceId, ulid } from '../lib/id';
+import {
+  createSyncSnapshot,
+  mergeSyncSnapshot,
+  pruneTombstones,
+  SyncError,
+  trackDeletions,
+  type SyncMergeResult,
+  type SyncSnapshot,
+} from '../lib/sync';
+import { acquireWriterLock, openTabChannel, supportsWriterLock, type TabMessage } from '../lib/tabSync';
+import {
+  clearJournal,
+  emptyDataChanges,
+  isEmptyDataChanges,
+  mergeDataChanges,
+  readJournal,
+  writeJournal,
+  type DataChanges,
+} from '../lib/journal';
+import { onAppBackground } from '../lib/appLifecycle';
+import {
+  blockCommandLabel,
+  compactHistory,
+  createHistoryEntry,
+  excerpt,
+  filterHistoryPatches,
+  historyBlockDates,
+  mergeHistoryPatches,
+  rebaseListPatches,
+  restoreHistory,
+  timeRangeLabel,
+  trimHistory,
+  type HistoryEntry,
+} from '../lib/history';
+
+enablePatches();
+
+export interface StorageStatus {
+  backend: StorageBackend;
+  hydrated: boolean;
+  saving: boolean;
+  lastSavedAt?: number;
+  error?: string;
+  usage?: StorageUsage;
+}
+
+/** SELECT 모드에서 선택한 블록 (블록이 합쳐지거나 지워져 사라지면 화면에서는 선택 없음) */
+export interface BlockSelection {
+  blockId: string;
+  /** 좌상단 앵커를 눌러 리사이즈 핸들이 켜진 상태 */
+  resizeArmed: boolean;
+}
+
+export type ResizeEdge = 'start' | 'end';
 
 interface PlannerState {
   // View
@@ -17,15 +110,46 @@ interface PlannerState {
   activities: Activity[];
   blocks: Record<string, Block[]>; // dateISO -> Block[]
   checklists: Record<string, ChecklistItem[]>; // dateISO -> ChecklistItem[]
+  weekPlans: Record<string, WeekPlan>; // weekKey -> WeekPlan
+  fixedSchedule: FixedScheduleBlock[];
+  templateAppliesByDate: Record<string, TemplateApply[]>;
+  dailyStateByDate: Record<string, DailyState>;
+  completionEventsByDate: Record<string, CompletionEvent[]>;
+  indicatorsByDate: Record<string, IndicatorEvent[]>;
+  checklistBlocksByDate: Record<string, ChecklistBlock[]>;
+  memosByDate: Record<string, MemoItem[]>;
+  voiceCommandLogsByDate: Record<string, VoiceCommandLog[]>;
+  sleepByDate: Record<string, SleepLog>; // wake-up dateISO -> SleepLog
+  dayMoodByDate: Record<string, DayMoodLog>;
+  segmentMoodsByDate: Record<string, SegmentMoodLog[]>;
+  importKeywordRules: ImportKeywordRule[];
+  
+  // Sync
+  tombstones: Record<string, number>; // `${kind}:${id}` -> 삭제 시각
+  syncPeers: Record<string, SyncPeer>;
+  syncConflicts: SyncConflict[];
+  syncEndpoint: string;
+  
+  // Settings
+  startHour: number;
+  timeZone: string; // 기본 시간대 (IANA), 여행한 날은 dailyStateByDate[date].timeZone
+  schemaVersion: number;
   
   // UI State
   theme: 'light' | 'dark';
   showChecklist: boolean;
+  selection: BlockSelection | null;
+  storageStatus: StorageStatus;
+  migrationReport: MigrationReport | null;
   
-  // Undo/Redo
+  // Lazy block loading (IndexedDB)
+  loadedDates: Record<string, true>;
+  allBlocksLoaded: boolean;
+  
+  // Undo/Redo (명령 단위, future[0]이 다음 redo)
   history: {
-    past: Array<{ blocks: Record<string, Block[]> }>;
-    future: Array<{ blocks: Record<string, Block[]> }>;
+    past: HistoryEntry[];
+    future: HistoryEntry[];
   };
   
   // Actions
@@ -34,16 +158,28 @@ interface PlannerState {
   setTool: (tool: Tool) => void;
   setBrush: (activityId: string) => void;
   setTheme: (theme: 'light' | 'dark') => void;
+  setStartHour: (startHour: number) => void;
+  setTimeZone: (timeZone: string) => void;
   toggleChecklist: () => void;
   
+  // Selection (SELECT 모드)
+  selectBlock: (blockId: string | null) => void;
+  setResizeArmed: (armed: boolean) => void;
+  
   // Block operations
   addBlock: (block: Block) => void;
   updateBlock: (blockId: string, updates: Partial<Block>) => void;
   removeBlock: (dateISO: string, blockId: string) => void;
+  /** 블록의 한쪽 끝을 minute(dateISO 00:00 기준 분)으로 옮긴다 — 반대쪽 끝은 저장된 블록 그대로 */
+  resizeBlock: (blockId: string, dateISO: string, edge: ResizeEdge, minute: number) => void;
+  eraseRange: (dateISO: string, layer: Layer, startMin: number, endMin: number) => void;
   getBlocksForDate: (dateISO: string) => Block[];
+  importBlocks: (blocks: Block[]) => void;
   
   // Activity operations
   addActivity: (activity: Activity) => void;
+  /** 첫 실행 기본 활동 — 실행 취소 기록에 남기지 않는다 */
+  seedActivities: (activities: Activity[]) => void;
   updateActivity: (activityId: string, updates: Partial<Activity>) => void;
   
   // Checklist operations
@@ -51,16 +187,229 @@ interface PlannerState {
   toggleChecklistItem: (dateISO: string, itemId: string) => void;
   removeChecklistItem: (dateISO: string, itemId: string) => void;
   
+  // Checklist block operations
+  addChecklistBlock: (block: ChecklistBlock) => void;
+  updateChecklistBlock: (dateISO: string, blockId: string, updates: Partial<ChecklistBlock>) => void;
+  toggleChecklistBlockItem: (dateISO: string, blockId: string, itemId: string) => void;
+  removeChecklistBlock: (dateISO: string, blockId: string) => void;
+  
+  // Indicator operations
+  addIndicator: (indicator: IndicatorEvent) => void;
+  updateIndicator: (dateISO: string, indicatorId: string, updates: Partial<IndicatorEvent>) => void;
+  removeIndicator: (dateISO: string, indicatorId: string) => void;
+  
+  // Memo operations
+  addMemo: (memo: MemoItem) => void;
+  updateMemo: (dateISO: string, memoId: string, content: string) => void;
+  removeMemo: (dateISO: string, memoId: string) => void;
+  
+  // Week plan / fixed schedule operations
+  setWeekPlan: (plan: WeekPlan) => void;
+  removeWeekPlan: (weekKey: string) => void;
+  setFixedSchedule: (blocks: FixedScheduleBlock[]) => void;
+  addTemplateApply: (apply: TemplateApply) => void;
+  
+  // Daily state / completion operations
+  setDailyState: (dateISO: string, updates: Partial<Omit<DailyState, 'dateISO'>>) => void;
+  setDayTimeZone: (dateISO: string, timeZone: string | null) => void;
+  addCompletionEvent: (event: CompletionEvent) => void;
+  removeCompletionEvent: (dateISO: string, eventId: string) => void;
+  
+  // Voice log operations
+  addVoiceCommandLog: (dateISO: string, log: VoiceCommandLog) => void;
+  
+  // Sleep / mood operations
+  setSleepLog: (dateISO: string, sleepStartMin: number, wakeMin: number) => void;
+  setDayMood: (dateISO: string, mood: MoodRating) => void;
+  setSegmentMood: (log: Omit<SegmentMoodLog, 'updatedAt'>) => void;
+  
+  // Import settings
+  setImportKeywordRules: (rules: ImportKeywordRule[]) => void;
+  
   // Undo/Redo
   undo: () => void;
   redo: () => void;
+  /** past.length가 position이 될 때까지 undo/redo */
+  jumpToHistory: (position: number) => void;
   canUndo: () => boolean;
   canRedo: () => boolean;
-  pushHistory: () => void;
+  /** 제스처(드래그 등) 동안의 명령을 기록 하나로 묶는다 */
+  beginHistoryGroup: (label: string) => void;
+  /** label을 주면 묶인 기록의 라벨을 바꾼다 (예: 드래그가 끝난 뒤 칠한 범위) */
+  endHistoryGroup: (label?: string) => void;
   
   // Persistence
-  loadFromStorage: () => void;
-  saveToStorage: () => void;
+  loadFromStorage: () => Promise<void>;
+  saveToStorage: () => Promise<void>;
+  ensureBlocksLoaded: (dateISOs: string[]) => Promise<void>;
+  dismissMigrationReport: () => void;
+  loadAllBlocks: () => Promise<void>;
+  
+  // Backup / restore
+  getFullState: () => Promise<PersistedStateV2>;
+  restoreFromBackup: (incoming: PersistedStateV2, strategy: RestoreStrategy) => Promise<void>;
+  
+  // Integrity
+  repairBlockIntegrity: (fallbackActivityId: string) => Promise<IntegrityRepairResult>;
+  
+  // Sync
+  setSyncEndpoint: (endpoint: string) => void;
+  createSyncSnapshot: () => Promise<SyncSnapshot>;
+  applySyncSnapshot: (snapshot: SyncSnapshot) => Promise<SyncMergeResult>;
+  resolveSyncConflict: (blockId: string, keep: 'local' | 'remote') => Promise<void>;
+}
+
+let storageAdapter: StorageAdapter = createStorageAdapter();
+
+// 마지막으로 저장(또는 로드)된 날짜별 블록 배열 참조
+// Immer 구조 공유 덕분에 참조가 바뀐 날짜만 dirty로 판단할 수 있다
+let lastSavedBlocks: Record<string, Block[]> = {};
+// 저장 중에 들어온 저장 요청은 끝난 뒤 한 번 더 실행한다
+let saveQueued = false;
+// 날짜별 진행 중인 블록 로드 — 겹친 호출이 같은 날짜를 두 번 합치지 않고 같은 로드를 기다린다
+const blockLoadsInFlight = new Map<string, Promise<void>>();
+// 여러 탭: 저장은 writer 탭 하나만 한다 (아래 탭 동기화 참고)
+let isWriterTab = true;
+// 마지막 저장 이후의 데이터 변경 (journal에 적힌 내용, writer 탭만 모은다)
+let pendingChanges: DataChanges = emptyDataChanges();
+// 저장소에서 불러온 블록이나 다른 탭의 변경을 반영할 때는 다른 탭에 다시 알리지 않는다
+let suppressTabBroadcast = false;
+
+function withoutTabBroadcast(fn: () => void): void {
+  suppressTabBroadcast = true;
+  try {
+    fn();
+  } finally {
+    suppressTabBroadcast = false;
+  }
+}
+
+// ===== 실행 취소 기록 (lib/history) =====
+// 되돌릴 수 있는 데이터 슬라이스 (설정·동기화 정보·음성 로그는 제외)
+const HISTORY_SLICES = [
+  'blocks',
+  'activities',
+  'checklists',
+  'checklistBlocksByDate',
+  'indicatorsByDate',
+  'memosByDate',
+  'weekPlans',
+  'fixedSchedule',
+  'templateAppliesByDate',
+  'dailyStateByDate',
+  'completionEventsByDate',
+  'sleepByDate',
+  'dayMoodByDate',
+  'segmentMoodsByDate',
+] as const satisfies readonly (keyof PlannerState)[];
+const HISTORY_SLICE_SET: ReadonlySet<string> = new Set(HISTORY_SLICES);
+
+// 진행 중인 제스처 묶음 (entryId는 첫 변경이 기록된 뒤 정해진다)
+let openHistoryGroup: { label: string; entryId: string | null } | null = null;
+
+function recordHistory(
+  history: PlannerState['history'],
+  label: string,
+  allPatches: Patch[],
+  allInversePatches: Patch[]
+): PlannerState['history'] {
+  const patches = filterHistoryPatches(allPatches, HISTORY_SLICE_SET);
+  const inversePatches = filterHistoryPatches(allInversePatches, HISTORY_SLICE_SET);
+  if (patches.length === 0) return history;
+  const group = openHistoryGroup;
+  const last = history.past[history.past.length - 1];
+  let past: HistoryEntry[];
+  if (group?.entryId && last?.id === group.entryId) {
+    past = [...history.past.slice(0, -1), mergeHistoryPatches(last, patches, inversePatches)];
+  } else {
+    const entry = createHistoryEntry(ulid(), group?.label ?? label, patches, inversePatches);
+    if (group) group.entryId = entry.id;
+    past = [...history.past, entry];
+  }
+  return { past: trimHistory(past, []), future: [] };
+}
+
+/**
+ * 기록의 패치를 적용하고 기록 위치를 옮긴다.
+ * 날짜별 목록은 이 명령이 바꾼 항목만 되돌려(다시 해) 그 사이 다른 탭·기기에서 들어온 변경을 지우지 않는다.
+ * counterPatches는 반대 방향 패치다. 패치가 더 이상 맞지 않으면 기록을 비운다.
+ */
+function travelHistory(
+  patches: Patch[],
+  counterPatches: Patch[],
+  move: (history: Draft<PlannerState['history']>) => void
+): void {
+  let patched: PlannerState;
+  try {
+    const current = usePlannerStore.getState();
+    patched = applyPatches(current, rebaseListPatches(patches, counterPatches, current));
+  } catch (err) {
+    console.warn('History no longer applies, clearing it', err);
+    usePlannerStore.setState({ history: { past: [], future: [] } });
+    return;
+  }
+  usePlannerStore.setState((state) => {
+    for (const key of HISTORY_SLICES) Object.assign(state, { [key]: patched[key] });
+    move(state.history);
+  });
+}
+
+/**
+ * 되돌릴 수 있는 데이터 변경 (명령 하나 = 실행 취소 한 단계, 제스처 묶음 안이면 그 묶음에 합쳐진다)
+ * label 함수는 변경 전 상태로 부른다
+ */
+function command(label: string | ((state: PlannerState) => string), recipe: (state: Draft<PlannerState>) => void): void {
+  const prev = usePlannerStore.getState();
+  const [next, patches, inversePatches] = produceWithPatches(prev, recipe);
+  if (next === prev) return;
+  // 데이터와 기록을 한 번에 바꾼다 (저장 구독자가 journal에 같은 시점의 기록을 적도록)
+  const history = recordHistory(prev.history, typeof label === 'string' ? label : label(prev), patches, inversePatches);
+  usePlannerStore.setState({ ...next, history });
+}
+
+function findBlock(blocks: Record<string, Block[]>, blockId: string): Block | undefined {
+  for (const list of Object.values(blocks)) {
+    const block = list.find(b => b.id === blockId);
+    if (block) return block;
+  }
+  return undefined;
+}
+
+/**
+ * 한쪽 끝을 옮긴 블록 시간 (dateISO 좌표) — 바뀌지 않거나 길이가 0 이하가 되면 null
+ */
+function resizedSpan(block: Block, dateISO: string, edge: ResizeEdge, minute: number): { startMin: number; endMin: number } | null {
+  const current = shiftBlockToDate(block, dateISO);
+  const span = edge === 'start' ? { ...current, startMin: minute } : { ...current, endMin: minute };
+  if (span.endMin <= span.startMin) return null;
+  if (span.startMin === current.startMin && span.endMin === current.endMin) return null;
+  return span;
+}
+
+/**
+ * 저장소에서 불러온 날짜 블록을 반영한다
+ * 로드 전에 이미 편집된 날짜면 id로 합쳐서(편집한 쪽 우선) dirty로 남긴다
+ */
+function mergeLoadedBlocks(draft: Draft<PlannerState>, dateISO: string, stored: Block[]): void {
+  const existing = draft.blocks[dateISO];
+  if (!existing) {
+    draft.blocks[dateISO] = stored;
+    lastSavedBlocks = { ...lastSavedBlocks, [dateISO]: stored };
+    return;
+  }
+  const editedIds = new Set(existing.map(b => b.id));
+  draft.blocks[dateISO] = [...stored.filter(b => !editedIds.has(b.id)), ...existing];
+}
+
+function collectDirtyDates(blocks: Record<string, Block[]>): string[] {
+  const dirty: string[] = [];
+  for (const dateISO of Object.keys(blocks)) {
+    if (blocks[dateISO] !== lastSavedBlocks[dateISO]) dirty.push(dateISO);
+  }
+  for (const dateISO of Object.keys(lastSavedBlocks)) {
+    if (!(dateISO in blocks)) dirty.push(dateISO);
+  }
+  return dirty;
 }
 
 export const usePlannerStore = create<PlannerState>()(
@@ -73,8 +422,37 @@ export const usePlannerStore = create<PlannerState>()(
     activities: [],
     blocks: {},
     checklists: {},
+    weekPlans: {},
+    fixedSchedule: [],
+    templateAppliesByDate: {},
+    dailyStateByDate: {},
+    completionEventsByDate: {},
+    indicatorsByDate: {},
+    checklistBlocksByDate: {},
+    memosByDate: {},
+    voiceCommandLogsByDate: {},
+    sleepByDate: {},
+    dayMoodByDate: {},
+    segmentMoodsByDate: {},
+    importKeywordRules: [],
+    tombstones: {},
+    syncPeers: {},
+    syncConflicts: [],
+    syncEndpoint: '',
+    startHour: 6,
+    timeZone: deviceTimeZone(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     theme: 'light',
     showChecklist: false,
+    selection: null,
+    storageStatus: {
+      backend: storageAdapter.backend,
+      hydrated: false,
+      saving: false,
+    },
+    migrationReport: null,
+    loadedDates: {},
+    allBlocksLoaded: false,
     history: {
       past: [],
       future: [],
@@ -82,56 +460,99 @@ export const usePlannerStore = create<PlannerState>()(
     
     // View actions
     setView: (view) => set({ view }),
-    setDate: (date) => set({ date }),
-    setTool: (tool) => set({ tool }),
+    setDate: (date) => set({ date, selection: null }),
+    setTool: (tool) => set((state) => {
+      state.tool = tool;
+      if (tool !== 'SELECT' && tool !== 'select') state.selection = null;
+    }),
     setBrush: (activityId) => set({ brush: activityId }),
     setTheme: (theme) => {
       set({ theme });
       document.documentElement.setAttribute('data-theme', theme);
     },
+    setStartHour: (startHour) => set({ startHour: ((Math.floor(startHour) % 24) + 24) % 24 }),
+    setTimeZone: (timeZone) => set((state) => {
+      if (isValidTimeZone(timeZone)) state.timeZone = timeZone;
+    }),
     toggleChecklist: () => set((state) => {
       state.showChecklist = !state.showChecklist;
     }),
     
+    // Selection
+    selectBlock: (blockId) => set({ selection: blockId ? { blockId, resizeArmed: false } : null }),
+    setResizeArmed: (armed) => set((state) => {
+      if (state.selection) state.selection.resizeArmed = armed;
+    }),
+    
     // Block operations
-    addBlock: (block) => set((state) => {
-      const { dateISO } = block;
-      if (!state.blocks[dateISO]) {
-        state.blocks[dateISO] = [];
-      }
-      state.blocks[dateISO].push(block);
+    // 모든 블록 쓰기는 writeBlocksAcrossDays를 거친다: 같은 레이어 겹침은 쓴 블록 기준으로 정리
+    // (자정을 넘는 블록이면 걸친 날짜들까지), 같은 활동은 합침
+    addBlock: (block) => command(state => blockCommandLabel(block.source === 'drag' ? 'Paint' : '블록 추가', block, state.activities), (state) => {
+      Object.assign(state.blocks, writeBlocksAcrossDays(state.blocks, [block]));
     }),
     
-    updateBlock: (blockId, updates) => set((state) => {
+    updateBlock: (blockId, updates) => command(state => {
+      const block = findBlock(state.blocks, blockId);
+      return block ? blockCommandLabel('블록 수정', { ...block, ...updates }, state.activities) : '블록 수정';
+    }, (state) => {
       for (const dateISO in state.blocks) {
-        const blockIndex = state.blocks[dateISO].findIndex(b => b.id === blockId);
-        if (blockIndex !== -1) {
-          state.blocks[dateISO][blockIndex] = {
-            ...state.blocks[dateISO][blockIndex],
-            ...updates,
-            updatedAt: Date.now(),
-          };
-          break;
-        }
+        const block = state.blocks[dateISO].find(b => b.id === blockId);
+        if (!block) continue;
+        const updated = { ...block, ...updates, updatedAt: Date.now() };
+        state.blocks[dateISO] = state.blocks[dateISO].filter(b => b.id !== blockId);
+        Object.assign(state.blocks, writeBlocksAcrossDays(state.blocks, [updated]));
+        break;
       }
     }),
     
-    removeBlock: (dateISO, blockId) => set((state) => {
+    removeBlock: (dateISO, blockId) => command(state => {
+      const block = state.blocks[dateISO]?.find(b => b.id === blockId);
+      return block ? blockCommandLabel('블록 삭제', block, state.activities) : '블록 삭제';
+    }, (state) => {
       if (state.blocks[dateISO]) {
         state.blocks[dateISO] = state.blocks[dateISO].filter(b => b.id !== blockId);
       }
     }),
     
+    resizeBlock: (blockId, dateISO, edge, minute) => command(state => {
+      const block = findBlock(state.blocks, blockId);
+      const span = block && resizedSpan(block, dateISO, edge, minute);
+      return span ? blockCommandLabel('크기 변경', { ...block, ...span }, state.activities) : '크기 변경';
+    }, (state) => {
+      const block = findBlock(state.blocks, blockId);
+      const span = block && resizedSpan(block, dateISO, edge, minute);
+      if (!block || !span) return;
+      const updated = { ...block, dateISO, ...span, updatedAt: Date.now() };
+      state.blocks[block.dateISO] = state.blocks[block.dateISO].filter(b => b.id !== blockId);
+      Object.assign(state.blocks, writeBlocksAcrossDays(state.blocks, [updated]));
+    }),
+    
+    eraseRange: (dateISO, layer, startMin, endMin) => command(`Erase ${timeRangeLabel(startMin, endMin)}`, (state) => {
+      Object.assign(state.blocks, eraseSpanAcrossDays(state.blocks, dateISO, { layer, startMin, endMin }));
+    }),
+    
     getBlocksForDate: (dateISO) => {
       return get().blocks[dateISO] || [];
     },
     
+    importBlocks: (blocks) => command(`가져오기 블록 ${blocks.length}개`, (state) => {
+      // 같은 레이어의 기존 블록은 가져온 블록에 자리를 내준다
+      Object.assign(state.blocks, writeBlocksAcrossDays(state.blocks, blocks));
+    }),
+    
     // Activity operations
-    addActivity: (activity) => set((state) => {
+    addActivity: (activity) => command(`활동 추가 ${activity.name}`, (state) => {
       state.activities.push(activity);
     }),
     
-    updateActivity: (activityId, updates) => set((state) => {
+    seedActivities: (activities) => set((state) => {
+      state.activities.push(...activities);
+    }),
+    
+    updateActivity: (activityId, updates) => command(state => {
+      const name = state.activities.find(a => a.id === activityId)?.name ?? activityId;
+      return updates.name !== undefined && updates.name !== name ? `활동 이름 변경 ${name} → ${updates.name}` : `활동 수정 ${name}`;
+    }, (state) => {
       const index = state.activities.findIndex(a => a.id === activityId);
       if (index !== -1) {
         state.activities[index] = { ...state.activities[index], ...updates };
@@ -139,14 +560,17 @@ export const usePlannerStore = create<PlannerState>()(
     }),
     
     // Checklist operations
-    addChecklistItem: (dateISO, item) => set((state) => {
+    addChecklistItem: (dateISO, item) => command(`체크리스트 추가 ${excerpt(item.text)}`, (state) => {
       if (!state.checklists[dateISO]) {
         state.checklists[dateISO] = [];
       }
       state.checklists[dateISO].push(item);
     }),
     
-    toggleChecklistItem: (dateISO, itemId) => set((state) => {
+    toggleChecklistItem: (dateISO, itemId) => command(state => {
+      const item = state.checklists[dateISO]?.find(i => i.id === itemId);
+      return item ? `체크리스트 ${item.done ? '체크 해제' : '체크'} ${excerpt(item.text)}` : '체크리스트 체크';
+    }, (state) => {
       if (state.checklists[dateISO]) {
         const item = state.checklists[dateISO].find(i => i.id === itemId);
         if (item) {
@@ -156,81 +580,778 @@ export const usePlannerStore = create<PlannerState>()(
       }
     }),
     
-    removeChecklistItem: (dateISO, itemId) => set((state) => {
+    removeChecklistItem: (dateISO, itemId) => command(state => {
+      const item = state.checklists[dateISO]?.find(i => i.id === itemId);
+      return `체크리스트 삭제 ${excerpt(item?.text ?? '')}`.trim();
+    }, (state) => {
       if (state.checklists[dateISO]) {
         state.checklists[dateISO] = state.checklists[dateISO].filter(i => i.id !== itemId);
       }
     }),
     
-    // Undo/Redo
-    pushHistory: () => set((state) => {
-      const snapshot = JSON.parse(JSON.stringify(state.blocks));
-      state.history.past.push({ blocks: snapshot });
-      state.history.future = [];
-      
-      // Limit history size
-      if (state.history.past.length > 50) {
-        state.history.past.shift();
+    // Checklist block operations
+    addChecklistBlock: (block) => command('체크리스트 블록 추가', (state) => {
+      const { dateISO } = block;
+      if (!state.checklistBlocksByDate[dateISO]) {
+        state.checklistBlocksByDate[dateISO] = [];
       }
+      state.checklistBlocksByDate[dateISO].push(block);
     }),
     
-    undo: () => set((state) => {
-      if (state.history.past.length === 0) return;
-      
-      const current = JSON.parse(JSON.stringify(state.blocks));
-      state.history.future.unshift({ blocks: current });
-      
-      const previous = state.history.past.pop();
-      if (previous) {
-        state.blocks = previous.blocks;
+    updateChecklistBlock: (dateISO, blockId, updates) => command('체크리스트 블록 수정', (state) => {
+      const list = state.checklistBlocksByDate[dateISO];
+      if (!list) return;
+      const index = list.findIndex(b => b.id === blockId);
+      if (index !== -1) {
+        list[index] = { ...list[index], ...updates, updatedAt: Date.now() };
       }
     }),
     
-    redo: () => set((state) => {
-      if (state.history.future.length === 0) return;
-      
-      const current = JSON.parse(JSON.stringify(state.blocks));
-      state.history.past.push({ blocks: current });
-      
-      const next = state.history.future.shift();
-      if (next) {
-        state.blocks = next.blocks;
+    toggleChecklistBlockItem: (dateISO, blockId, itemId) => command(state => {
+      const item = state.checklistBlocksByDate[dateISO]?.find(b => b.id === blockId)?.items.find(i => i.id === itemId);
+      return item ? `체크리스트 ${item.done ? '체크 해제' : '체크'} ${excerpt(item.text)}` : '체크리스트 체크';
+    }, (state) => {
+      const block = state.checklistBlocksByDate[dateISO]?.find(b => b.id === blockId);
+      const item = block?.items.find(i => i.id === itemId);
+      if (block && item) {
+        item.done = !item.done;
+        block.updatedAt = Date.now();
       }
     }),
     
+    removeChecklistBlock: (dateISO, blockId) => command('체크리스트 블록 삭제', (state) => {
+      if (state.checklistBlocksByDate[dateISO]) {
+        state.checklistBlocksByDate[dateISO] = state.checklistBlocksByDate[dateISO].filter(b => b.id !== blockId);
+      }
+    }),
+    
+    // Indicator operations
+    addIndicator: (indicator) => command(`지표 추가 ${excerpt(indicator.label)}`, (state) => {
+      const { dateISO } = indicator;
+      if (!state.indicatorsByDate[dateISO]) {
+        state.indicatorsByDate[dateISO] = [];
+      }
+      state.indicatorsByDate[dateISO].push(indicator);
+    }),
+    
+    updateIndicator: (dateISO, indicatorId, updates) => command(state => {
+      const indicator = state.indicatorsByDate[dateISO]?.find(i => i.id === indicatorId);
+      return `지표 수정 ${excerpt(updates.label ?? indicator?.label ?? '')}`.trim();
+    }, (state) => {
+      const list = state.indicatorsByDate[dateISO];
+      if (!list) return;
+      const index = list.findIndex(i => i.id === indicatorId);
+      if (index !== -1) {
+        list[index] = { ...list[index], ...updates };
+      }
+    }),
+    
+    removeIndicator: (dateISO, indicatorId) => command(state => {
+      const indicator = state.indicatorsByDate[dateISO]?.find(i => i.id === indicatorId);
+      return `지표 삭제 ${excerpt(indicator?.label ?? '')}`.trim();
+    }, (state) => {
+      if (state.indicatorsByDate[dateISO]) {
+        state.indicatorsByDate[dateISO] = state.indicatorsByDate[dateISO].filter(i => i.id !== indicatorId);
+      }
+    }),
+    
+    // Memo operations
+    addMemo: (memo) => command(`메모 추가 ${excerpt(memo.content)}`, (state) => {
+      const { dateISO } = memo;
+      if (!state.memosByDate[dateISO]) {
+        state.memosByDate[dateISO] = [];
+      }
+      state.memosByDate[dateISO].push(memo);
+    }),
+    
+    updateMemo: (dateISO, memoId, content) => command(`메모 수정 ${excerpt(content)}`, (state) => {
+      const memo = state.memosByDate[dateISO]?.find(m => m.id === memoId);
+      if (memo) {
+        memo.content = content;
+        memo.updatedAt = Date.now();
+      }
+    }),
+    
+    removeMemo: (dateISO, memoId) => command(state => {
+      const memo = state.memosByDate[dateISO]?.find(m => m.id === memoId);
+      return `메모 삭제 ${excerpt(memo?.content ?? '')}`.trim();
+    }, (state) => {
+      if (state.memosByDate[dateISO]) {
+        state.memosByDate[dateISO] = state.memosByDate[dateISO].filter(m => m.id !== memoId);
+      }
+    }),
+    
+    // Week plan / fixed schedule operations
+    setWeekPlan: (plan) => command(`주간 계획 ${plan.weekKey}`, (state) => {
+      state.weekPlans[plan.weekKey] = plan;
+    }),
+    
+    removeWeekPlan: (weekKey) => command(`주간 계획 삭제 ${weekKey}`, (state) => {
+      delete state.weekPlans[weekKey];
+    }),
+    
+    setFixedSchedule: (blocks) => command('고정 일정 변경', (state) => {
+      state.fixedSchedule = blocks;
+    }),
+    
+    addTemplateApply: (apply) => command(`템플릿 적용 ${apply.dateISO}`, (state) => {
+      const { dateISO } = apply;
+      if (!state.templateAppliesByDate[dateISO]) {
+        state.templateAppliesByDate[dateISO] = [];
+      }
+      state.templateAppliesByDate[dateISO].push(apply);
+    }),
+    
+    // Daily state / completion operations
+    setDailyState: (dateISO, updates) => command(`하루 상태 ${dateISO}`, (state) => {
+      state.dailyStateByDate[dateISO] = {
+        ...state.dailyStateByDate[dateISO],
+        ...updates,
+        dateISO,
+        recordedAt: Date.now(),
+      };
+    }),
+    
+    // 기본 시간대와 같거나 null이면 기록을 지운다 (그날도 기본 시간대를 따른다)
+    setDayTimeZone: (dateISO, timeZone) => command(`시간대 ${dateISO}`, (state) => {
+      if (timeZone !== null && !isValidTimeZone(timeZone)) return;
+      const daily: DailyState = {
+        ...state.dailyStateByDate[dateISO],
+        dateISO,
+        recordedAt: Date.now(),
+      };
+      if (timeZone === null || timeZone === state.timeZone) delete daily.timeZone;
+      else daily.timeZone = timeZone;
+      state.dailyStateByDate[dateISO] = daily;
+    }),
+    
+    addCompletionEvent: (event) => command(`완료 기록 ${event.dateISO}`, (state) => {
+      const { dateISO } = event;
+      if (!state.completionEventsByDate[dateISO]) {
+        state.completionEventsByDate[dateISO] = [];
+      }
+      state.completionEventsByDate[dateISO].push(event);
+    }),
+    
+    removeCompletionEvent: (dateISO, eventId) => command(`완료 기록 삭제 ${dateISO}`, (state) => {
+      if (state.completionEventsByDate[dateISO]) {
+        state.completionEventsByDate[dateISO] = state.completionEventsByDate[dateISO].filter(e => e.id !== eventId);
+      }
+    }),
+    
+    // Voice log operations
+    addVoiceCommandLog: (dateISO, log) => set((state) => {
+      if (!state.voiceCommandLogsByDate[dateISO]) {
+        state.voiceCommandLogsByDate[dateISO] = [];
+      }
+      state.voiceCommandLogsByDate[dateISO].push(log);
+    }),
+    
+    // Sleep / mood operations
+    setSleepLog: (dateISO, sleepStartMin, wakeMin) => command(`수면 기록 ${dateISO}`, (state) => {
+      state.sleepByDate[dateISO] = { dateISO, sleepStartMin, wakeMin, updatedAt: Date.now() };
+    }),
+    
+    setDayMood: (dateISO, mood) => command(`하루 기분 ${dateISO}`, (state) => {
+      state.dayMoodByDate[dateISO] = { dateISO, mood, updatedAt: Date.now() };
+    }),
+    
+    setSegmentMood: (log) => command(`구간 기분 ${timeRangeLabel(log.startMin, log.endMin)}`, (state) => {
+      const { dateISO } = log;
+      const list = state.segmentMoodsByDate[dateISO] ?? (state.segmentMoodsByDate[dateISO] = []);
+      const index = list.findIndex(
+        m => m.layer === log.layer && m.activityId === log.activityId && m.startMin === log.startMin && m.endMin === log.endMin
+      );
+      const next = { ...log, updatedAt: Date.now() };
+      if (index !== -1) {
+        list[index] = next;
+      } else {
+        list.push(next);
+      }
+    }),
+    
+    // Import settings
+    setImportKeywordRules: (rules) => set({ importKeywordRules: rules }),
+    
+    // Undo/Redo
+    undo: () => {
+      const { past } = get().history;
+      const entry = past[past.length - 1];
+      if (!entry) return;
+      openHistoryGroup = null;
+      travelHistory(entry.inversePatches, entry.patches, (history) => {
+        history.past.pop();
+        history.future.unshift(entry);
+      });
+    },
+    
+    redo: () => {
+      const entry = get().history.future[0];
+      if (!entry) return;
+      openHistoryGroup = null;
+      travelHistory(entry.patches, entry.inversePatches, (history) => {
+        history.future.shift();
+        history.past.push(entry);
+      });
+    },
+    
+    jumpToHistory: (position) => {
+      const { past, future } = get().history;
+      const target = Math.max(0, Math.min(position, past.length + future.length));
+      for (let i = past.length; i > target; i--) get().undo();
+      for (let i = past.length; i < target; i++) get().redo();
+    },
+    
     canUndo: () => get().history.past.length > 0,
     canRedo: () => get().history.future.length > 0,
     
+    beginHistoryGroup: (label) => {
+      openHistoryGroup = { label, entryId: null };
+    },
+    
+    endHistoryGroup: (label) => {
+      const group = openHistoryGroup;
+      openHistoryGroup = null;
+      if (!group?.entryId || label === undefined) return;
+      set((state) => {
+        const entry = state.history.past.find(e => e.id === group.entryId);
+        if (entry) entry.label = label;
+      });
+    },
+    
     // Persistence
-    loadFromStorage: () => {
-      const state = loadState();
-      if (state) {
-        set({
-          activities: state.activities || [],
-          blocks: (state as any).blocks || state.blocksByDate || {},
-          checklists: (state as any).checklists || state.checklistByDate || {},
-          theme: state.theme || 'light',
+    loadFromStorage: async () => {
+      let state: PersistedStateV2 | null = null;
+      let error: string | undefined;
+      try {
+        try {
+          state = await storageAdapter.load();
+        } catch (err) {
+          if (!(err instanceof StorageError && err.reason === 'unavailable') || storageAdapter.backend === 'localStorage') {
+            throw err;
+          }
+          // IndexedDB를 쓸 수 없는 환경 (예: 일부 프라이빗 모드) → localStorage로 대체
+          storageAdapter = createLocalStorageAdapter();
+          state = await storageAdapter.load();
+        }
+      } catch (err) {
+        // 손상/미지원 데이터로 빈 플래너를 시작하지 않는다 — hydrated=false면 저장도 막힌다
+        error = describeStorageError(err);
+      }
+      
+      const migrationReport = takeMigrationReport();
+      lastSavedBlocks = state && !storageAdapter.lazyBlocks ? state.blocksByDate || {} : {};
+      
+      // 지난 실행에서 저장하지 못한 변경 (데이터 변경이므로 hydrated 뒤에 적용하면 곧 저장되고 journal이 지워진다)
+      const journal = error === undefined ? readJournal() : null;
+      // 실행 취소 기록은 journal 쪽이 더 최신이다. 마이그레이션을 거친 데이터에는 예전 패치가 맞지 않는다.
+      let history: PlannerState['history'] = error === undefined && !migrationReport
+        ? restoreHistory(journal?.history ?? state?.history)
+        : { past: [], future: [] };
+      // 기록과 journal이 건드리는 날짜는 hydrated 전에 불러 둔다 (화면 날짜 로드와 겹치지 않도록)
+      const preloadDates = storageAdapter.lazyBlocks
+        ? [...new Set([
+            ...historyBlockDates(history),
+            ...(journal ? Object.keys(journal.blocks).filter(d => !journal.completeDates.includes(d)) : []),
+          ])]
+        : [];
+      if (preloadDates.length > 0) {
+        try {
+          lastSavedBlocks = await storageAdapter.loadBlocks(preloadDates);
+        } catch {
+          // 되돌릴 날짜를 못 불러오면 기록은 버린다 (journal 날짜는 hydrated 뒤 ensureBlocksLoaded가 다시 시도)
+          history = { past: [], future: [] };
+          preloadDates.length = 0;
+        }
+      }
+      
+      set((draft) => {
+        if (state) {
+          Object.assign(draft, fromPersistedState(state));
+        }
+        draft.blocks = lastSavedBlocks;
+        draft.loadedDates = Object.fromEntries(preloadDates.map(d => [d, true] as const));
+        draft.allBlocksLoaded = !storageAdapter.lazyBlocks;
+        draft.history = history;
+        draft.storageStatus = {
+          backend: storageAdapter.backend,
+          hydrated: error === undefined,
+          saving: false,
+          error,
+        };
+        draft.migrationReport = migrationReport;
+      });
+      
+      if (journal) {
+        await get().ensureBlocksLoaded(Object.keys(journal.blocks).filter(d => !journal.completeDates.includes(d)));
+        set((draft) => applyDataChanges(draft, journal));
+      }
+    },
+    
+    saveToStorage: async () => {
+      const state = get();
+      // 로드 전(또는 로드 실패 후)에 빈 상태로 덮어쓰지 않는다
+      if (!state.storageStatus.hydrated) return;
+      // 다른 탭이 writer면 변경은 그 탭에 전달되어 저장된다
+      if (!isWriterTab) return;
+      if (state.storageStatus.saving) {
+        saveQueued = true;
+        return;
+      }
+      
+      const dirtyDates = collectDirtyDates(state.blocks);
+      const blocksSnapshot = state.blocks;
+      const savingChanges = pendingChanges;
+      pendingChanges = emptyDataChanges();
+      set((draft) => {
+        draft.storageStatus.saving = true;
+      });
+      try {
+        await storageAdapter.save({ ...toPersistedState(state), history: compactHistory(state.history) }, dirtyDates);
+        lastSavedBlocks = blocksSnapshot;
+        // 저장하는 동안 들어온 변경만 journal에 남긴다
+        if (isEmptyDataChanges(pendingChanges)) clearJournal();
+        else flushJournal();
+        const usage = await storageAdapter.estimateUsage();
+        set((draft) => {
+          draft.storageStatus.saving = false;
+          draft.storageStatus.lastSavedAt = Date.now();
+          draft.storageStatus.error = undefined;
+          draft.storageStatus.usage = usage ?? undefined;
+        });
+      } catch (err) {
+        pendingChanges = mergeDataChanges(savingChanges, pendingChanges);
+        set((draft) => {
+          draft.storageStatus.saving = false;
+          draft.storageStatus.error = describeStorageError(err);
+        });
+      }
+      if (saveQueued) {
+        saveQueued = false;
+        await get().saveToStorage();
+      }
+    },
+    
+    dismissMigrationReport: () => set({ migrationReport: null }),
+    
+    ensureBlocksLoaded: async (dateISOs) => {
+      const state = get();
+      if (state.allBlocksLoaded) return;
+      const waiting = new Set<Promise<void>>();
+      const missing: string[] = [];
+      for (const dateISO of new Set(dateISOs)) {
+        const inFlight = blockLoadsInFlight.get(dateISO);
+        if (inFlight) waiting.add(inFlight);
+        else if (!state.loadedDates[dateISO]) missing.push(dateISO);
+      }
+      
+      if (missing.length > 0) {
+        const load = (async () => {
+          try {
+            const loaded = await storageAdapter.loadBlocks(missing);
+            withoutTabBroadcast(() => set((draft) => {
+              for (const dateISO of missing) {
+                // 기다리는 동안 loadAllBlocks 등으로 이미 합쳐진 날짜는 건너뛴다
+                if (draft.allBlocksLoaded || draft.loadedDates[dateISO]) continue;
+                draft.loadedDates[dateISO] = true;
+                const stored = loaded[dateISO];
+                if (!stored) continue;
+                mergeLoadedBlocks(draft, dateISO, stored);
+              }
+            }));
+          } catch (err) {
+            set((draft) => {
+              draft.storageStatus.error = describeStorageError(err);
+            });
+          } finally {
+            for (const dateISO of missing) blockLoadsInFlight.delete(dateISO);
+          }
+        })();
+        for (const dateISO of missing) blockLoadsInFlight.set(dateISO, load);
+        waiting.add(load);
+      }
+      await Promise.all(waiting);
+    },
+    
+    loadAllBlocks: async () => {
+      const state = get();
+      if (state.allBlocksLoaded) return;
+      try {
+        const loaded = await storageAdapter.loadBlocks();
+        withoutTabBroadcast(() => set((draft) => {
+          for (const [dateISO, stored] of Object.entries(loaded)) {
+            if (draft.loadedDates[dateISO]) continue;
+            mergeLoadedBlocks(draft, dateISO, stored);
+            draft.loadedDates[dateISO] = true;
+          }
+          draft.allBlocksLoaded = true;
+        }));
+      } catch (err) {
+        set((draft) => {
+          draft.storageStatus.error = describeStorageError(err);
         });
       }
     },
     
-    saveToStorage: () => {
+    getFullState: async () => {
+      await get().loadAllBlocks();
       const state = get();
-      saveState({
-        activities: state.activities,
-        blocksByDate: state.blocks,
-        checklistByDate: state.checklists,
-        theme: state.theme,
-      } as any);
+      if (!state.allBlocksLoaded) {
+        throw new Error(state.storageStatus.error || '블록을 모두 불러오지 못했습니다');
+      }
+      return toPersistedState(state);
+    },
+    
+    restoreFromBackup: async (incoming, strategy) => {
+      if (!get().storageStatus.hydrated) {
+        throw new Error('저장소를 불러오지 못한 상태에서는 복원할 수 없습니다');
+      }
+      // 병합/교체 모두 lazy 로드되지 않은 날짜까지 포함한 전체 상태 기준
+      const current = await get().getFullState();
+      const restored = restoreState(current, incoming, strategy);
+      set((draft) => {
+        Object.assign(draft, fromPersistedState(restored));
+        // 이전 기록을 되돌리면 들어온 데이터와 섞이므로 비운다
+        draft.history = { past: [], future: [] };
+      });
+    },
+    
+    repairBlockIntegrity: async (fallbackActivityId) => {
+      // 날짜 이동·중복 판단은 lazy 로드되지 않은 날짜까지 봐야 한다
+      await get().loadAllBlocks();
+      const state = get();
+      if (!state.allBlocksLoaded) {
+        throw new Error(state.storageStatus.error || '블록을 모두 불러오지 못했습니다');
+      }
+      const result = repairIntegrity(state.blocks, state.activities, { fallbackActivityId });
+      command('데이터 점검 복구', (draft) => {
+        draft.blocks = result.blocksByDate;
+      });
+      return result;
+    },
+    
+    // Sync
+    setSyncEndpoint: (endpoint) => set({ syncEndpoint: endpoint.trim() }),
+    
+    createSyncSnapshot: async () => createSyncSnapshot(await get().getFullState(), getDeviceId()),
+    
+    applySyncSnapshot: async (snapshot) => {
+      if (!get().storageStatus.hydrated) {
+        throw new Error('저장소를 불러오지 못한 상태에서는 동기화할 수 없습니다');
+      }
+      if (snapshot.deviceId === getDeviceId()) {
+        throw new SyncError('invalid', '이 기기에서 만든 스냅샷입니다');
+      }
+      // 병합은 lazy 로드되지 않은 날짜까지 포함한 전체 상태 기준
+      const result = mergeSyncSnapshot(await get().getFullState(), snapshot);
+      set((draft) => {
+        Object.assign(draft, fromPersistedState(result.state));
+        // 이전 기록을 되돌리면 들어온 데이터와 섞이므로 비운다
+        draft.history = { past: [], future: [] };
+      });
+      return result;
+    },
+    
+    // 병합 때 남긴 쪽과 다른 버전을 고르면 그 버전을 지금 시각으로 다시 쓴다 (다음 동기화 때 상대 기기에도 반영)
+    resolveSyncConflict: async (blockId, keep) => {
+      const conflict = get().syncConflicts.find(c => c.blockId === blockId);
+      if (!conflict) return;
+      const versions = [conflict.local, conflict.remote].filter((b): b is Block => b !== undefined);
+      await get().ensureBlocksLoaded(datesToLoadForBlocks(versions));
+      set((state) => {
+        state.syncConflicts = state.syncConflicts.filter(c => c.blockId !== blockId);
+      });
+      if (conflict.kept === keep) return;
+      command(`충돌 해결 (${keep === 'local' ? '이 기기' : '다른 기기'} 버전)`, (state) => {
+        for (const dateISO in state.blocks) {
+          if (state.blocks[dateISO].some(b => b.id === blockId)) {
+            state.blocks[dateISO] = state.blocks[dateISO].filter(b => b.id !== blockId);
+          }
+        }
+        const chosen = conflict[keep];
+        if (chosen) {
+          Object.assign(state.blocks, writeBlocksAcrossDays(state.blocks, [{ ...chosen, updatedAt: Date.now() }]));
+        }
+      });
     },
   }))
 );
 
-// Debounced save (1초 후 저장)
+type PersistedSlices = Pick<
+  PlannerState,
+  | 'activities'
+  | 'blocks'
+  | 'checklists'
+  | 'weekPlans'
+  | 'fixedSchedule'
+  | 'templateAppliesByDate'
+  | 'dailyStateByDate'
+  | 'completionEventsByDate'
+  | 'indicatorsByDate'
+  | 'checklistBlocksByDate'
+  | 'memosByDate'
+  | 'voiceCommandLogsByDate'
+  | 'sleepByDate'
+  | 'dayMoodByDate'
+  | 'segmentMoodsByDate'
+  | 'importKeywordRules'
+  | 'tombstones'
+  | 'syncPeers'
+  | 'syncConflicts'
+  | 'syncEndpoint'
+  | 'startHour'
+  | 'timeZone'
+  | 'schemaVersion'
+  | 'theme'
+>;
+
+/**
+ * PersistedStateV2 → 스토어 슬라이스
+ * 누락된 필드는 빈 값으로 채운다 (부분 저장본/구버전 호환)
+ */
+function fromPersistedState(state: PersistedStateV2): PersistedSlices {
+  return {
+    activities: state.activities || [],
+    blocks: state.blocksByDate || {},
+    checklists: state.checklistByDate || {},
+    weekPlans: state.weekPlans || {},
+    fixedSchedule: state.fixedSchedule || state.fixedSchedules || [],
+    templateAppliesByDate: state.templateAppliesByDate || {},
+    dailyStateByDate: state.dailyStateByDate || {},
+    completionEventsByDate: state.completionEventsByDate || {},
+    indicatorsByDate: state.indicatorsByDate || {},
+    checklistBlocksByDate: state.checklistBlocksByDate || {},
+    memosByDate: state.memosByDate || {},
+    voiceCommandLogsByDate: state.voiceCommandLogsByDate || {},
+    sleepByDate: state.sleepByDate || {},
+    dayMoodByDate: state.dayMoodByDate || {},
+    segmentMoodsByDate: state.segmentMoodsByDate || {},
+    importKeywordRules: state.importKeywordRules || [],
+    tombstones: pruneTombstones(state.tombstones || {}),
+    syncPeers: state.syncPeers || {},
+    syncConflicts: state.syncConflicts || [],
+    syncEndpoint: state.syncEndpoint || '',
+    startHour: state.startHour ?? 6,
+    timeZone: state.timeZone && isValidTimeZone(state.timeZone) ? state.timeZone : deviceTimeZone(),
+    schemaVersion: state.schemaVersion ?? CURRENT_SCHEMA_VERSION,
+    theme: state.theme || 'light',
+  };
+}
+
+/**
+ * 스토어 → PersistedStateV2 (모든 필드 왕복 보존)
+ */
+function toPersistedState(state: PersistedSlices): PersistedStateV2 {
+  return {
+    version: 2,
+    schemaVersion: state.schemaVersion,
+    activities: state.activities,
+    blocksByDate: state.blocks,
+    weekPlans: state.weekPlans,
+    fixedSchedule: state.fixedSchedule,
+    templateAppliesByDate: state.templateAppliesByDate,
+    dailyStateByDate: state.dailyStateByDate,
+    completionEventsByDate: state.completionEventsByDate,
+    indicatorsByDate: state.indicatorsByDate,
+    checklistByDate: state.checklists,
+    checklistBlocksByDate: state.checklistBlocksByDate,
+    memosByDate: state.memosByDate,
+    voiceCommandLogsByDate: state.voiceCommandLogsByDate,
+    sleepByDate: state.sleepByDate,
+    dayMoodByDate: state.dayMoodByDate,
+    segmentMoodsByDate: state.segmentMoodsByDate,
+    importKeywordRules: state.importKeywordRules,
+    tombstones: state.tombstones,
+    syncPeers: state.syncPeers,
+    syncConflicts: state.syncConflicts,
+    syncEndpoint: state.syncEndpoint,
+    startHour: state.startHour,
+    timeZone: state.timeZone,
+    theme: state.theme,
+  };
+}
+
+// 블록을 뺀 저장 대상 슬라이스 — 이 슬라이스나 블록이 바뀔 때만 저장·journal·탭 전달을 한다
+// (보기·도구·날짜 이동 같은 UI 상태 변경은 저장하지 않는다)
+const DATA_SLICES = [
+  'activities',
+  'checklists',
+  'weekPlans',
+  'fixedSchedule',
+  'templateAppliesByDate',
+  'dailyStateByDate',
+  'completionEventsByDate',
+  'indicatorsByDate',
+  'checklistBlocksByDate',
+  'memosByDate',
+  'voiceCommandLogsByDate',
+  'sleepByDate',
+  'dayMoodByDate',
+  'segmentMoodsByDate',
+  'importKeywordRules',
+  'tombstones',
+  'syncPeers',
+  'syncConflicts',
+  'syncEndpoint',
+  'startHour',
+  'timeZone',
+  'theme',
+] as const satisfies readonly (keyof PersistedSlices)[];
+
+function changedBlockDates(blocks: Record<string, Block[]>, prevBlocks: Record<string, Block[]>): string[] {
+  if (blocks === prevBlocks) return [];
+  const changed: string[] = [];
+  for (const dateISO of new Set([...Object.keys(blocks), ...Object.keys(prevBlocks)])) {
+    if (blocks[dateISO] !== prevBlocks[dateISO]) changed.push(dateISO);
+  }
+  return changed;
+}
+
+function buildDataChanges(
+  state: PlannerState,
+  sliceKeys: readonly (keyof PersistedSlices)[],
+  blockDates: string[]
+): DataChanges {
+  const changes = emptyDataChanges();
+  for (const key of sliceKeys) changes.slices[key] = state[key];
+  for (const dateISO of blockDates) {
+    changes.blocks[dateISO] = state.blocks[dateISO] ?? null;
+    if (state.allBlocksLoaded || state.loadedDates[dateISO]) changes.completeDates.push(dateISO);
+  }
+  return changes;
+}
+
+/**
+ * 다른 탭이나 journal의 변경을 반영한다
+ * 모두 불러온 날짜의 목록은 통째로 바꾸고, 아니면 같은 id만 바꿔 기존 목록과 합친다
+ */
+function applyDataChanges(draft: PlannerState, changes: DataChanges): void {
+  Object.assign(draft, changes.slices);
+  const complete = new Set(changes.completeDates);
+  for (const [dateISO, list] of Object.entries(changes.blocks)) {
+    if (!list) {
+      delete draft.blocks[dateISO];
+    } else if (complete.has(dateISO)) {
+      draft.blocks[dateISO] = list;
+      draft.loadedDates[dateISO] = true;
+    } else {
+      const ids = new Set(list.map(b => b.id));
+      draft.blocks[dateISO] = [...(draft.blocks[dateISO] || []).filter(b => !ids.has(b.id)), ...list];
+    }
+  }
+  if (typeof changes.slices.theme === 'string') {
+    document.documentElement.setAttribute('data-theme', changes.slices.theme);
+  }
+}
+
+// ===== 저장: 디바운스 + 백그라운드 전환 시 즉시 저장 + journal (lib/journal) =====
 let saveTimeout: ReturnType<typeof setTimeout>;
-usePlannerStore.subscribe((state) => {
+
+// journal은 실행 취소 기록까지 직렬화하므로 칠하는 셀마다 쓰지 않고 모아서 쓴다 (백그라운드 전환 시에는 바로)
+const JOURNAL_THROTTLE_MS = 300;
+let journalTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function flushJournal(): void {
+  clearTimeout(journalTimeout);
+  journalTimeout = undefined;
+  if (!isEmptyDataChanges(pendingChanges)) {
+    writeJournal(pendingChanges, compactHistory(usePlannerStore.getState().history));
+  }
+}
+
+usePlannerStore.subscribe((state, prevState) => {
+  if (!state.storageStatus.hydrated || !prevState.storageStatus.hydrated) return;
+  const sliceKeys = DATA_SLICES.filter(key => state[key] !== prevState[key]);
+  // 저장소에서 그대로 불러온 날짜는 변경이 아니다
+  const blockDates = changedBlockDates(state.blocks, prevState.blocks).filter(
+    d => state.blocks[d] !== lastSavedBlocks[d] || d in pendingChanges.blocks
+  );
+  if (sliceKeys.length === 0 && blockDates.length === 0) return;
+  
+  if (isWriterTab) {
+    pendingChanges = mergeDataChanges(pendingChanges, buildDataChanges(state, sliceKeys, blockDates));
+    if (journalTimeout === undefined) journalTimeout = setTimeout(flushJournal, JOURNAL_THROTTLE_MS);
+  }
   clearTimeout(saveTimeout);
   saveTimeout = setTimeout(() => {
     state.saveToStorage();
   }, 1000);
 });
+
+// 앱이 백그라운드로 가거나 닫히기 직전에는 기다리지 않고 저장한다
+onAppBackground(() => {
+  if (!isWriterTab || isEmptyDataChanges(pendingChanges)) return;
+  clearTimeout(saveTimeout);
+  flushJournal();
+  usePlannerStore.getState().saveToStorage();
+});
+
+// 삭제 추적: 목록에서 사라진 id를 tombstone으로 남긴다 (동기화 때 다른 기기에서 되살아나지 않도록)
+// 모든 삭제 경로(지우개, 덮어쓰기, 합치기, 실행 취소 등)를 한 곳에서 잡기 위해 슬라이스 변화를 본다
+const weekPlanBlockLists = (weekPlans: Record<string, WeekPlan>) =>
+  Object.fromEntries(Object.entries(weekPlans).map(([weekKey, plan]) => [weekKey, plan.blocks]));
+
+usePlannerStore.subscribe((state, prevState) => {
+  if (!state.storageStatus.hydrated) return;
+  let tombstones = state.tombstones;
+  tombstones = trackDeletions(tombstones, 'block', prevState.blocks, state.blocks);
+  tombstones = trackDeletions(tombstones, 'memo', prevState.memosByDate, state.memosByDate);
+  tombstones = trackDeletions(tombstones, 'indicator', prevState.indicatorsByDate, state.indicatorsByDate);
+  tombstones = trackDeletions(tombstones, 'completionEvent', prevState.completionEventsByDate, state.completionEventsByDate);
+  tombstones = trackDeletions(tombstones, 'checklistItem', prevState.checklists, state.checklists);
+  tombstones = trackDeletions(tombstones, 'checklistBlock', prevState.checklistBlocksByDate, state.checklistBlocksByDate);
+  if (state.weekPlans !== prevState.weekPlans) {
+    tombstones = trackDeletions(
+      tombstones,
+      'weekPlanBlock',
+      weekPlanBlockLists(prevState.weekPlans),
+      weekPlanBlockLists(state.weekPlans)
+    );
+  }
+  // 새 tombstone을 저장할 때 보관 기간이 지난 것도 함께 정리한다
+  if (tombstones !== state.tombstones) usePlannerStore.setState({ tombstones: pruneTombstones(tombstones) });
+});
+
+// ===== 여러 탭 동기화 (lib/tabSync) =====
+// 데이터 변경은 BroadcastChannel로 다른 탭에 반영하고, 저장은 writer 잠금을 가진 탭만 한다.
+// 탭마다 따로 저장하면 디바운스된 saveToStorage가 서로의 변경을 덮어쓴다.
+const tabId = ulid();
+const tabChannel = openTabChannel(tabId, handleTabMessage);
+
+if (tabChannel && supportsWriterLock()) {
+  isWriterTab = false;
+  acquireWriterLock(() => {
+    isWriterTab = true;
+    // 이전 writer가 저장하지 못한 변경도 이 탭에 반영되어 있다
+    usePlannerStore.getState().saveToStorage();
+  });
+}
+
+function handleTabMessage(message: TabMessage): void {
+  const state = usePlannerStore.getState();
+  // 로드 전에 받은 변경은 로드가 덮어쓴다 — 로드 후 hello로 다시 받는다
+  if (!state.storageStatus.hydrated) return;
+  
+  if (message.type === 'hello') {
+    if (isWriterTab) {
+      tabChannel?.post({ type: 'changes', tabId, ...buildDataChanges(state, DATA_SLICES, collectDirtyDates(state.blocks)) });
+    }
+    return;
+  }
+  
+  withoutTabBroadcast(() => usePlannerStore.setState((draft) => applyDataChanges(draft, message)));
+}
+
+usePlannerStore.subscribe((state, prevState) => {
+  if (!tabChannel || !state.storageStatus.hydrated) return;
+  if (!prevState.storageStatus.hydrated) {
+    tabChannel.post({ type: 'hello', tabId });
+    return;
+  }
+  if (suppressTabBroadcast) return;
+  
+  const sliceKeys = DATA_SLICES.filter(key => state[key] !== prevState[key]);
+  const blockDates = changedBlockDates(state.blocks, prevState.blocks);
+  if (sliceKeys.length === 0 && blockDates.length === 0) return;
+  tabChannel.post({ type: 'changes', tabId, ...buildDataChanges(state, sliceKeys, blockDates) });
+});
@@ -1,8 +1,40 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// 개발용 로컬 동기화 엔드포인트 (src/lib/sync.ts): 마지막 스냅샷 하나를 메모리에 보관
+// 개발 서버 전용 (빌드 결과물에는 없음). 인증이 없으므로 CORS 헤더를 보내지 않는다 —
+// 이 개발 서버가 띄운 페이지(같은 출처)에서만 쓸 수 있고, 출처가 다른 Capacitor 앱에서는 닿지 않는다.
+// 폰으로 시험하려면 `npm run dev -- --host` 후 폰 브라우저에서 http://<PC IP>:5173 을 열어 쓴다
+function syncStandIn(): Plugin {
+  let snapshot: string | null = null
+  return {
+    name: 'life-log-sync-stand-in',
+    configureServer(server) {
+      server.middlewares.use('/__sync', (req, res) => {
+        if (req.method === 'GET') {
+          res.statusCode = snapshot === null ? 404 : 200
+          res.setHeader('Content-Type', 'application/json')
+          res.end(snapshot ?? '')
+        } else if (req.method === 'PUT') {
+          let body = ''
+          req.setEncoding('utf8')
+          req.on('data', (chunk: string) => (body += chunk))
+          req.on('end', () => {
+            snapshot = body
+            res.statusCode = 204
+            res.end()
+          })
+        } else {
+          res.statusCode = 405
+          res.end()
+        }
+      })
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), syncStandIn()],
   base: './', // 중요: Android WebView(Capacitor) 정적 자산 경로 안정화
 })